@@ -0,0 +1,88 @@
+import { sql } from 'drizzle-orm';
+import { db } from './index';
+import { DEFAULT_VARIANT_NAMES } from '../handlers/products';
+
+/**
+ * Prepares a database created before product variants for `drizzle-kit push`: every product gets
+ * the default variant it would have been created with, and cart and order items point at it.
+ * Push can then add the NOT NULL constraint on cart_items.variant_id to a populated table.
+ * Safe to run repeatedly, and a no-op on an empty database.
+ */
+export async function backfillProductVariants(): Promise<void> {
+  await db.transaction(async (tx) => {
+    const { rows } = await tx.execute<{ exists: boolean }>(sql`select to_regclass('public.products') is not null as exists`);
+    if (!rows[0].exists) {
+      return;
+    }
+
+    // Same shape as productVariantsTable; push adds the keys and indexes afterwards
+    await tx.execute(sql`
+      create table if not exists product_variants (
+        id serial primary key,
+        product_id integer not null,
+        name text not null,
+        sku text not null,
+        price numeric(10, 2) not null,
+        license_type license_type not null,
+        seats integer default 1 not null,
+        stock_quantity integer default 0 not null,
+        is_active boolean default true not null,
+        created_at timestamp default now() not null,
+        updated_at timestamp default now() not null
+      )
+    `);
+
+    // Mirrors the default variant insertProduct creates
+    await tx.execute(sql`
+      insert into product_variants (product_id, name, sku, price, license_type, stock_quantity)
+      select
+        products.id,
+        case coalesce(products.license_type, 'single')
+          when 'multi' then ${DEFAULT_VARIANT_NAMES.multi}
+          when 'unlimited' then ${DEFAULT_VARIANT_NAMES.unlimited}
+          else ${DEFAULT_VARIANT_NAMES.single}
+        end,
+        'P' || products.id || '-' || upper(coalesce(products.license_type, 'single')::text),
+        products.price,
+        coalesce(products.license_type, 'single'),
+        products.stock_quantity
+      from products
+      where not exists (select 1 from product_variants where product_variants.product_id = products.id)
+    `);
+
+    for (const table of ['cart_items', 'order_items']) {
+      await tx.execute(sql`alter table ${sql.identifier(table)} add column if not exists variant_id integer`);
+      await tx.execute(sql`
+        update ${sql.identifier(table)} as item
+        set variant_id = (select min(product_variants.id) from product_variants where product_variants.product_id = item.product_id)
+        where item.variant_id is null
+      `);
+    }
+  });
+}
+
+/**
+ * Removes repeated wishlist entries, keeping the first, so push can add the unique constraint on
+ * (wishlist_id, product_id, variant_id). A no-op once the constraint exists.
+ */
+export async function removeDuplicateWishlistItems(): Promise<void> {
+  const { rows } = await db.execute<{ exists: boolean }>(sql`select to_regclass('public.wishlist_items') is not null as exists`);
+  if (!rows[0].exists) {
+    return;
+  }
+
+  await db.execute(sql`
+    delete from wishlist_items as duplicate
+    using wishlist_items as original
+    where original.wishlist_id = duplicate.wishlist_id
+      and original.product_id = duplicate.product_id
+      and original.variant_id is not distinct from duplicate.variant_id
+      and original.id < duplicate.id
+  `);
+}
+
+if (import.meta.main) {
+  await backfillProductVariants();
+  await removeDuplicateWishlistItems();
+  await db.$client.end();
+}
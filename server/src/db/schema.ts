@@ -11,16 +11,21 @@ import {
   inet,
   index,
   foreignKey,
-  uniqueIndex
+  uniqueIndex,
+  unique,
+  check
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['admin', 'customer']);
 export const licenseTypeEnum = pgEnum('license_type', ['single', 'multi', 'unlimited']);
 export const discountTypeEnum = pgEnum('discount_type', ['percentage', 'fixed']);
 export const orderStatusEnum = pgEnum('order_status', ['pending', 'paid', 'completed', 'cancelled', 'refunded']);
-export const eventTypeEnum = pgEnum('event_type', ['page_view', 'product_view', 'add_to_cart', 'purchase', 'download']);
+export const eventTypeEnum = pgEnum('event_type', ['page_view', 'product_view', 'add_to_cart', 'purchase', 'download', 'search']);
+export const productMediaTypeEnum = pgEnum('product_media_type', ['image', 'screenshot', 'video']);
+export const attributeTypeEnum = pgEnum('attribute_type', ['text', 'number', 'boolean']);
+export const userTokenPurposeEnum = pgEnum('user_token_purpose', ['email_verification', 'password_reset', 'two_factor_challenge']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -31,23 +36,143 @@ export const usersTable = pgTable('users', {
   last_name: text('last_name').notNull(),
   role: userRoleEnum('role').notNull().default('customer'),
   is_active: boolean('is_active').notNull().default(true),
+  email_verified_at: timestamp('email_verified_at'),
+  failed_login_attempts: integer('failed_login_attempts').notNull().default(0),
+  last_failed_login_at: timestamp('last_failed_login_at'),
+  locked_until: timestamp('locked_until'),
+  totp_secret: text('totp_secret'), // Base32 TOTP secret, pending until totp_enabled_at is set
+  totp_enabled_at: timestamp('totp_enabled_at'),
+  totp_last_used_step: integer('totp_last_used_step'), // Last accepted TOTP time step, to reject replays
+  deleted_at: timestamp('deleted_at'), // Set when the account was deleted and its PII anonymized
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 }, (table) => ({
   emailIdx: uniqueIndex('users_email_idx').on(table.email)
 }));
 
+// One-time recovery codes for two-factor authentication (only the hash is stored)
+export const recoveryCodesTable = pgTable('recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id]
+  }),
+  userIdx: index('recovery_codes_user_idx').on(table.user_id)
+}));
+
+// Log of login attempts, used to throttle by client IP and for auditing
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull(),
+  ip_address: inet('ip_address'),
+  succeeded: boolean('succeeded').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  emailCreatedIdx: index('login_attempts_email_created_idx').on(table.email, table.created_at),
+  ipCreatedIdx: index('login_attempts_ip_created_idx').on(table.ip_address, table.created_at)
+}));
+
+// Single-use tokens sent to users by email (only the hash is stored)
+export const userTokensTable = pgTable('user_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  purpose: userTokenPurposeEnum('purpose').notNull(),
+  token_hash: text('token_hash').notNull(),
+  email: text('email').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id]
+  }),
+  tokenHashIdx: uniqueIndex('user_tokens_token_hash_idx').on(table.token_hash),
+  userPurposeIdx: index('user_tokens_user_purpose_idx').on(table.user_id, table.purpose)
+}));
+
+// Sessions table (one row per signed-in device, holding the hashed refresh token)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  refresh_token_hash: text('refresh_token_hash').notNull(),
+  user_agent: text('user_agent'),
+  ip_address: inet('ip_address'),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  last_used_at: timestamp('last_used_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id]
+  }),
+  refreshTokenIdx: uniqueIndex('sessions_refresh_token_idx').on(table.refresh_token_hash),
+  userIdx: index('sessions_user_idx').on(table.user_id)
+}));
+
 // Categories table
 export const categoriesTable = pgTable('categories', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
   description: text('description'),
   slug: text('slug').notNull(),
+  parent_id: integer('parent_id'), // Null for top-level categories
+  hero_image_url: text('hero_image_url'),
+  intro: text('intro'), // Rich landing-page content shown above the product listing
+  meta_title: text('meta_title'),
+  meta_description: text('meta_description'),
+  sort_order: integer('sort_order').notNull().default(0), // Position among siblings in navigation
   is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 }, (table) => ({
-  slugIdx: uniqueIndex('categories_slug_idx').on(table.slug)
+  parentFk: foreignKey({
+    columns: [table.parent_id],
+    foreignColumns: [table.id]
+  }),
+  slugIdx: uniqueIndex('categories_slug_idx').on(table.slug),
+  parentIdx: index('categories_parent_idx').on(table.parent_id)
+}));
+
+// Former category slugs, kept so old links can redirect to the category's current slug
+export const categorySlugAliasesTable = pgTable('category_slug_aliases', {
+  id: serial('id').primaryKey(),
+  category_id: integer('category_id').notNull(),
+  slug: text('slug').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  categoryFk: foreignKey({
+    columns: [table.category_id],
+    foreignColumns: [categoriesTable.id]
+  }),
+  slugIdx: uniqueIndex('category_slug_aliases_slug_idx').on(table.slug),
+  categoryIdx: index('category_slug_aliases_category_idx').on(table.category_id)
+}));
+
+// Products pinned to the top of a category listing, in sort_order
+export const categoryFeaturedProductsTable = pgTable('category_featured_products', {
+  id: serial('id').primaryKey(),
+  category_id: integer('category_id').notNull(),
+  product_id: integer('product_id').notNull(),
+  sort_order: integer('sort_order').notNull().default(0),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  categoryFk: foreignKey({
+    columns: [table.category_id],
+    foreignColumns: [categoriesTable.id]
+  }),
+  productFk: foreignKey({
+    columns: [table.product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  categoryProductIdx: uniqueIndex('category_featured_products_category_product_idx').on(table.category_id, table.product_id),
+  productIdx: index('category_featured_products_product_idx').on(table.product_id)
 }));
 
 // Products table
@@ -65,6 +190,9 @@ export const productsTable = pgTable('products', {
   license_type: licenseTypeEnum('license_type'),
   is_active: boolean('is_active').notNull().default(true),
   stock_quantity: integer('stock_quantity').notNull().default(0),
+  available_from: timestamp('available_from'), // On sale from this moment; null means right away
+  available_until: timestamp('available_until'), // Off sale from this moment; null means indefinitely
+  deleted_at: timestamp('deleted_at'), // Soft delete for products with order history
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 }, (table) => ({
@@ -74,7 +202,152 @@ export const productsTable = pgTable('products', {
   }),
   categoryIdx: index('products_category_idx').on(table.category_id),
   priceIdx: index('products_price_idx').on(table.price),
-  activeIdx: index('products_active_idx').on(table.is_active)
+  activeIdx: index('products_active_idx').on(table.is_active),
+  availableFromIdx: index('products_available_from_idx').on(table.available_from)
+}));
+
+// Product variants table - the sellable editions of a product, each with its own price, license and stock
+export const productVariantsTable = pgTable('product_variants', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull(),
+  name: text('name').notNull(),
+  sku: text('sku').notNull(),
+  price: numeric('price', { precision: 10, scale: 2 }).notNull(),
+  license_type: licenseTypeEnum('license_type').notNull(),
+  seats: integer('seats').notNull().default(1),
+  stock_quantity: integer('stock_quantity').notNull().default(0),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  productFk: foreignKey({
+    columns: [table.product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  skuIdx: uniqueIndex('product_variants_sku_idx').on(table.sku),
+  productIdx: index('product_variants_product_idx').on(table.product_id)
+}));
+
+// Product releases table - every published version of a product with its downloadable file
+export const productReleasesTable = pgTable('product_releases', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull(),
+  version: text('version').notNull(),
+  changelog: text('changelog'),
+  file_url: text('file_url').notNull(),
+  file_size: integer('file_size').notNull(),
+  sha256: text('sha256').notNull(),
+  released_at: timestamp('released_at').defaultNow().notNull(),
+  deprecated_at: timestamp('deprecated_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  productFk: foreignKey({
+    columns: [table.product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  productVersionIdx: uniqueIndex('product_releases_product_version_idx').on(table.product_id, table.version),
+  productReleasedIdx: index('product_releases_product_released_idx').on(table.product_id, table.released_at)
+}));
+
+// Product media table - ordered gallery of images, screenshots and video embeds
+export const productMediaTable = pgTable('product_media', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull(),
+  type: productMediaTypeEnum('type').notNull(),
+  url: text('url').notNull(), // Image location, or the embed URL for videos
+  alt_text: text('alt_text'),
+  sort_order: integer('sort_order').notNull().default(0),
+  is_primary: boolean('is_primary').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  productFk: foreignKey({
+    columns: [table.product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  productSortIdx: index('product_media_product_sort_idx').on(table.product_id, table.sort_order),
+  primaryIdx: uniqueIndex('product_media_primary_idx').on(table.product_id).where(sql`${table.is_primary}`)
+}));
+
+// Tags table - free-form labels attached to any number of products
+export const tagsTable = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  slug: text('slug').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  slugIdx: uniqueIndex('tags_slug_idx').on(table.slug)
+}));
+
+// Product tags table - links products and tags
+export const productTagsTable = pgTable('product_tags', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull(),
+  tag_id: integer('tag_id').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  productFk: foreignKey({
+    columns: [table.product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  tagFk: foreignKey({
+    columns: [table.tag_id],
+    foreignColumns: [tagsTable.id]
+  }),
+  productTagIdx: uniqueIndex('product_tags_product_tag_idx').on(table.product_id, table.tag_id),
+  tagIdx: index('product_tags_tag_idx').on(table.tag_id)
+}));
+
+// Attributes table - typed product properties such as platform or file format
+export const attributesTable = pgTable('attributes', {
+  id: serial('id').primaryKey(),
+  key: text('key').notNull(), // Identifier used in product filters
+  name: text('name').notNull(),
+  type: attributeTypeEnum('type').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  keyIdx: uniqueIndex('attributes_key_idx').on(table.key)
+}));
+
+// Product attributes table - attribute values of a product; an attribute may hold several values
+export const productAttributesTable = pgTable('product_attributes', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull(),
+  attribute_id: integer('attribute_id').notNull(),
+  value: text('value').notNull(), // Normalized text form of the typed value
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  productFk: foreignKey({
+    columns: [table.product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  attributeFk: foreignKey({
+    columns: [table.attribute_id],
+    foreignColumns: [attributesTable.id]
+  }),
+  productValueIdx: uniqueIndex('product_attributes_product_value_idx').on(table.product_id, table.attribute_id, table.value),
+  attributeValueIdx: index('product_attributes_attribute_value_idx').on(table.attribute_id, table.value)
+}));
+
+// Product co-purchases table - how many paid orders contained both products, refreshed by a recurring job
+export const productCoPurchasesTable = pgTable('product_co_purchases', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull(),
+  related_product_id: integer('related_product_id').notNull(),
+  order_count: integer('order_count').notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  productFk: foreignKey({
+    columns: [table.product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  relatedProductFk: foreignKey({
+    columns: [table.related_product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  pairIdx: uniqueIndex('product_co_purchases_pair_idx').on(table.product_id, table.related_product_id),
+  productCountIdx: index('product_co_purchases_product_count_idx').on(table.product_id, table.order_count)
 }));
 
 // Coupons table
@@ -132,6 +405,7 @@ export const orderItemsTable = pgTable('order_items', {
   id: serial('id').primaryKey(),
   order_id: integer('order_id').notNull(),
   product_id: integer('product_id').notNull(),
+  variant_id: integer('variant_id'), // Set by db:backfill for items ordered before variants existed
   quantity: integer('quantity').notNull(),
   unit_price: numeric('unit_price', { precision: 10, scale: 2 }).notNull(),
   total_price: numeric('total_price', { precision: 10, scale: 2 }).notNull(),
@@ -147,15 +421,34 @@ export const orderItemsTable = pgTable('order_items', {
     columns: [table.product_id],
     foreignColumns: [productsTable.id]
   }),
+  variantFk: foreignKey({
+    columns: [table.variant_id],
+    foreignColumns: [productVariantsTable.id]
+  }),
   orderIdx: index('order_items_order_idx').on(table.order_id),
-  productIdx: index('order_items_product_idx').on(table.product_id)
+  productIdx: index('order_items_product_idx').on(table.product_id),
+  variantIdx: index('order_items_variant_idx').on(table.variant_id)
+}));
+
+// Carts of visitors who are not signed in, addressed by an opaque token (only the hash is stored)
+export const guestCartsTable = pgTable('guest_carts', {
+  id: serial('id').primaryKey(),
+  token_hash: text('token_hash').notNull(),
+  expires_at: timestamp('expires_at').notNull(), // Pushed back whenever the cart is used
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  tokenHashIdx: uniqueIndex('guest_carts_token_hash_idx').on(table.token_hash),
+  expiresIdx: index('guest_carts_expires_idx').on(table.expires_at)
 }));
 
 // Cart items table
 export const cartItemsTable = pgTable('cart_items', {
   id: serial('id').primaryKey(),
-  user_id: integer('user_id').notNull(),
+  user_id: integer('user_id'), // Null for items in a guest cart
+  guest_cart_id: integer('guest_cart_id'),
   product_id: integer('product_id').notNull(),
+  variant_id: integer('variant_id').notNull(),
   quantity: integer('quantity').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
@@ -168,8 +461,66 @@ export const cartItemsTable = pgTable('cart_items', {
     columns: [table.product_id],
     foreignColumns: [productsTable.id]
   }),
-  userProductIdx: uniqueIndex('cart_items_user_product_idx').on(table.user_id, table.product_id),
-  userIdx: index('cart_items_user_idx').on(table.user_id)
+  variantFk: foreignKey({
+    columns: [table.variant_id],
+    foreignColumns: [productVariantsTable.id]
+  }),
+  guestCartFk: foreignKey({
+    columns: [table.guest_cart_id],
+    foreignColumns: [guestCartsTable.id]
+  }),
+  userVariantIdx: uniqueIndex('cart_items_user_variant_idx').on(table.user_id, table.variant_id),
+  guestCartVariantIdx: uniqueIndex('cart_items_guest_cart_variant_idx').on(table.guest_cart_id, table.variant_id),
+  userIdx: index('cart_items_user_idx').on(table.user_id),
+  // Every item belongs to exactly one cart: a user's or a guest's
+  singleOwnerCheck: check('cart_items_single_owner_check', sql`(${table.user_id} is null) <> (${table.guest_cart_id} is null)`)
+}));
+
+// Named wishlists; a share token makes a list readable by anyone holding the link
+export const wishlistsTable = pgTable('wishlists', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  name: text('name').notNull(),
+  share_token: text('share_token'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id]
+  }),
+  userIdx: index('wishlists_user_idx').on(table.user_id),
+  shareTokenIdx: uniqueIndex('wishlists_share_token_idx').on(table.share_token)
+}));
+
+// Wishlist items remember the price and stock state last seen, so drops and restocks can be announced once
+export const wishlistItemsTable = pgTable('wishlist_items', {
+  id: serial('id').primaryKey(),
+  wishlist_id: integer('wishlist_id').notNull(),
+  product_id: integer('product_id').notNull(),
+  variant_id: integer('variant_id'), // Null when any variant will do
+  last_seen_price: numeric('last_seen_price', { precision: 10, scale: 2 }).notNull(),
+  last_seen_in_stock: boolean('last_seen_in_stock').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  wishlistFk: foreignKey({
+    columns: [table.wishlist_id],
+    foreignColumns: [wishlistsTable.id]
+  }),
+  productFk: foreignKey({
+    columns: [table.product_id],
+    foreignColumns: [productsTable.id]
+  }),
+  variantFk: foreignKey({
+    columns: [table.variant_id],
+    foreignColumns: [productVariantsTable.id]
+  }),
+  wishlistIdx: index('wishlist_items_wishlist_idx').on(table.wishlist_id),
+  productIdx: index('wishlist_items_product_idx').on(table.product_id),
+  // A product (with "any variant" as one of its choices) appears on a list at most once
+  wishlistProductVariantUnique: unique('wishlist_items_wishlist_product_variant_unique')
+    .on(table.wishlist_id, table.product_id, table.variant_id)
+    .nullsNotDistinct()
 }));
 
 // Reviews table
@@ -255,26 +606,152 @@ export const settingsTable = pgTable('settings', {
 
 // Relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
+  sessions: many(sessionsTable),
+  tokens: many(userTokensTable),
+  recoveryCodes: many(recoveryCodesTable),
   orders: many(ordersTable),
   cartItems: many(cartItemsTable),
+  wishlists: many(wishlistsTable),
   reviews: many(reviewsTable),
   blogPosts: many(blogPostsTable)
 }));
 
-export const categoriesRelations = relations(categoriesTable, ({ many }) => ({
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const userTokensRelations = relations(userTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const categoriesRelations = relations(categoriesTable, ({ one, many }) => ({
+  parent: one(categoriesTable, {
+    fields: [categoriesTable.parent_id],
+    references: [categoriesTable.id],
+    relationName: 'subcategories'
+  }),
+  children: many(categoriesTable, { relationName: 'subcategories' }),
+  slugAliases: many(categorySlugAliasesTable),
+  featuredProducts: many(categoryFeaturedProductsTable),
   products: many(productsTable)
 }));
 
+export const categoryFeaturedProductsRelations = relations(categoryFeaturedProductsTable, ({ one }) => ({
+  category: one(categoriesTable, {
+    fields: [categoryFeaturedProductsTable.category_id],
+    references: [categoriesTable.id]
+  }),
+  product: one(productsTable, {
+    fields: [categoryFeaturedProductsTable.product_id],
+    references: [productsTable.id]
+  })
+}));
+
+export const categorySlugAliasesRelations = relations(categorySlugAliasesTable, ({ one }) => ({
+  category: one(categoriesTable, {
+    fields: [categorySlugAliasesTable.category_id],
+    references: [categoriesTable.id]
+  })
+}));
+
 export const productsRelations = relations(productsTable, ({ one, many }) => ({
   category: one(categoriesTable, {
     fields: [productsTable.category_id],
     references: [categoriesTable.id]
   }),
+  variants: many(productVariantsTable),
+  releases: many(productReleasesTable),
+  media: many(productMediaTable),
+  tags: many(productTagsTable),
+  attributes: many(productAttributesTable),
+  coPurchases: many(productCoPurchasesTable, { relationName: 'coPurchases' }),
+  coPurchasedWith: many(productCoPurchasesTable, { relationName: 'coPurchasedWith' }),
   orderItems: many(orderItemsTable),
   cartItems: many(cartItemsTable),
+  wishlistItems: many(wishlistItemsTable),
   reviews: many(reviewsTable)
 }));
 
+export const productVariantsRelations = relations(productVariantsTable, ({ one, many }) => ({
+  product: one(productsTable, {
+    fields: [productVariantsTable.product_id],
+    references: [productsTable.id]
+  }),
+  orderItems: many(orderItemsTable),
+  cartItems: many(cartItemsTable),
+  wishlistItems: many(wishlistItemsTable)
+}));
+
+export const productReleasesRelations = relations(productReleasesTable, ({ one }) => ({
+  product: one(productsTable, {
+    fields: [productReleasesTable.product_id],
+    references: [productsTable.id]
+  })
+}));
+
+export const productMediaRelations = relations(productMediaTable, ({ one }) => ({
+  product: one(productsTable, {
+    fields: [productMediaTable.product_id],
+    references: [productsTable.id]
+  })
+}));
+
+export const tagsRelations = relations(tagsTable, ({ many }) => ({
+  products: many(productTagsTable)
+}));
+
+export const productTagsRelations = relations(productTagsTable, ({ one }) => ({
+  product: one(productsTable, {
+    fields: [productTagsTable.product_id],
+    references: [productsTable.id]
+  }),
+  tag: one(tagsTable, {
+    fields: [productTagsTable.tag_id],
+    references: [tagsTable.id]
+  })
+}));
+
+export const attributesRelations = relations(attributesTable, ({ many }) => ({
+  values: many(productAttributesTable)
+}));
+
+export const productAttributesRelations = relations(productAttributesTable, ({ one }) => ({
+  product: one(productsTable, {
+    fields: [productAttributesTable.product_id],
+    references: [productsTable.id]
+  }),
+  attribute: one(attributesTable, {
+    fields: [productAttributesTable.attribute_id],
+    references: [attributesTable.id]
+  })
+}));
+
+export const productCoPurchasesRelations = relations(productCoPurchasesTable, ({ one }) => ({
+  product: one(productsTable, {
+    fields: [productCoPurchasesTable.product_id],
+    references: [productsTable.id],
+    relationName: 'coPurchases'
+  }),
+  relatedProduct: one(productsTable, {
+    fields: [productCoPurchasesTable.related_product_id],
+    references: [productsTable.id],
+    relationName: 'coPurchasedWith'
+  })
+}));
+
 export const couponsRelations = relations(couponsTable, ({ many }) => ({
   orders: many(ordersTable)
 }));
@@ -299,17 +776,56 @@ export const orderItemsRelations = relations(orderItemsTable, ({ one }) => ({
   product: one(productsTable, {
     fields: [orderItemsTable.product_id],
     references: [productsTable.id]
+  }),
+  variant: one(productVariantsTable, {
+    fields: [orderItemsTable.variant_id],
+    references: [productVariantsTable.id]
   })
 }));
 
+export const guestCartsRelations = relations(guestCartsTable, ({ many }) => ({
+  items: many(cartItemsTable)
+}));
+
 export const cartItemsRelations = relations(cartItemsTable, ({ one }) => ({
   user: one(usersTable, {
     fields: [cartItemsTable.user_id],
     references: [usersTable.id]
   }),
+  guestCart: one(guestCartsTable, {
+    fields: [cartItemsTable.guest_cart_id],
+    references: [guestCartsTable.id]
+  }),
   product: one(productsTable, {
     fields: [cartItemsTable.product_id],
     references: [productsTable.id]
+  }),
+  variant: one(productVariantsTable, {
+    fields: [cartItemsTable.variant_id],
+    references: [productVariantsTable.id]
+  })
+}));
+
+export const wishlistsRelations = relations(wishlistsTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [wishlistsTable.user_id],
+    references: [usersTable.id]
+  }),
+  items: many(wishlistItemsTable)
+}));
+
+export const wishlistItemsRelations = relations(wishlistItemsTable, ({ one }) => ({
+  wishlist: one(wishlistsTable, {
+    fields: [wishlistItemsTable.wishlist_id],
+    references: [wishlistsTable.id]
+  }),
+  product: one(productsTable, {
+    fields: [wishlistItemsTable.product_id],
+    references: [productsTable.id]
+  }),
+  variant: one(productVariantsTable, {
+    fields: [wishlistItemsTable.variant_id],
+    references: [productVariantsTable.id]
   })
 }));
 
@@ -341,12 +857,29 @@ export const analyticsRelations = relations(analyticsTable, ({ one }) => ({
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  userTokens: userTokensTable,
+  loginAttempts: loginAttemptsTable,
+  recoveryCodes: recoveryCodesTable,
   categories: categoriesTable,
+  categorySlugAliases: categorySlugAliasesTable,
+  categoryFeaturedProducts: categoryFeaturedProductsTable,
   products: productsTable,
+  productVariants: productVariantsTable,
+  productReleases: productReleasesTable,
+  productMedia: productMediaTable,
+  tags: tagsTable,
+  productTags: productTagsTable,
+  attributes: attributesTable,
+  productAttributes: productAttributesTable,
+  productCoPurchases: productCoPurchasesTable,
   coupons: couponsTable,
   orders: ordersTable,
   orderItems: orderItemsTable,
+  guestCarts: guestCartsTable,
   cartItems: cartItemsTable,
+  wishlists: wishlistsTable,
+  wishlistItems: wishlistItemsTable,
   reviews: reviewsTable,
   blogPosts: blogPostsTable,
   analytics: analyticsTable,
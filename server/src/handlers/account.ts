@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import {
+  usersTable,
+  sessionsTable,
+  userTokensTable,
+  recoveryCodesTable,
+  loginAttemptsTable,
+  cartItemsTable,
+  wishlistsTable,
+  wishlistItemsTable,
+  analyticsTable
+} from '../db/schema';
+import {
+  type User,
+  type UpdateProfileInput,
+  type ChangeEmailInput,
+  type DeleteAccountInput
+} from '../schema';
+import { eq, and, ne, desc, inArray } from 'drizzle-orm';
+import { verifyPassword } from '../lib/password';
+import { toPublicUser, sendVerificationEmail } from './auth';
+import { revokeAllSessions } from './sessions';
+import { getOrdersByUser, getOrderById } from './orders';
+import { getUserReviews } from './reviews';
+import { getCartItems } from './cart';
+import { getWishlists, getWishlistById } from './wishlists';
+
+// Deleted accounts keep their row (orders reference it) under a non-routable placeholder address
+function anonymizedEmail(userId: number): string {
+  return `deleted-user-${userId}@deleted.invalid`;
+}
+
+async function findActiveUser(userId: number): Promise<typeof usersTable.$inferSelect | null> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0 || users[0].deleted_at) {
+    return null;
+  }
+
+  return users[0];
+}
+
+/**
+ * Handler for updating the caller's profile
+ * This handler changes the user's first and/or last name
+ */
+export async function updateProfile(userId: number, input: UpdateProfileInput): Promise<Omit<User, 'password_hash'>> {
+  try {
+    const user = await findActiveUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const updateData: Partial<typeof usersTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.first_name !== undefined) updateData.first_name = input.first_name;
+    if (input.last_name !== undefined) updateData.last_name = input.last_name;
+
+    const result = await db.update(usersTable)
+      .set(updateData)
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Profile update failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for changing the caller's email address
+ * This handler checks the password, switches to the new address as unverified
+ * and sends a verification link to it
+ */
+export async function changeEmail(userId: number, input: ChangeEmailInput): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await findActiveUser(userId);
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const { valid } = await verifyPassword(input.password, user.password_hash);
+    if (!valid) {
+      return { success: false, error: 'Password is incorrect' };
+    }
+
+    if (input.new_email === user.email) {
+      return { success: false, error: 'New email must differ from the current one' };
+    }
+
+    const existingUsers = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.email, input.new_email),
+        ne(usersTable.id, userId)
+      ))
+      .execute();
+
+    if (existingUsers.length > 0) {
+      return { success: false, error: 'Email already exists' };
+    }
+
+    await db.update(usersTable)
+      .set({
+        email: input.new_email,
+        email_verified_at: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    // Links sent to the old address stop working because verifyEmail matches on the address
+    await sendVerificationEmail(user, input.new_email);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Email change failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for deleting the caller's account
+ * This handler anonymizes the user's personal data while keeping orders and license keys
+ * for bookkeeping, and signs the user out everywhere
+ */
+export async function deleteAccount(userId: number, input: DeleteAccountInput): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await findActiveUser(userId);
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    if (user.role === 'admin') {
+      return { success: false, error: 'Admin accounts cannot be deleted' };
+    }
+
+    const { valid } = await verifyPassword(input.password, user.password_hash);
+    if (!valid) {
+      return { success: false, error: 'Password is incorrect' };
+    }
+
+    await revokeAllSessions(userId);
+
+    await db.transaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({
+          email: anonymizedEmail(userId),
+          first_name: 'Deleted',
+          last_name: 'User',
+          // Not a valid hash in any supported format, so no password can match it
+          password_hash: `deleted$${crypto.randomBytes(16).toString('hex')}`,
+          is_active: false,
+          email_verified_at: null,
+          totp_secret: null,
+          totp_enabled_at: null,
+          totp_last_used_step: null,
+          failed_login_attempts: 0,
+          last_failed_login_at: null,
+          locked_until: null,
+          deleted_at: new Date(),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      // Device and network details are personal data too
+      await tx.delete(sessionsTable).where(eq(sessionsTable.user_id, userId)).execute();
+      await tx.delete(userTokensTable).where(eq(userTokensTable.user_id, userId)).execute();
+      await tx.delete(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute();
+      await tx.delete(loginAttemptsTable).where(eq(loginAttemptsTable.email, user.email)).execute();
+      await tx.delete(cartItemsTable).where(eq(cartItemsTable.user_id, userId)).execute();
+      const wishlistIds = tx.select({ id: wishlistsTable.id }).from(wishlistsTable).where(eq(wishlistsTable.user_id, userId));
+      await tx.delete(wishlistItemsTable).where(inArray(wishlistItemsTable.wishlist_id, wishlistIds)).execute();
+      await tx.delete(wishlistsTable).where(eq(wishlistsTable.user_id, userId)).execute();
+
+      await tx.update(analyticsTable)
+        .set({ ip_address: null, user_agent: null })
+        .where(eq(analyticsTable.user_id, userId))
+        .execute();
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Account deletion failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for exporting the caller's data
+ * This handler bundles the user's profile, orders, reviews, cart, wishlists and analytics events
+ */
+export async function exportAccountData(userId: number) {
+  try {
+    const user = await findActiveUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const [orders, reviews, cart, wishlists, analyticsEvents] = await Promise.all([
+      getOrdersByUser(userId),
+      getUserReviews(userId),
+      getCartItems(userId),
+      getWishlists(userId),
+      db.select()
+        .from(analyticsTable)
+        .where(eq(analyticsTable.user_id, userId))
+        .orderBy(desc(analyticsTable.created_at))
+        .execute()
+    ]);
+
+    // Include line items and license keys with each order
+    const ordersWithItems = await Promise.all(orders.map(order => getOrderById(order.id)));
+    const wishlistsWithItems = await Promise.all(wishlists.map(wishlist => getWishlistById(wishlist.id, userId)));
+
+    return {
+      exported_at: new Date(),
+      profile: toPublicUser(user),
+      orders: ordersWithItems.filter(order => order !== null),
+      reviews,
+      cart,
+      wishlists: wishlistsWithItems.filter(wishlist => wishlist !== null),
+      analytics_events: analyticsEvents
+    };
+  } catch (error) {
+    console.error('Account data export failed:', error);
+    throw error;
+  }
+}
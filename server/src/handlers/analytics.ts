@@ -439,11 +439,110 @@ export async function getUserBehaviorAnalytics(): Promise<{
   }
 }
 
+/**
+ * Handler for recording a product search
+ * This handler tracks the normalized query terms and result count for the search report
+ */
+export async function recordSearchQuery(query: string, resultCount: number, source: 'search' | 'suggest', userId?: number): Promise<void> {
+  const terms = query.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (!terms) {
+    return;
+  }
+
+  try {
+    await trackEvent({
+      event_type: 'search',
+      event_data: { query: terms, result_count: resultCount, source },
+      user_id: userId
+    });
+  } catch (error) {
+    // Losing a data point must not fail the search itself
+    console.error('Search tracking failed:', error);
+  }
+}
+
+/**
+ * Handler for getting search analytics
+ * This handler reports search volume, the most frequent queries and the queries that found nothing.
+ * Search-as-you-type requests are counted separately, since their partial prefixes would swamp the query reports
+ */
+export async function getSearchAnalytics(startDate: Date, endDate: Date, limit: number = 20): Promise<{
+  total_searches: number;
+  suggest_requests: number;
+  zero_result_searches: number;
+  zero_result_rate: number;
+  top_queries: Array<{ query: string; searches: number; average_results: number }>;
+  zero_result_queries: Array<{ query: string; searches: number; last_searched_at: Date }>;
+}> {
+  try {
+    const query = sql<string>`${analyticsTable.event_data}->>'query'`;
+    // Only cast well-formed counts, so a malformed row cannot make the whole report fail
+    const resultCount = sql`case when ${analyticsTable.event_data}->>'result_count' ~ '^[0-9]{1,9}$' then (${analyticsTable.event_data}->>'result_count')::int end`;
+    const isSuggest = sql`${analyticsTable.event_data}->>'source' = 'suggest'`;
+    const eventsInRange = and(
+      eq(analyticsTable.event_type, 'search'),
+      sql`${resultCount} is not null`,
+      gte(analyticsTable.created_at, startDate),
+      lte(analyticsTable.created_at, endDate)
+    );
+    const inRange = and(eventsInRange, sql`not coalesce(${isSuggest}, false)`);
+
+    const [totals] = await db.select({
+      total: sql<number>`count(*) filter (where not coalesce(${isSuggest}, false))`.mapWith(Number),
+      suggest_requests: sql<number>`count(*) filter (where ${isSuggest})`.mapWith(Number),
+      zero_results: sql<number>`count(*) filter (where not coalesce(${isSuggest}, false) and ${resultCount} = 0)`.mapWith(Number)
+    })
+      .from(analyticsTable)
+      .where(eventsInRange)
+      .execute();
+
+    const topQueries = await db.select({
+      query,
+      searches: count(),
+      average_results: sql<string>`avg(${resultCount})`
+    })
+      .from(analyticsTable)
+      .where(inRange)
+      .groupBy(query)
+      .orderBy(desc(count()), query)
+      .limit(limit)
+      .execute();
+
+    const zeroResultQueries = await db.select({
+      query,
+      searches: count(),
+      last_searched_at: sql<Date>`max(${analyticsTable.created_at})`.mapWith(analyticsTable.created_at)
+    })
+      .from(analyticsTable)
+      .where(and(inRange, sql`${resultCount} = 0`))
+      .groupBy(query)
+      .orderBy(desc(count()), query)
+      .limit(limit)
+      .execute();
+
+    return {
+      total_searches: totals.total,
+      suggest_requests: totals.suggest_requests,
+      zero_result_searches: totals.zero_results,
+      zero_result_rate: totals.total > 0 ? (totals.zero_results / totals.total) * 100 : 0,
+      top_queries: topQueries.map(q => ({
+        query: q.query,
+        searches: q.searches,
+        average_results: parseFloat(q.average_results || '0')
+      })),
+      zero_result_queries: zeroResultQueries
+    };
+  } catch (error) {
+    console.error('Search analytics retrieval failed:', error);
+    throw error;
+  }
+}
+
 /**
  * Handler for generating analytics reports
  * This handler creates comprehensive analytics reports
  */
-export async function generateAnalyticsReport(startDate: Date, endDate: Date, reportType: 'sales' | 'traffic' | 'products' | 'comprehensive'): Promise<{
+export async function generateAnalyticsReport(startDate: Date, endDate: Date, reportType: 'sales' | 'traffic' | 'products' | 'search' | 'comprehensive'): Promise<{
   report_type: string;
   date_range: { start: Date; end: Date };
   data: any;
@@ -462,11 +561,15 @@ export async function generateAnalyticsReport(startDate: Date, endDate: Date, re
       case 'products':
         data = await getProductAnalytics();
         break;
+      case 'search':
+        data = await getSearchAnalytics(startDate, endDate);
+        break;
       case 'comprehensive':
         data = {
           sales: await getSalesAnalytics(startDate, endDate),
           traffic: await getVisitorAnalytics(startDate, endDate),
           products: await getProductAnalytics(),
+          search: await getSearchAnalytics(startDate, endDate),
           dashboard: await getDashboardStats()
         };
         break;
@@ -0,0 +1,238 @@
+import { db } from '../db';
+import { attributesTable, productAttributesTable, productsTable } from '../db/schema';
+import {
+  type Attribute,
+  type CreateAttributeInput,
+  type UpdateAttributeInput,
+  type ProductAttribute,
+  type SetProductAttributesInput
+} from '../schema';
+import { eq, and, asc, inArray, isNull } from 'drizzle-orm';
+
+/**
+ * Normalizes a value to the text stored for the attribute type, so equal values
+ * compare equal in filters ("1.50" and "1.5", "TRUE" and "true")
+ */
+export function normalizeAttributeValue(attribute: typeof attributesTable.$inferSelect, value: string): string {
+  const trimmed = value.trim();
+
+  if (attribute.type === 'number') {
+    const number = Number(trimmed);
+    if (trimmed === '' || !Number.isFinite(number)) {
+      throw new Error(`${attribute.key}: "${value}" is not a number`);
+    }
+    return String(number);
+  }
+
+  if (attribute.type === 'boolean') {
+    const lowered = trimmed.toLowerCase();
+    if (lowered !== 'true' && lowered !== 'false') {
+      throw new Error(`${attribute.key}: "${value}" is not true or false`);
+    }
+    return lowered;
+  }
+
+  if (trimmed === '') {
+    throw new Error(`${attribute.key}: values cannot be empty`);
+  }
+  return trimmed;
+}
+
+/**
+ * Handler for creating an attribute
+ * This handler defines a typed product attribute that products can be given values for and filtered by
+ */
+export async function createAttribute(input: CreateAttributeInput): Promise<Attribute> {
+  try {
+    const existing = await db.select({ id: attributesTable.id })
+      .from(attributesTable)
+      .where(eq(attributesTable.key, input.key))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Attribute with key ${input.key} already exists`);
+    }
+
+    const result = await db.insert(attributesTable)
+      .values({
+        key: input.key,
+        name: input.name,
+        type: input.type
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Attribute creation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting all attributes
+ * This handler lists the attributes with the values active products use, for building filter controls
+ */
+export async function getAttributes(): Promise<(Attribute & { values: string[] })[]> {
+  try {
+    const attributes = await db.select()
+      .from(attributesTable)
+      .orderBy(asc(attributesTable.name))
+      .execute();
+
+    const values = await db.selectDistinct({
+      attribute_id: productAttributesTable.attribute_id,
+      value: productAttributesTable.value
+    })
+      .from(productAttributesTable)
+      .innerJoin(productsTable, eq(productAttributesTable.product_id, productsTable.id))
+      .where(and(
+        eq(productsTable.is_active, true),
+        isNull(productsTable.deleted_at)
+      ))
+      .orderBy(asc(productAttributesTable.value))
+      .execute();
+
+    return attributes.map(attribute => {
+      const used = values.filter(row => row.attribute_id === attribute.id).map(row => row.value);
+      return {
+        ...attribute,
+        values: attribute.type === 'number' ? used.sort((a, b) => Number(a) - Number(b)) : used
+      };
+    });
+  } catch (error) {
+    console.error('Failed to get attributes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for updating an attribute
+ * This handler renames an attribute; its key and type are fixed once products use it
+ */
+export async function updateAttribute(input: UpdateAttributeInput): Promise<Attribute | null> {
+  try {
+    const results = await db.update(attributesTable)
+      .set({ name: input.name, updated_at: new Date() })
+      .where(eq(attributesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Attribute update failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for deleting an attribute
+ * This handler deletes the attribute along with the values products had for it
+ */
+export async function deleteAttribute(id: number): Promise<boolean> {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.delete(productAttributesTable)
+        .where(eq(productAttributesTable.attribute_id, id))
+        .execute();
+
+      const results = await tx.delete(attributesTable)
+        .where(eq(attributesTable.id, id))
+        .returning()
+        .execute();
+
+      return results.length > 0;
+    });
+  } catch (error) {
+    console.error('Attribute deletion failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting a product's attributes
+ * This handler lists the attributes a product has values for, with the values of each
+ */
+export async function getProductAttributes(productId: number): Promise<ProductAttribute[]> {
+  try {
+    const rows = await db.select({
+      attribute: attributesTable,
+      value: productAttributesTable.value
+    })
+      .from(productAttributesTable)
+      .innerJoin(attributesTable, eq(productAttributesTable.attribute_id, attributesTable.id))
+      .where(eq(productAttributesTable.product_id, productId))
+      .orderBy(asc(attributesTable.name), asc(attributesTable.id), asc(productAttributesTable.id))
+      .execute();
+
+    const attributes: ProductAttribute[] = [];
+    for (const row of rows) {
+      const last = attributes[attributes.length - 1];
+      if (last && last.key === row.attribute.key) {
+        last.values.push(row.value);
+      } else {
+        attributes.push({ key: row.attribute.key, name: row.attribute.name, type: row.attribute.type, values: [row.value] });
+      }
+    }
+
+    return attributes;
+  } catch (error) {
+    console.error('Failed to get product attributes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for setting a product's attributes
+ * This handler validates the values against each attribute's type and replaces all of the product's values
+ */
+export async function setProductAttributes(input: SetProductAttributesInput): Promise<ProductAttribute[]> {
+  try {
+    const product = await db.select({ id: productsTable.id })
+      .from(productsTable)
+      .where(and(
+        eq(productsTable.id, input.product_id),
+        isNull(productsTable.deleted_at)
+      ))
+      .execute();
+
+    if (product.length === 0) {
+      throw new Error(`Product with id ${input.product_id} not found`);
+    }
+
+    const keys = Object.keys(input.attributes);
+    const attributes = keys.length > 0
+      ? await db.select().from(attributesTable).where(inArray(attributesTable.key, keys)).execute()
+      : [];
+
+    const rows: (typeof productAttributesTable.$inferInsert)[] = [];
+    for (const key of keys) {
+      const attribute = attributes.find(candidate => candidate.key === key);
+      if (!attribute) {
+        throw new Error(`Attribute with key ${key} not found`);
+      }
+
+      const values = new Set(input.attributes[key].map(value => normalizeAttributeValue(attribute, value)));
+      for (const value of values) {
+        rows.push({ product_id: input.product_id, attribute_id: attribute.id, value });
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(productAttributesTable)
+        .where(eq(productAttributesTable.product_id, input.product_id))
+        .execute();
+
+      if (rows.length > 0) {
+        await tx.insert(productAttributesTable)
+          .values(rows)
+          .execute();
+      }
+    });
+
+    return await getProductAttributes(input.product_id);
+  } catch (error) {
+    console.error('Setting product attributes failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,202 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { usersTable, userTokensTable } from '../db/schema';
+import { 
+  type CreateUserInput, 
+  type LoginInput, 
+  type SessionMetadata, 
+  type User, 
+  type ResetPasswordInput, 
+  type ChangePasswordInput, 
+  type TwoFactorLoginInput 
+} from '../schema';
+import { eq, and, gt, isNull, sql } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../lib/password';
+import { generateOpaqueToken, hashOpaqueToken, verifyAccessToken } from '../lib/tokens';
+import { sendMail, canDeliverMail, type SmtpSettings } from '../lib/mail';
+import { createSession, isSessionActive, revokeAllSessions } from './sessions';
+import { getSettingValue } from './settings';
+import { assertLoginAllowed, recordFailedLogin, recordSuccessfulLogin } from './login_attempts';
+import { verifySecondFactor } from './two_factor';
+
+type UserTokenPurpose = typeof userTokensTable.$inferSelect['purpose'];
+
+// Email verification links stay valid for one day
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+// Password reset links are short-lived
+const PASSWORD_RESET_TTL_HOURS = 1;
+
+// The second login step has to be completed within a few minutes of the password step
+const TWO_FACTOR_CHALLENGE_TTL_MINUTES = 5;
+
+type LoginSuccess = { user: Omit<User, 'password_hash'>, token: string, refresh_token: string };
+type TwoFactorChallenge = { two_factor_required: true, challenge_token: string };
+
+// Strips credentials and security bookkeeping from a user row
+export function toPublicUser(user: typeof usersTable.$inferSelect): Omit<User, 'password_hash'> {
+  return {
+    id: user.id,
+    email: user.email,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    role: user.role,
+    is_active: user.is_active,
+    email_verified_at: user.email_verified_at,
+    created_at: user.created_at,
+    updated_at: user.updated_at
+  };
+}
+
+/**
+ * Issues a single-use token for the user, replacing any unused token with the same purpose
+ * Returns the plaintext token; only its hash is stored
+ */
+async function issueUserToken(userId: number, purpose: UserTokenPurpose, email: string, ttlMinutes: number): Promise<string> {
+  await db.update(userTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(userTokensTable.user_id, userId),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at)
+    ))
+    .execute();
+
+  const token = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  await db.insert(userTokensTable)
+    .values({
+      user_id: userId,
+      purpose,
+      token_hash: hashOpaqueToken(token),
+      email,
+      expires_at: expiresAt
+    })
+    .execute();
+
+  return token;
+}
+
+/**
+ * Marks a valid, unexpired token as used and returns its record, or null if it cannot be used
+ */
+async function consumeUserToken(token: string, purpose: UserTokenPurpose): Promise<typeof userTokensTable.$inferSelect | null> {
+  const result = await db.update(userTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(userTokensTable.token_hash, hashOpaqueToken(token)),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at),
+      gt(userTokensTable.expires_at, new Date())
+    ))
+    .returning()
+    .execute();
+
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * Looks up a valid, unexpired token without consuming it
+ */
+async function findUserToken(token: string, purpose: UserTokenPurpose): Promise<typeof userTokensTable.$inferSelect | null> {
+  const result = await db.select()
+    .from(userTokensTable)
+    .where(and(
+      eq(userTokensTable.token_hash, hashOpaqueToken(token)),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at),
+      gt(userTokensTable.expires_at, new Date())
+    ))
+    .execute();
+
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * Sender address, site name and SMTP server for outgoing mail, taken from the settings
+ */
+export async function getMailSender(): Promise<{ from: string; siteName: string; smtp: SmtpSettings | null }> {
+  const [siteName, adminEmail, smtpHost, smtpPort, smtpUsername, smtpPassword] = await Promise.all([
+    getSettingValue('site_name'),
+    getSettingValue('admin_email'),
+    getSettingValue('smtp_host'),
+    getSettingValue('smtp_port'),
+    getSettingValue('smtp_username'),
+    getSettingValue('smtp_password')
+  ]);
+
+  return {
+    from: process.env['MAIL_FROM'] || adminEmail || 'no-reply@localhost',
+    siteName: siteName || 'Digital Store',
+    smtp: smtpHost
+      ? { host: smtpHost, port: Number(smtpPort || '587'), username: smtpUsername ?? '', password: smtpPassword ?? '' }
+      : null
+  };
+}
+
+function buildClientUrl(pathname: string, token: string): string {
+  const baseUrl = process.env['CLIENT_URL'] || 'http://localhost:3000';
+  return `${baseUrl}${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Handler for sending an email verification link
+ * This handler issues a verification token for the given address and mails it to that address
+ */
+export async function sendVerificationEmail(user: { id: number; first_name: string }, email: string): Promise<void> {
+  try {
+    const token = await issueUserToken(user.id, 'email_verification', email, EMAIL_VERIFICATION_TTL_HOURS * 60);
+    const { from, siteName, smtp } = await getMailSender();
+
+    await sendMail({
+      to: email,
+      from,
+      subject: `Verify your email address for ${siteName}`,
+      text: [
+        `Hi ${user.first_name},`,
+        '',
+        'Please confirm your email address by opening the link below:',
+        buildClientUrl('/verify-email', token),
+        '',
+        `This link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`
+      ].join('\n')
+    }, smtp);
+  } catch (error) {
+    console.error('Sending verification email failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for checking the email verification setup
+ * This handler returns a warning when verification is required but verification mails cannot be delivered,
+ * since unverified users would then be unable to check out
+ */
+export async function getEmailVerificationWarning(): Promise<string | null> {
+  if ((await getSettingValue('require_email_verification')) !== 'true') {
+    return null;
+  }
+
+  const { smtp } = await getMailSender();
+  if (canDeliverMail(smtp)) {
+    return null;
+  }
+
+  return 'Email verification is required but no mail server is configured: verification emails will not be delivered ' +
+    'and unverified customers cannot check out. Set smtp_host (or MAIL_TRANSPORT=file), or turn off require_email_verification.';
+}
+
+/**
+ * Handler for checking whether a user may check out
+ * This handler enforces the require_email_verification setting
+ */
+export async function isEmailVerificationSatisfied(user: { email_verified_at: Date | null }): Promise<boolean> {
+  if (user.email_verified_at) {
+    return true;
+  }
+
+  return (await getSettingValue('require_email_verification')) !== 'true';
+}
 
 /**
  * Handler for user registration
@@ -10,6 +205,11 @@ import { eq } from 'drizzle-orm';
  */
 export async function registerUser(input: CreateUserInput): Promise<Omit<User, 'password_hash'>> {
   try {
+    // Respect the admin switch for public sign-ups
+    if ((await getSettingValue('enable_user_registration')) === 'false') {
+      throw new Error('User registration is currently disabled');
+    }
+
     // Check if email already exists
     const existingUsers = await db.select()
       .from(usersTable)
@@ -20,8 +220,8 @@ export async function registerUser(input: CreateUserInput): Promise<Omit<User, '
       throw new Error('Email already exists');
     }
 
-    // Hash the password (in a real implementation, use bcrypt)
-    const password_hash = `hashed_${input.password}`;
+    // Hash the password with a per-user salt
+    const password_hash = await hashPassword(input.password);
 
     // Insert user into database
     const result = await db.insert(usersTable)
@@ -36,18 +236,14 @@ export async function registerUser(input: CreateUserInput): Promise<Omit<User, '
       .execute();
 
     const user = result[0];
+
+    // Ask the user to confirm their address when verification is required
+    if ((await getSettingValue('require_email_verification')) === 'true') {
+      await sendVerificationEmail(user, user.email);
+    }
     
     // Return user data without password hash
-    return {
-      id: user.id,
-      email: user.email,
-      first_name: user.first_name,
-      last_name: user.last_name,
-      role: user.role,
-      is_active: user.is_active,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    };
+    return toPublicUser(user);
   } catch (error) {
     console.error('User registration failed:', error);
     throw error;
@@ -56,10 +252,12 @@ export async function registerUser(input: CreateUserInput): Promise<Omit<User, '
 
 /**
  * Handler for user login
- * This handler authenticates user credentials and returns user data
- * along with authentication token
+ * This handler authenticates user credentials and starts a new session,
+ * returning user data along with access and refresh tokens. Users with two-factor
+ * authentication get a challenge token to complete with completeTwoFactorLogin instead.
+ * Repeated failures trigger backoff and a temporary lock (LoginThrottledError)
  */
-export async function loginUser(input: LoginInput): Promise<{ user: Omit<User, 'password_hash'>, token: string } | null> {
+export async function loginUser(input: LoginInput, metadata?: SessionMetadata): Promise<LoginSuccess | TwoFactorChallenge | null> {
   try {
     // Find user by email
     const users = await db.select()
@@ -67,15 +265,21 @@ export async function loginUser(input: LoginInput): Promise<{ user: Omit<User, '
       .where(eq(usersTable.email, input.email))
       .execute();
 
-    if (users.length === 0) {
+    const user = users.length > 0 ? users[0] : null;
+    const ipAddress = metadata?.ip_address ?? null;
+
+    // Refuse early while the account or client IP is locked out or backing off
+    await assertLoginAllowed(user, ipAddress);
+
+    if (!user) {
+      await recordFailedLogin(input.email, ipAddress, null);
       return null;
     }
 
-    const user = users[0];
-
-    // Verify password against hash (in a real implementation, use bcrypt.compare)
-    const expectedHash = `hashed_${input.password}`;
-    if (user.password_hash !== expectedHash) {
+    // Verify password against hash
+    const { valid, needsRehash } = await verifyPassword(input.password, user.password_hash);
+    if (!valid) {
+      await recordFailedLogin(input.email, ipAddress, user.id);
       return null;
     }
 
@@ -84,22 +288,33 @@ export async function loginUser(input: LoginInput): Promise<{ user: Omit<User, '
       return null;
     }
 
-    // Generate JWT token (in a real implementation, use proper JWT library)
-    const token = `jwt_token_${user.id}_${Date.now()}`;
+    // Upgrade legacy or outdated hashes now that we know the plaintext
+    if (needsRehash) {
+      await db.update(usersTable)
+        .set({
+          password_hash: await hashPassword(input.password),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+    }
+
+    // The password alone is not enough once a second factor is enrolled
+    if (user.totp_enabled_at) {
+      const challengeToken = await issueUserToken(user.id, 'two_factor_challenge', user.email, TWO_FACTOR_CHALLENGE_TTL_MINUTES);
+      return { two_factor_required: true, challenge_token: challengeToken };
+    }
+
+    await recordSuccessfulLogin(input.email, ipAddress, user.id);
+
+    // Start a session for this device
+    const { token, refresh_token } = await createSession(user, metadata);
 
     // Return user data and token
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        first_name: user.first_name,
-        last_name: user.last_name,
-        role: user.role,
-        is_active: user.is_active,
-        created_at: user.created_at,
-        updated_at: user.updated_at
-      },
-      token
+      user: toPublicUser(user),
+      token,
+      refresh_token
     };
   } catch (error) {
     console.error('User login failed:', error);
@@ -107,20 +322,84 @@ export async function loginUser(input: LoginInput): Promise<{ user: Omit<User, '
   }
 }
 
+/**
+ * Handler for completing a two-factor login
+ * This handler checks the TOTP or recovery code for a challenge issued by loginUser and starts the session
+ */
+export async function completeTwoFactorLogin(input: TwoFactorLoginInput, metadata?: SessionMetadata): Promise<LoginSuccess | null> {
+  try {
+    const challenge = await findUserToken(input.challenge_token, 'two_factor_challenge');
+    if (!challenge) {
+      return null;
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, challenge.user_id))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      return null;
+    }
+
+    const user = users[0];
+    const ipAddress = metadata?.ip_address ?? null;
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    await assertLoginAllowed(user, ipAddress);
+
+    if (!(await verifySecondFactor(user.id, input.code))) {
+      await recordFailedLogin(user.email, ipAddress, user.id);
+      return null;
+    }
+
+    // Another request may have completed the challenge in the meantime
+    if (!(await consumeUserToken(input.challenge_token, 'two_factor_challenge'))) {
+      return null;
+    }
+
+    await recordSuccessfulLogin(user.email, ipAddress, user.id);
+
+    const { token, refresh_token } = await createSession(user, metadata);
+
+    return {
+      user: toPublicUser(user),
+      token,
+      refresh_token
+    };
+  } catch (error) {
+    console.error('Two-factor login failed:', error);
+    throw error;
+  }
+}
+
 /**
  * Handler for getting current user from token
  * This handler validates JWT token and returns current user data
  */
 export async function getCurrentUser(token: string): Promise<Omit<User, 'password_hash'> | null> {
+  const result = await authenticate(token);
+  return result ? result.user : null;
+}
+
+/**
+ * Handler for authenticating an access token
+ * This handler validates the token and its session, returning the user and session ID
+ */
+export async function authenticate(token: string): Promise<{ user: Omit<User, 'password_hash'>, session_id: number } | null> {
   try {
-    // In a real implementation, verify JWT token and extract user ID
-    // For this mock implementation, extract user ID from token format
-    const tokenMatch = token.match(/^jwt_token_(\d+)_\d+$/);
-    if (!tokenMatch) {
+    // Verify token signature and expiry, then extract user ID
+    const payload = verifyAccessToken(token);
+    if (!payload) {
       return null;
     }
 
-    const userId = parseInt(tokenMatch[1], 10);
+    const userId = payload.sub;
+
+    // Tokens stop working as soon as their session is revoked
+    if (!(await isSessionActive(payload.sid, userId))) {
+      return null;
+    }
 
     // Fetch user from database
     const users = await db.select()
@@ -141,17 +420,193 @@ export async function getCurrentUser(token: string): Promise<Omit<User, 'passwor
 
     // Return user data without password hash
     return {
-      id: user.id,
-      email: user.email,
-      first_name: user.first_name,
-      last_name: user.last_name,
-      role: user.role,
-      is_active: user.is_active,
-      created_at: user.created_at,
-      updated_at: user.updated_at
+      user: toPublicUser(user),
+      session_id: payload.sid
     };
   } catch (error) {
-    console.error('Get current user failed:', error);
+    console.error('Authentication failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for verifying an email address
+ * This handler consumes a verification token and marks the address as verified
+ */
+export async function verifyEmail(token: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const userToken = await consumeUserToken(token, 'email_verification');
+    if (!userToken) {
+      return { success: false, error: 'Invalid or expired verification token' };
+    }
+
+    // The token records which address was verified, so a stale link cannot verify a changed email
+    const result = await db.update(usersTable)
+      .set({
+        email_verified_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(usersTable.id, userToken.user_id),
+        eq(usersTable.email, userToken.email)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      return { success: false, error: 'Email address has changed since this link was sent' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for resending the verification email
+ * This handler issues a fresh verification link, invalidating earlier ones
+ */
+export async function resendVerificationEmail(userId: number): Promise<{ success: boolean; error?: string }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const user = users[0];
+    if (user.email_verified_at) {
+      return { success: false, error: 'Email address is already verified' };
+    }
+
+    await sendVerificationEmail(user, user.email);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Resending verification email failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for requesting a password reset
+ * This handler emails a reset link; the response is the same whether or not the account exists
+ */
+export async function requestPasswordReset(email: string): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, email))
+      .execute();
+
+    if (users.length > 0 && users[0].is_active) {
+      const user = users[0];
+      const token = await issueUserToken(user.id, 'password_reset', user.email, PASSWORD_RESET_TTL_HOURS * 60);
+      const { from, siteName, smtp } = await getMailSender();
+
+      await sendMail({
+        to: user.email,
+        from,
+        subject: `Reset your ${siteName} password`,
+        text: [
+          `Hi ${user.first_name},`,
+          '',
+          'We received a request to reset your password. Open the link below to choose a new one:',
+          buildClientUrl('/reset-password', token),
+          '',
+          `This link expires in ${PASSWORD_RESET_TTL_HOURS} hour. If you did not request a reset, you can ignore this email.`
+        ].join('\n')
+      }, smtp);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for resetting a password with a reset token
+ * This handler sets the new password and signs the user out everywhere
+ */
+export async function resetPassword(input: ResetPasswordInput): Promise<{ success: boolean; error?: string }> {
+  try {
+    const userToken = await consumeUserToken(input.token, 'password_reset');
+    if (!userToken) {
+      return { success: false, error: 'Invalid or expired reset token' };
+    }
+
+    // Opening the emailed link also proves ownership of the address
+    const result = await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        email_verified_at: sql`coalesce(${usersTable.email_verified_at}, now())`,
+        // Proving control of the mailbox also lifts any login lockout
+        failed_login_attempts: 0,
+        last_failed_login_at: null,
+        locked_until: null,
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(usersTable.id, userToken.user_id),
+        eq(usersTable.email, userToken.email),
+        eq(usersTable.is_active, true)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      return { success: false, error: 'Invalid or expired reset token' };
+    }
+
+    await revokeAllSessions(userToken.user_id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Handler for changing a signed-in user's password
+ * This handler requires the current password and signs out all other sessions
+ */
+export async function changePassword(userId: number, input: ChangePasswordInput, currentSessionId?: number): Promise<{ success: boolean; error?: string }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const { valid } = await verifyPassword(input.current_password, users[0].password_hash);
+    if (!valid) {
+      return { success: false, error: 'Current password is incorrect' };
+    }
+
+    await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await revokeAllSessions(userId, currentSessionId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
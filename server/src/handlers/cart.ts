@@ -1,83 +1,97 @@
 import { db } from '../db';
-import { cartItemsTable, productsTable, categoriesTable, usersTable, couponsTable } from '../db/schema';
+import { cartItemsTable, productsTable, productVariantsTable, categoriesTable, usersTable, couponsTable } from '../db/schema';
 import { type AddToCartInput, type UpdateCartItemInput, type CartItem } from '../schema';
-import { eq, and, sum, gte, lte } from 'drizzle-orm';
+import { eq, and, sum, gte, lte, type SQL } from 'drizzle-orm';
+import { findPurchasableVariant, productUnavailability } from './product_variants';
 
 /**
- * Handler for adding items to shopping cart
- * This handler adds a product to user's cart or updates quantity if exists
+ * Whose cart an operation works on: a registered user's id, or a guest cart resolved from its token
  */
-export async function addToCart(input: AddToCartInput): Promise<CartItem> {
-  try {
-    // 1. Check if user exists
-    const user = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, input.user_id))
-      .execute();
+export type CartOwner = number | { guest_cart_id: number };
 
-    if (user.length === 0) {
-      throw new Error('User not found');
-    }
+function cartOwnerCondition(owner: CartOwner): SQL<unknown> {
+  return typeof owner === 'number'
+    ? eq(cartItemsTable.user_id, owner)
+    : eq(cartItemsTable.guest_cart_id, owner.guest_cart_id);
+}
 
-    // 2. Check if product exists and is active
-    const product = await db.select()
-      .from(productsTable)
-      .where(and(
-        eq(productsTable.id, input.product_id),
-        eq(productsTable.is_active, true)
-      ))
-      .execute();
+function cartOwnerColumns(owner: CartOwner): { user_id: number } | { guest_cart_id: number } {
+  return typeof owner === 'number' ? { user_id: owner } : { guest_cart_id: owner.guest_cart_id };
+}
 
-    if (product.length === 0) {
-      throw new Error('Product not found or inactive');
-    }
+/**
+ * Adds a product variant to a cart, or raises the quantity when the cart already holds it
+ */
+export async function addCartItem(owner: CartOwner, input: Omit<AddToCartInput, 'user_id'>): Promise<CartItem> {
+  // 1. Check if product and variant exist and are active
+  const variant = await findPurchasableVariant(input.product_id, input.variant_id);
 
-    // 3. Validate stock availability
-    if (product[0].stock_quantity < input.quantity) {
-      throw new Error('Insufficient stock');
+  // 2. Validate stock availability
+  if (variant.stock_quantity < input.quantity) {
+    throw new Error('Insufficient stock');
+  }
+
+  // 3. Check if item already exists in cart
+  const existingItem = await db.select()
+    .from(cartItemsTable)
+    .where(and(
+      cartOwnerCondition(owner),
+      eq(cartItemsTable.variant_id, variant.id)
+    ))
+    .execute();
+
+  if (existingItem.length > 0) {
+    // Update existing cart item
+    const newQuantity = existingItem[0].quantity + input.quantity;
+    
+    // Check total quantity against stock
+    if (newQuantity > variant.stock_quantity) {
+      throw new Error('Insufficient stock for requested quantity');
     }
 
-    // 4. Check if item already exists in cart
-    const existingItem = await db.select()
-      .from(cartItemsTable)
-      .where(and(
-        eq(cartItemsTable.user_id, input.user_id),
-        eq(cartItemsTable.product_id, input.product_id)
-      ))
+    const result = await db.update(cartItemsTable)
+      .set({
+        quantity: newQuantity,
+        updated_at: new Date()
+      })
+      .where(eq(cartItemsTable.id, existingItem[0].id))
+      .returning()
       .execute();
 
-    if (existingItem.length > 0) {
-      // Update existing cart item
-      const newQuantity = existingItem[0].quantity + input.quantity;
-      
-      // Check total quantity against stock
-      if (newQuantity > product[0].stock_quantity) {
-        throw new Error('Insufficient stock for requested quantity');
-      }
+    return result[0];
+  }
 
-      const result = await db.update(cartItemsTable)
-        .set({
-          quantity: newQuantity,
-          updated_at: new Date()
-        })
-        .where(eq(cartItemsTable.id, existingItem[0].id))
-        .returning()
-        .execute();
+  // Create new cart item
+  const result = await db.insert(cartItemsTable)
+    .values({
+      ...cartOwnerColumns(owner),
+      product_id: input.product_id,
+      variant_id: variant.id,
+      quantity: input.quantity
+    })
+    .returning()
+    .execute();
 
-      return result[0];
-    } else {
-      // Create new cart item
-      const result = await db.insert(cartItemsTable)
-        .values({
-          user_id: input.user_id,
-          product_id: input.product_id,
-          quantity: input.quantity
-        })
-        .returning()
-        .execute();
+  return result[0];
+}
+
+/**
+ * Handler for adding items to shopping cart
+ * This handler adds a product variant to user's cart or updates quantity if exists
+ */
+export async function addToCart(input: AddToCartInput): Promise<CartItem> {
+  try {
+    // Check if user exists
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
 
-      return result[0];
+    if (user.length === 0) {
+      throw new Error('User not found');
     }
+
+    return await addCartItem(input.user_id, input);
   } catch (error) {
     console.error('Add to cart failed:', error);
     throw error;
@@ -86,14 +100,16 @@ export async function addToCart(input: AddToCartInput): Promise<CartItem> {
 
 /**
  * Handler for getting user's cart items
- * This handler retrieves all items in a user's cart with product details
+ * This handler retrieves all items in a user's or guest's cart with product and variant details
  */
-export async function getCartItems(userId: number): Promise<(CartItem & { product: any })[]> {
+export async function getCartItems(owner: CartOwner): Promise<(CartItem & { product: any; variant: any })[]> {
   try {
     const results = await db.select({
       id: cartItemsTable.id,
       user_id: cartItemsTable.user_id,
+      guest_cart_id: cartItemsTable.guest_cart_id,
       product_id: cartItemsTable.product_id,
+      variant_id: cartItemsTable.variant_id,
       quantity: cartItemsTable.quantity,
       created_at: cartItemsTable.created_at,
       updated_at: cartItemsTable.updated_at,
@@ -106,25 +122,44 @@ export async function getCartItems(userId: number): Promise<(CartItem & { produc
         image_url: productsTable.image_url,
         stock_quantity: productsTable.stock_quantity,
         is_active: productsTable.is_active,
+        available_from: productsTable.available_from,
+        available_until: productsTable.available_until,
         category_name: categoriesTable.name
+      },
+      variant: {
+        id: productVariantsTable.id,
+        name: productVariantsTable.name,
+        sku: productVariantsTable.sku,
+        price: productVariantsTable.price,
+        license_type: productVariantsTable.license_type,
+        seats: productVariantsTable.seats,
+        stock_quantity: productVariantsTable.stock_quantity,
+        is_active: productVariantsTable.is_active
       }
     })
     .from(cartItemsTable)
     .innerJoin(productsTable, eq(cartItemsTable.product_id, productsTable.id))
+    .innerJoin(productVariantsTable, eq(cartItemsTable.variant_id, productVariantsTable.id))
     .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
-    .where(eq(cartItemsTable.user_id, userId))
+    .where(cartOwnerCondition(owner))
     .execute();
 
     return results.map(result => ({
       id: result.id,
       user_id: result.user_id,
+      guest_cart_id: result.guest_cart_id,
       product_id: result.product_id,
+      variant_id: result.variant_id,
       quantity: result.quantity,
       created_at: result.created_at,
       updated_at: result.updated_at,
       product: {
         ...result.product,
         price: parseFloat(result.product.price)
+      },
+      variant: {
+        ...result.variant,
+        price: parseFloat(result.variant.price)
       }
     }));
   } catch (error) {
@@ -137,29 +172,33 @@ export async function getCartItems(userId: number): Promise<(CartItem & { produc
  * Handler for updating cart item quantity
  * This handler updates the quantity of a specific cart item
  */
-export async function updateCartItem(input: UpdateCartItemInput): Promise<CartItem | null> {
+export async function updateCartItem(input: UpdateCartItemInput, owner: CartOwner): Promise<CartItem | null> {
   try {
-    // 1. Get cart item and verify it exists
+    // 1. Get cart item and verify it exists and belongs to the cart owner
     const cartItem = await db.select()
       .from(cartItemsTable)
-      .where(eq(cartItemsTable.id, input.id))
+      .where(and(
+        eq(cartItemsTable.id, input.id),
+        cartOwnerCondition(owner)
+      ))
       .execute();
 
     if (cartItem.length === 0) {
       return null;
     }
 
-    // 2. Check product stock availability
-    const product = await db.select()
-      .from(productsTable)
-      .where(eq(productsTable.id, cartItem[0].product_id))
+    // 2. Check variant stock availability
+    const variant = await db.select({ variant: productVariantsTable, product: productsTable })
+      .from(productVariantsTable)
+      .innerJoin(productsTable, eq(productVariantsTable.product_id, productsTable.id))
+      .where(eq(productVariantsTable.id, cartItem[0].variant_id))
       .execute();
 
-    if (product.length === 0 || !product[0].is_active) {
+    if (variant.length === 0 || productUnavailability(variant[0].product) !== null || !variant[0].variant.is_active) {
       throw new Error('Product not available');
     }
 
-    if (product[0].stock_quantity < input.quantity) {
+    if (variant[0].variant.stock_quantity < input.quantity) {
       throw new Error('Insufficient stock');
     }
 
@@ -184,12 +223,12 @@ export async function updateCartItem(input: UpdateCartItemInput): Promise<CartIt
  * Handler for removing item from cart
  * This handler removes a specific item from user's cart
  */
-export async function removeFromCart(cartItemId: number, userId: number): Promise<boolean> {
+export async function removeFromCart(cartItemId: number, owner: CartOwner): Promise<boolean> {
   try {
     const result = await db.delete(cartItemsTable)
       .where(and(
         eq(cartItemsTable.id, cartItemId),
-        eq(cartItemsTable.user_id, userId)
+        cartOwnerCondition(owner)
       ))
       .returning()
       .execute();
@@ -205,10 +244,10 @@ export async function removeFromCart(cartItemId: number, userId: number): Promis
  * Handler for clearing entire cart
  * This handler removes all items from user's cart
  */
-export async function clearCart(userId: number): Promise<boolean> {
+export async function clearCart(owner: CartOwner): Promise<boolean> {
   try {
     await db.delete(cartItemsTable)
-      .where(eq(cartItemsTable.user_id, userId))
+      .where(cartOwnerCondition(owner))
       .execute();
 
     return true;
@@ -222,20 +261,20 @@ export async function clearCart(userId: number): Promise<boolean> {
  * Handler for calculating cart total
  * This handler calculates the total price of items in cart
  */
-export async function calculateCartTotal(userId: number, couponCode?: string): Promise<{
+export async function calculateCartTotal(owner: CartOwner, couponCode?: string): Promise<{
   subtotal: number;
   tax_amount: number;
   discount_amount: number;
   total: number;
-  items: (CartItem & { product: any })[];
+  items: (CartItem & { product: any; variant: any })[];
 }> {
   try {
-    // Get cart items with product details
-    const items = await getCartItems(userId);
+    // Get cart items with product and variant details
+    const items = await getCartItems(owner);
     
-    // Calculate subtotal
+    // Calculate subtotal from the chosen variants' prices
     const subtotal = items.reduce((total, item) => {
-      return total + (item.product.price * item.quantity);
+      return total + (item.variant.price * item.quantity);
     }, 0);
 
     let discount_amount = 0;
@@ -300,27 +339,34 @@ export async function calculateCartTotal(userId: number, couponCode?: string): P
  * Handler for validating cart before checkout
  * This handler validates all cart items are available and in stock
  */
-export async function validateCart(userId: number): Promise<{
+export async function validateCart(owner: CartOwner): Promise<{
   isValid: boolean;
   errors: string[];
   unavailableItems: number[];
 }> {
   try {
-    const items = await getCartItems(userId);
+    const items = await getCartItems(owner);
     const errors: string[] = [];
     const unavailableItems: number[] = [];
 
     for (const item of items) {
-      // Check if product is still active
-      if (!item.product.is_active) {
-        errors.push(`Product "${item.product.name}" is no longer available`);
+      // Check if product and variant are still active and the product is on sale
+      const unavailability = productUnavailability(item.product);
+      if (unavailability === 'not_yet_available') {
+        errors.push(`Product "${item.product.name}" (${item.variant.name}) is not on sale until ${item.product.available_from.toISOString()}`);
+        unavailableItems.push(item.product_id);
+        continue;
+      }
+
+      if (unavailability !== null || !item.variant.is_active) {
+        errors.push(`Product "${item.product.name}" (${item.variant.name}) is no longer available`);
         unavailableItems.push(item.product_id);
         continue;
       }
 
       // Check stock quantity
-      if (item.product.stock_quantity < item.quantity) {
-        errors.push(`Insufficient stock for "${item.product.name}". Available: ${item.product.stock_quantity}, Requested: ${item.quantity}`);
+      if (item.variant.stock_quantity < item.quantity) {
+        errors.push(`Insufficient stock for "${item.product.name}" (${item.variant.name}). Available: ${item.variant.stock_quantity}, Requested: ${item.quantity}`);
         unavailableItems.push(item.product_id);
       }
     }
@@ -340,13 +386,13 @@ export async function validateCart(userId: number): Promise<{
  * Handler for getting cart item count
  * This handler returns the total number of items in user's cart
  */
-export async function getCartItemCount(userId: number): Promise<number> {
+export async function getCartItemCount(owner: CartOwner): Promise<number> {
   try {
     const result = await db.select({
       total: sum(cartItemsTable.quantity)
     })
     .from(cartItemsTable)
-    .where(eq(cartItemsTable.user_id, userId))
+    .where(cartOwnerCondition(owner))
     .execute();
 
     return parseInt(result[0]?.total || '0');
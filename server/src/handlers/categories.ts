@@ -1,7 +1,107 @@
 import { db } from '../db';
-import { categoriesTable, productsTable } from '../db/schema';
-import { type CreateCategoryInput, type UpdateCategoryInput, type Category } from '../schema';
-import { eq, asc, and } from 'drizzle-orm';
+import { categoriesTable, categorySlugAliasesTable, categoryFeaturedProductsTable, productsTable } from '../db/schema';
+import {
+  type CreateCategoryInput,
+  type UpdateCategoryInput,
+  type DeleteCategoryInput,
+  type DeleteCategoryResult,
+  type SetCategoryFeaturedProductsInput,
+  type Category,
+  type CategoryWithFeatured,
+  type CategoryBreadcrumb,
+  type CategoryTreeNode
+} from '../schema';
+import { eq, asc, and, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import { availableProductConditions } from './product_variants';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Subquery selecting the ids of a category and every category below it, for use with `in`
+ */
+export function categorySubtreeIds(categoryId: number): SQL {
+  return sql`(
+    with recursive subtree(id) as (
+      select id from ${categoriesTable} where id = ${categoryId}
+      union
+      select child.id from ${categoriesTable} child join subtree on child.parent_id = subtree.id
+    )
+    select id from subtree
+  )`;
+}
+
+/**
+ * Lists a category and its ancestors, root first; empty when the category does not exist
+ */
+async function getCategoryPath(categoryId: number): Promise<CategoryBreadcrumb[]> {
+  const result = await db.execute<CategoryBreadcrumb>(sql`
+    with recursive ancestors(id, name, slug, parent_id, depth) as (
+      select id, name, slug, parent_id, 0 from ${categoriesTable} where id = ${categoryId}
+      union all
+      select parent.id, parent.name, parent.slug, parent.parent_id, ancestors.depth + 1
+        from ${categoriesTable} parent
+        join ancestors on parent.id = ancestors.parent_id
+    )
+    select id, name, slug from ancestors order by depth desc
+  `);
+
+  return result.rows.map(row => ({ id: Number(row.id), name: row.name, slug: row.slug }));
+}
+
+/**
+ * Points a former slug at a category; a slug a category gave up earlier is taken over by the latest one
+ */
+async function addSlugAlias(tx: Transaction, categoryId: number, slug: string): Promise<void> {
+  await tx.insert(categorySlugAliasesTable)
+    .values({ category_id: categoryId, slug })
+    .onConflictDoUpdate({
+      target: categorySlugAliasesTable.slug,
+      set: { category_id: categoryId, created_at: new Date() }
+    })
+    .execute();
+}
+
+/**
+ * Groups the pinned product ids of the given categories by category, in pinned order
+ */
+async function getFeaturedProductIds(categoryIds: number[], productConditions: SQL<unknown>[] = []): Promise<Map<number, number[]>> {
+  const featured = new Map<number, number[]>(categoryIds.map(id => [id, []]));
+  if (categoryIds.length === 0) {
+    return featured;
+  }
+
+  const rows = await db.select({
+    category_id: categoryFeaturedProductsTable.category_id,
+    product_id: categoryFeaturedProductsTable.product_id
+  })
+    .from(categoryFeaturedProductsTable)
+    .innerJoin(productsTable, eq(categoryFeaturedProductsTable.product_id, productsTable.id))
+    .where(and(inArray(categoryFeaturedProductsTable.category_id, categoryIds), ...productConditions))
+    .orderBy(asc(categoryFeaturedProductsTable.sort_order))
+    .execute();
+
+  for (const row of rows) {
+    featured.get(row.category_id)?.push(row.product_id);
+  }
+
+  return featured;
+}
+
+/**
+ * Makes sure a parent exists and, when moving an existing category, that it is not the category itself
+ * or one of its descendants, which would turn the tree into a cycle
+ */
+async function assertValidParent(parentId: number, categoryId?: number): Promise<void> {
+  const path = await getCategoryPath(parentId);
+
+  if (path.length === 0) {
+    throw new Error(`Parent category with id ${parentId} not found`);
+  }
+
+  if (categoryId !== undefined && path.some(ancestor => ancestor.id === categoryId)) {
+    throw new Error('A category cannot be moved under itself or one of its subcategories');
+  }
+}
 
 /**
  * Handler for creating a new product category
@@ -9,11 +109,21 @@ import { eq, asc, and } from 'drizzle-orm';
  */
 export async function createCategory(input: CreateCategoryInput): Promise<Category> {
   try {
+    if (input.parent_id != null) {
+      await assertValidParent(input.parent_id);
+    }
+
     const result = await db.insert(categoriesTable)
       .values({
         name: input.name,
         description: input.description,
-        slug: input.slug
+        slug: input.slug,
+        parent_id: input.parent_id ?? null,
+        hero_image_url: input.hero_image_url ?? null,
+        intro: input.intro ?? null,
+        meta_title: input.meta_title ?? null,
+        meta_description: input.meta_description ?? null,
+        sort_order: input.sort_order ?? 0
       })
       .returning()
       .execute();
@@ -27,13 +137,13 @@ export async function createCategory(input: CreateCategoryInput): Promise<Catego
 
 /**
  * Handler for getting all categories
- * This handler retrieves all categories from the database
+ * This handler retrieves all categories from the database in navigation order
  */
 export async function getCategories(): Promise<Category[]> {
   try {
     const results = await db.select()
       .from(categoriesTable)
-      .orderBy(asc(categoriesTable.name))
+      .orderBy(asc(categoriesTable.sort_order), asc(categoriesTable.name))
       .execute();
 
     return results;
@@ -45,65 +155,241 @@ export async function getCategories(): Promise<Category[]> {
 
 /**
  * Handler for getting active categories only
- * This handler retrieves only active categories for public display
+ * This handler retrieves only active categories for public display, in navigation order,
+ * with the pinned products that are currently on sale
  */
-export async function getActiveCategories(): Promise<Category[]> {
+export async function getActiveCategories(): Promise<CategoryWithFeatured[]> {
   try {
     const results = await db.select()
       .from(categoriesTable)
       .where(eq(categoriesTable.is_active, true))
-      .orderBy(asc(categoriesTable.name))
+      .orderBy(asc(categoriesTable.sort_order), asc(categoriesTable.name))
       .execute();
 
-    return results;
+    const featured = await getFeaturedProductIds(results.map(category => category.id), availableProductConditions());
+
+    return results.map(category => ({ ...category, featured_product_ids: featured.get(category.id) ?? [] }));
   } catch (error) {
     console.error('Failed to get active categories:', error);
     throw error;
   }
 }
 
+/**
+ * Handler for getting the category tree
+ * This handler nests categories under their parents, siblings in navigation order.
+ * Inactive categories are left out together with everything below them unless includeInactive is set
+ */
+export async function getCategoryTree(includeInactive = false): Promise<CategoryTreeNode[]> {
+  try {
+    const categories = await db.select()
+      .from(categoriesTable)
+      .orderBy(asc(categoriesTable.sort_order), asc(categoriesTable.name))
+      .execute();
+
+    const nodes = new Map<number, CategoryTreeNode>();
+    for (const category of categories) {
+      if (includeInactive || category.is_active) {
+        nodes.set(category.id, { ...category, children: [] });
+      }
+    }
+
+    const roots: CategoryTreeNode[] = [];
+    for (const node of nodes.values()) {
+      if (node.parent_id === null) {
+        roots.push(node);
+      } else {
+        nodes.get(node.parent_id)?.children.push(node);
+      }
+    }
+
+    return roots;
+  } catch (error) {
+    console.error('Failed to get category tree:', error);
+    throw error;
+  }
+}
+
 /**
  * Handler for getting a single category by ID
- * This handler retrieves a specific category by its ID
+ * This handler retrieves a specific category by its ID with its breadcrumb path, root first, and its pinned products.
+ * Unless includeInactive is set, a category that is inactive or sits below an inactive one is not found,
+ * and only the pinned products that are currently on sale are returned
  */
-export async function getCategoryById(id: number): Promise<Category | null> {
+export async function getCategoryById(id: number, includeInactive = false): Promise<(CategoryWithFeatured & { breadcrumbs: CategoryBreadcrumb[] }) | null> {
   try {
     const results = await db.select()
       .from(categoriesTable)
       .where(eq(categoriesTable.id, id))
       .execute();
 
-    return results.length > 0 ? results[0] : null;
+    if (results.length === 0) {
+      return null;
+    }
+
+    const breadcrumbs = await getCategoryPath(id);
+
+    if (!includeInactive) {
+      const hidden = await db.select({ id: categoriesTable.id })
+        .from(categoriesTable)
+        .where(and(inArray(categoriesTable.id, breadcrumbs.map(crumb => crumb.id)), eq(categoriesTable.is_active, false)))
+        .execute();
+
+      if (hidden.length > 0) {
+        return null;
+      }
+    }
+
+    const featured = await getFeaturedProductIds([id], includeInactive ? [] : availableProductConditions());
+
+    return {
+      ...results[0],
+      featured_product_ids: featured.get(id) ?? [],
+      breadcrumbs
+    };
   } catch (error) {
     console.error('Failed to get category by ID:', error);
     throw error;
   }
 }
 
+/**
+ * Handler for getting a category by slug
+ * This handler also resolves former slugs; when the returned slug differs from the requested one,
+ * callers should redirect to the current slug. Inactive categories are treated as in getCategoryById
+ */
+export async function getCategoryBySlug(slug: string, includeInactive = false): Promise<(CategoryWithFeatured & { breadcrumbs: CategoryBreadcrumb[] }) | null> {
+  try {
+    const current = await db.select({ id: categoriesTable.id })
+      .from(categoriesTable)
+      .where(eq(categoriesTable.slug, slug))
+      .execute();
+
+    if (current.length > 0) {
+      return await getCategoryById(current[0].id, includeInactive);
+    }
+
+    const aliases = await db.select({ category_id: categorySlugAliasesTable.category_id })
+      .from(categorySlugAliasesTable)
+      .where(eq(categorySlugAliasesTable.slug, slug))
+      .execute();
+
+    return aliases.length > 0 ? await getCategoryById(aliases[0].category_id, includeInactive) : null;
+  } catch (error) {
+    console.error('Failed to get category by slug:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for setting a category's featured products
+ * This handler replaces the products pinned to the top of the category listing; each must belong to the
+ * category or one of its subcategories. It returns null when the category does not exist
+ */
+export async function setCategoryFeaturedProducts(input: SetCategoryFeaturedProductsInput): Promise<number[] | null> {
+  try {
+    const category = await db.select({ id: categoriesTable.id })
+      .from(categoriesTable)
+      .where(eq(categoriesTable.id, input.category_id))
+      .execute();
+
+    if (category.length === 0) {
+      return null;
+    }
+
+    const productIds = [...new Set(input.product_ids)];
+    const products = productIds.length > 0
+      ? await db.select({ id: productsTable.id })
+        .from(productsTable)
+        .where(and(
+          inArray(productsTable.id, productIds),
+          isNull(productsTable.deleted_at),
+          sql`${productsTable.category_id} in ${categorySubtreeIds(input.category_id)}`
+        ))
+        .execute()
+      : [];
+
+    const missing = productIds.find(id => !products.some(product => product.id === id));
+    if (missing !== undefined) {
+      throw new Error(`Product with id ${missing} not found in this category or its subcategories`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(categoryFeaturedProductsTable)
+        .where(eq(categoryFeaturedProductsTable.category_id, input.category_id))
+        .execute();
+
+      if (productIds.length > 0) {
+        await tx.insert(categoryFeaturedProductsTable)
+          .values(productIds.map((productId, index) => ({
+            category_id: input.category_id,
+            product_id: productId,
+            sort_order: index
+          })))
+          .execute();
+      }
+    });
+
+    return productIds;
+  } catch (error) {
+    console.error('Setting featured products failed:', error);
+    throw error;
+  }
+}
+
 /**
  * Handler for updating a category
- * This handler updates an existing category with new data
+ * This handler updates an existing category with new data; a replaced slug is kept as a redirect alias
  */
 export async function updateCategory(input: UpdateCategoryInput): Promise<Category | null> {
   try {
+    if (input.parent_id != null) {
+      await assertValidParent(input.parent_id, input.id);
+    }
+
     // Build update data dynamically based on provided fields
     const updateData: Partial<typeof categoriesTable.$inferInsert> = {};
     
     if (input.name !== undefined) updateData.name = input.name;
     if (input.description !== undefined) updateData.description = input.description;
     if (input.slug !== undefined) updateData.slug = input.slug;
+    if (input.parent_id !== undefined) updateData.parent_id = input.parent_id;
+    if (input.hero_image_url !== undefined) updateData.hero_image_url = input.hero_image_url;
+    if (input.intro !== undefined) updateData.intro = input.intro;
+    if (input.meta_title !== undefined) updateData.meta_title = input.meta_title;
+    if (input.meta_description !== undefined) updateData.meta_description = input.meta_description;
+    if (input.sort_order !== undefined) updateData.sort_order = input.sort_order;
     if (input.is_active !== undefined) updateData.is_active = input.is_active;
     
     // Always update the timestamp
     updateData.updated_at = new Date();
 
-    const results = await db.update(categoriesTable)
-      .set(updateData)
-      .where(eq(categoriesTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select({ slug: categoriesTable.slug })
+        .from(categoriesTable)
+        .where(eq(categoriesTable.id, input.id))
+        .execute();
+
+      if (existing.length === 0) {
+        return null;
+      }
+
+      const results = await tx.update(categoriesTable)
+        .set(updateData)
+        .where(eq(categoriesTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (input.slug !== undefined && input.slug !== existing[0].slug) {
+        // A current slug always wins over an alias, so an alias matching the new slug is dead
+        await tx.delete(categorySlugAliasesTable)
+          .where(eq(categorySlugAliasesTable.slug, input.slug))
+          .execute();
+        await addSlugAlias(tx, input.id, existing[0].slug);
+      }
 
-    return results.length > 0 ? results[0] : null;
+      return results[0];
+    });
   } catch (error) {
     console.error('Category update failed:', error);
     throw error;
@@ -112,28 +398,112 @@ export async function updateCategory(input: UpdateCategoryInput): Promise<Catego
 
 /**
  * Handler for deleting a category
- * This handler deletes a category from the database
+ * This handler deletes an empty category, or one whose products and subcategories are first moved to a
+ * target category (mode 'reassign', its slugs then redirect to the target), or archives it instead (mode 'archive').
+ * It returns null when the category does not exist
  */
-export async function deleteCategory(id: number): Promise<boolean> {
+export async function deleteCategory(input: DeleteCategoryInput): Promise<DeleteCategoryResult | null> {
   try {
-    // Check if category has associated products
-    const products = await db.select()
-      .from(productsTable)
-      .where(eq(productsTable.category_id, id))
+    const category = await db.select()
+      .from(categoriesTable)
+      .where(eq(categoriesTable.id, input.id))
       .execute();
 
-    if (products.length > 0) {
-      throw new Error('Cannot delete category with associated products');
+    if (category.length === 0) {
+      return null;
     }
 
-    const results = await db.delete(categoriesTable)
-      .where(eq(categoriesTable.id, id))
-      .returning()
-      .execute();
+    if (input.mode === 'archive') {
+      await db.update(categoriesTable)
+        .set({ is_active: false, updated_at: new Date() })
+        .where(eq(categoriesTable.id, input.id))
+        .execute();
+
+      return { id: input.id, deleted: false, products_moved: 0, subcategories_moved: 0 };
+    }
 
-    return results.length > 0;
+    let targetId: number | null = null;
+
+    if (input.mode === 'reassign') {
+      if (input.target_category_id === undefined) {
+        throw new Error('A target category is required to reassign products');
+      }
+
+      const targetPath = await getCategoryPath(input.target_category_id);
+      if (targetPath.length === 0) {
+        throw new Error(`Target category with id ${input.target_category_id} not found`);
+      }
+      if (targetPath.some(ancestor => ancestor.id === input.id)) {
+        throw new Error('Products cannot be reassigned to the deleted category or one of its subcategories');
+      }
+
+      targetId = input.target_category_id;
+    } else {
+      // Check if category has associated products
+      const products = await db.select({ id: productsTable.id })
+        .from(productsTable)
+        .where(eq(productsTable.category_id, input.id))
+        .execute();
+
+      if (products.length > 0) {
+        throw new Error('Cannot delete category with associated products; reassign them to another category or archive it');
+      }
+
+      const children = await db.select({ id: categoriesTable.id })
+        .from(categoriesTable)
+        .where(eq(categoriesTable.parent_id, input.id))
+        .execute();
+
+      if (children.length > 0) {
+        throw new Error('Cannot delete category with subcategories');
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      let productsMoved = 0;
+      let subcategoriesMoved = 0;
+
+      if (targetId !== null) {
+        // Soft-deleted products still reference the category, so they move too
+        const products = await tx.update(productsTable)
+          .set({ category_id: targetId, updated_at: new Date() })
+          .where(eq(productsTable.category_id, input.id))
+          .returning({ id: productsTable.id })
+          .execute();
+        productsMoved = products.length;
+
+        const children = await tx.update(categoriesTable)
+          .set({ parent_id: targetId, updated_at: new Date() })
+          .where(eq(categoriesTable.parent_id, input.id))
+          .returning({ id: categoriesTable.id })
+          .execute();
+        subcategoriesMoved = children.length;
+
+        await tx.update(categorySlugAliasesTable)
+          .set({ category_id: targetId })
+          .where(eq(categorySlugAliasesTable.category_id, input.id))
+          .execute();
+      } else {
+        await tx.delete(categorySlugAliasesTable)
+          .where(eq(categorySlugAliasesTable.category_id, input.id))
+          .execute();
+      }
+
+      await tx.delete(categoryFeaturedProductsTable)
+        .where(eq(categoryFeaturedProductsTable.category_id, input.id))
+        .execute();
+      await tx.delete(categoriesTable)
+        .where(eq(categoriesTable.id, input.id))
+        .execute();
+
+      if (targetId !== null) {
+        await addSlugAlias(tx, targetId, category[0].slug);
+      }
+
+      return { id: input.id, deleted: true, products_moved: productsMoved, subcategories_moved: subcategoriesMoved };
+    });
   } catch (error) {
     console.error('Category deletion failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
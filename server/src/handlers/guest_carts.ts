@@ -0,0 +1,212 @@
+import { db } from '../db';
+import { guestCartsTable, cartItemsTable, productsTable, productVariantsTable } from '../db/schema';
+import { type AddToGuestCartInput, type GuestCart, type CartItem } from '../schema';
+import { eq, and, gt, lte, inArray } from 'drizzle-orm';
+import { generateOpaqueToken, hashOpaqueToken } from '../lib/tokens';
+import { getSettingValue } from './settings';
+import { addCartItem, getCartItems } from './cart';
+import { productUnavailability } from './product_variants';
+
+async function guestCartExpiry(): Promise<Date> {
+  // Fall back to the default if the stored value is not a usable number of days
+  const storedDays = Number(await getSettingValue('guest_cart_ttl_days'));
+  const ttlDays = Number.isFinite(storedDays) && storedDays > 0 ? storedDays : 30;
+  return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Finds the unexpired guest cart for a token and pushes its expiry back, so carts in use never expire
+ */
+async function findGuestCart(cartToken: string): Promise<typeof guestCartsTable.$inferSelect | null> {
+  const results = await db.update(guestCartsTable)
+    .set({ expires_at: await guestCartExpiry(), updated_at: new Date() })
+    .where(and(
+      eq(guestCartsTable.token_hash, hashOpaqueToken(cartToken)),
+      // Expired carts are left for the cleanup job rather than revived
+      gt(guestCartsTable.expires_at, new Date())
+    ))
+    .returning()
+    .execute();
+
+  return results.length > 0 ? results[0] : null;
+}
+
+/**
+ * Handler for creating a guest cart
+ * This handler starts an empty cart for a visitor who is not signed in; the returned token is
+ * the only way to reach the cart and is not stored in plain form
+ */
+export async function createGuestCart(): Promise<GuestCart> {
+  try {
+    const cartToken = generateOpaqueToken();
+
+    const result = await db.insert(guestCartsTable)
+      .values({
+        token_hash: hashOpaqueToken(cartToken),
+        expires_at: await guestCartExpiry()
+      })
+      .returning()
+      .execute();
+
+    return { cart_token: cartToken, expires_at: result[0].expires_at };
+  } catch (error) {
+    console.error('Guest cart creation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for resolving a guest cart token
+ * This handler returns the cart owner the cart handlers work on, and throws when the cart is unknown or expired
+ */
+export async function resolveGuestCart(cartToken: string): Promise<{ guest_cart_id: number }> {
+  try {
+    const cart = await findGuestCart(cartToken);
+
+    if (!cart) {
+      throw new Error('Cart not found or expired');
+    }
+
+    return { guest_cart_id: cart.id };
+  } catch (error) {
+    console.error('Guest cart lookup failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for adding items to a guest cart
+ * This handler adds a product variant to a guest's cart or updates quantity if exists
+ */
+export async function addToGuestCart(input: AddToGuestCartInput): Promise<CartItem> {
+  try {
+    const { cart_token: cartToken, ...item } = input;
+
+    return await addCartItem(await resolveGuestCart(cartToken), item);
+  } catch (error) {
+    console.error('Add to guest cart failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for merging a guest cart into a user's cart
+ * This handler runs after the guest signs in or registers. Quantities of variants already in the user's
+ * cart are combined, every quantity is capped by the variant's stock, items that can no longer be bought
+ * are dropped, and the guest cart is deleted. It returns null when the guest cart is unknown or expired
+ */
+export async function mergeGuestCart(cartToken: string, userId: number): Promise<{
+  items: Awaited<ReturnType<typeof getCartItems>>;
+  adjustments: string[];
+} | null> {
+  try {
+    const cart = await findGuestCart(cartToken);
+
+    if (!cart) {
+      return null;
+    }
+
+    const guestItems = await db.select({
+      item: cartItemsTable,
+      product: productsTable,
+      variant: productVariantsTable
+    })
+      .from(cartItemsTable)
+      .innerJoin(productsTable, eq(cartItemsTable.product_id, productsTable.id))
+      .innerJoin(productVariantsTable, eq(cartItemsTable.variant_id, productVariantsTable.id))
+      .where(eq(cartItemsTable.guest_cart_id, cart.id))
+      .execute();
+
+    const userItems = await db.select()
+      .from(cartItemsTable)
+      .where(eq(cartItemsTable.user_id, userId))
+      .execute();
+
+    const adjustments: string[] = [];
+
+    await db.transaction(async (tx) => {
+      for (const { item, product, variant } of guestItems) {
+        const label = `"${product.name}" (${variant.name})`;
+
+        if (productUnavailability(product) !== null || !variant.is_active) {
+          adjustments.push(`${label} is no longer available and was not added to your cart`);
+          continue;
+        }
+
+        const existing = userItems.find(userItem => userItem.variant_id === item.variant_id);
+        const requested = item.quantity + (existing?.quantity ?? 0);
+        const quantity = Math.min(requested, variant.stock_quantity);
+
+        if (quantity <= 0) {
+          adjustments.push(`${label} is out of stock and was not added to your cart`);
+          continue;
+        }
+
+        if (quantity < requested) {
+          adjustments.push(`Quantity of ${label} was reduced to ${quantity} to match available stock`);
+        }
+
+        if (existing) {
+          await tx.update(cartItemsTable)
+            .set({ quantity, updated_at: new Date() })
+            .where(eq(cartItemsTable.id, existing.id))
+            .execute();
+        } else {
+          await tx.insert(cartItemsTable)
+            .values({
+              user_id: userId,
+              product_id: item.product_id,
+              variant_id: item.variant_id,
+              quantity
+            })
+            .execute();
+        }
+      }
+
+      await tx.delete(cartItemsTable)
+        .where(eq(cartItemsTable.guest_cart_id, cart.id))
+        .execute();
+      await tx.delete(guestCartsTable)
+        .where(eq(guestCartsTable.id, cart.id))
+        .execute();
+    });
+
+    return { items: await getCartItems(userId), adjustments };
+  } catch (error) {
+    console.error('Guest cart merge failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for deleting expired guest carts
+ * This handler removes guest carts past their expiry together with their items and returns how many were removed.
+ * It runs as a recurring job
+ */
+export async function deleteExpiredGuestCarts(now: Date = new Date()): Promise<number> {
+  try {
+    return await db.transaction(async (tx) => {
+      const expired = await tx.select({ id: guestCartsTable.id })
+        .from(guestCartsTable)
+        .where(lte(guestCartsTable.expires_at, now))
+        .execute();
+
+      if (expired.length === 0) {
+        return 0;
+      }
+
+      const ids = expired.map(cart => cart.id);
+      await tx.delete(cartItemsTable)
+        .where(inArray(cartItemsTable.guest_cart_id, ids))
+        .execute();
+      await tx.delete(guestCartsTable)
+        .where(inArray(guestCartsTable.id, ids))
+        .execute();
+
+      return ids.length;
+    });
+  } catch (error) {
+    console.error('Guest cart cleanup failed:', error);
+    throw error;
+  }
+}
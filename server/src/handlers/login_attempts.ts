@@ -0,0 +1,190 @@
+import { db } from '../db';
+import { loginAttemptsTable, usersTable } from '../db/schema';
+import { eq, and, gt, count, max, sql } from 'drizzle-orm';
+import { getSettingValue } from './settings';
+
+// Raised when a login is refused because of too many recent failures
+export class LoginThrottledError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`Too many failed login attempts. Try again in ${retryAfterSeconds} seconds`);
+    this.name = 'LoginThrottledError';
+  }
+}
+
+interface LoginPolicy {
+  maxFailedAttempts: number;
+  ipMaxFailedAttempts: number;
+  lockoutSeconds: number;
+  backoffBaseSeconds: number;
+}
+
+async function readIntegerSetting(key: string, fallback: number): Promise<number> {
+  const value = Number(await getSettingValue(key));
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+async function getLoginPolicy(): Promise<LoginPolicy> {
+  const [maxFailedAttempts, ipMaxFailedAttempts, lockoutMinutes, backoffBaseSeconds] = await Promise.all([
+    readIntegerSetting('login_max_failed_attempts', 5),
+    readIntegerSetting('login_ip_max_failed_attempts', 20),
+    readIntegerSetting('login_lockout_minutes', 15),
+    readIntegerSetting('login_backoff_base_seconds', 1)
+  ]);
+
+  return {
+    maxFailedAttempts: Math.max(maxFailedAttempts, 1),
+    ipMaxFailedAttempts: Math.max(ipMaxFailedAttempts, 1),
+    lockoutSeconds: Math.max(lockoutMinutes, 1) * 60,
+    backoffBaseSeconds
+  };
+}
+
+// Delay required after the given number of consecutive failures, doubling each time
+function backoffSeconds(failures: number, policy: LoginPolicy): number {
+  if (failures <= 0 || policy.backoffBaseSeconds === 0) {
+    return 0;
+  }
+  return Math.min(policy.backoffBaseSeconds * 2 ** (failures - 1), policy.lockoutSeconds);
+}
+
+// Seconds left until `until`, or 0 if it has passed
+function secondsUntil(until: Date, now: Date): number {
+  return Math.max(Math.ceil((until.getTime() - now.getTime()) / 1000), 0);
+}
+
+/**
+ * Handler for checking whether a login attempt may proceed
+ * This handler enforces the account lock and the per-account and per-IP backoff,
+ * throwing LoginThrottledError when the caller has to wait
+ */
+export async function assertLoginAllowed(user: typeof usersTable.$inferSelect | null, ipAddress: string | null): Promise<void> {
+  const policy = await getLoginPolicy();
+  const now = new Date();
+  let waitSeconds = 0;
+
+  if (user) {
+    if (user.locked_until) {
+      waitSeconds = Math.max(waitSeconds, secondsUntil(user.locked_until, now));
+    }
+    if (user.last_failed_login_at) {
+      const allowedAt = new Date(user.last_failed_login_at.getTime() + backoffSeconds(user.failed_login_attempts, policy) * 1000);
+      waitSeconds = Math.max(waitSeconds, secondsUntil(allowedAt, now));
+    }
+  }
+
+  if (ipAddress) {
+    const windowStart = new Date(now.getTime() - policy.lockoutSeconds * 1000);
+    const results = await db.select({
+      failures: count(),
+      last_failed_at: max(loginAttemptsTable.created_at)
+    })
+      .from(loginAttemptsTable)
+      .where(and(
+        eq(loginAttemptsTable.ip_address, ipAddress),
+        eq(loginAttemptsTable.succeeded, false),
+        gt(loginAttemptsTable.created_at, windowStart)
+      ))
+      .execute();
+
+    const { failures, last_failed_at } = results[0];
+    if (last_failed_at) {
+      // Past the IP threshold the address is blocked for a full lockout period
+      const delaySeconds = failures >= policy.ipMaxFailedAttempts
+        ? policy.lockoutSeconds
+        : backoffSeconds(failures, policy);
+      const allowedAt = new Date(last_failed_at.getTime() + delaySeconds * 1000);
+      waitSeconds = Math.max(waitSeconds, secondsUntil(allowedAt, now));
+    }
+  }
+
+  if (waitSeconds > 0) {
+    throw new LoginThrottledError(waitSeconds);
+  }
+}
+
+/**
+ * Handler for recording a failed login attempt
+ * This handler logs the attempt and, for known accounts, bumps the failure counter,
+ * locking the account once the configured threshold is reached
+ */
+export async function recordFailedLogin(email: string, ipAddress: string | null, userId: number | null): Promise<void> {
+  try {
+    await db.insert(loginAttemptsTable)
+      .values({ email, ip_address: ipAddress, succeeded: false })
+      .execute();
+
+    if (userId === null) {
+      return;
+    }
+
+    const policy = await getLoginPolicy();
+    const now = new Date();
+
+    const result = await db.update(usersTable)
+      .set({
+        failed_login_attempts: sql`${usersTable.failed_login_attempts} + 1`,
+        last_failed_login_at: now
+      })
+      .where(eq(usersTable.id, userId))
+      .returning({ failed_login_attempts: usersTable.failed_login_attempts })
+      .execute();
+
+    if (result.length > 0 && result[0].failed_login_attempts >= policy.maxFailedAttempts) {
+      // Lock the account and start counting afresh once the lock expires
+      await db.update(usersTable)
+        .set({
+          locked_until: new Date(now.getTime() + policy.lockoutSeconds * 1000),
+          failed_login_attempts: 0
+        })
+        .where(eq(usersTable.id, userId))
+        .execute();
+    }
+  } catch (error) {
+    console.error('Failed to record login attempt:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for recording a successful login
+ * This handler logs the attempt and clears the account's failure counter
+ */
+export async function recordSuccessfulLogin(email: string, ipAddress: string | null, userId: number): Promise<void> {
+  try {
+    await db.insert(loginAttemptsTable)
+      .values({ email, ip_address: ipAddress, succeeded: true })
+      .execute();
+
+    await db.update(usersTable)
+      .set({ failed_login_attempts: 0, last_failed_login_at: null, locked_until: null })
+      .where(eq(usersTable.id, userId))
+      .execute();
+  } catch (error) {
+    console.error('Failed to record login attempt:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for unlocking a user account
+ * This handler lets an admin lift a lockout and reset the failure counter
+ */
+export async function unlockUser(userId: number): Promise<boolean> {
+  try {
+    const result = await db.update(usersTable)
+      .set({
+        failed_login_attempts: 0,
+        last_failed_login_at: null,
+        locked_until: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('User unlock failed:', error);
+    throw error;
+  }
+}
@@ -1,12 +1,14 @@
 import { db } from '../db';
-import { ordersTable, orderItemsTable, usersTable, productsTable, couponsTable } from '../db/schema';
+import { ordersTable, orderItemsTable, usersTable, productsTable, productVariantsTable, couponsTable } from '../db/schema';
 import { type CreateOrderInput, type Order, type OrderItem, type OrderFilters } from '../schema';
-import { eq, and, gte, lte, desc, count, sum, SQL, isNull, inArray } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, count, sum, sql, SQL, isNull } from 'drizzle-orm';
 import crypto from 'crypto';
+import { isEmailVerificationSatisfied } from './auth';
+import { findPurchasableVariant, variantSummary } from './product_variants';
 
 /**
  * Handler for creating a new order
- * This handler creates a new order with items and calculates totals
+ * This handler creates a new order with items priced by their variants and calculates totals
  */
 export async function createOrder(input: CreateOrderInput): Promise<Order> {
   try {
@@ -21,35 +23,27 @@ export async function createOrder(input: CreateOrderInput): Promise<Order> {
       throw new Error('User not found');
     }
 
-    // Validate all products exist and get their details
-    const productIds = input.items.map(item => item.product_id);
-    const products = await db.select()
-      .from(productsTable)
-      .where(and(
-        eq(productsTable.is_active, true),
-        inArray(productsTable.id, productIds)
-      ))
-      .execute();
+    // Block checkout until the email address is verified, when required
+    if (!(await isEmailVerificationSatisfied(user[0]))) {
+      throw new Error('Email address must be verified before checkout');
+    }
 
-    if (products.length !== productIds.length) {
-      throw new Error('One or more products not found or inactive');
+    // Resolve the variant being bought for each item
+    const variants: (typeof productVariantsTable.$inferSelect)[] = [];
+    for (const item of input.items) {
+      variants.push(await findPurchasableVariant(item.product_id, item.variant_id));
     }
 
     // Check stock availability
-    for (const item of input.items) {
-      const product = products.find(p => p.id === item.product_id);
-      if (!product) continue;
-      
-      if (product.stock_quantity < item.quantity) {
-        throw new Error(`Insufficient stock for product ${product.name}`);
+    input.items.forEach((item, index) => {
+      if (variants[index].stock_quantity < item.quantity) {
+        throw new Error(`Insufficient stock for product variant ${variants[index].sku}`);
       }
-    }
+    });
 
     // Calculate subtotal
-    const subtotal = input.items.reduce((sum, item) => {
-      const product = products.find(p => p.id === item.product_id);
-      if (!product) return sum;
-      return sum + (parseFloat(product.price) * item.quantity);
+    const subtotal = input.items.reduce((sum, item, index) => {
+      return sum + (parseFloat(variants[index].price) * item.quantity);
     }, 0);
 
     let couponId: number | null = null;
@@ -118,14 +112,14 @@ export async function createOrder(input: CreateOrderInput): Promise<Order> {
         .execute();
 
       // Create order items
-      const orderItems = input.items.map(item => {
-        const product = products.find(p => p.id === item.product_id)!;
-        const unitPrice = parseFloat(product.price);
+      const orderItems = input.items.map((item, index) => {
+        const unitPrice = parseFloat(variants[index].price);
         const totalPrice = unitPrice * item.quantity;
         
         return {
           order_id: newOrder.id,
           product_id: item.product_id,
+          variant_id: variants[index].id,
           quantity: item.quantity,
           unit_price: unitPrice.toString(),
           total_price: totalPrice.toString(),
@@ -151,11 +145,15 @@ export async function createOrder(input: CreateOrderInput): Promise<Order> {
           .execute();
       }
 
-      // Update product stock quantities
-      for (const item of input.items) {
-        const product = products.find(p => p.id === item.product_id)!;
+      // Update variant stock quantities and the products' stock summary
+      for (const [index, item] of input.items.entries()) {
+        await tx.update(productVariantsTable)
+          .set({ stock_quantity: sql`${productVariantsTable.stock_quantity} - ${item.quantity}` })
+          .where(eq(productVariantsTable.id, variants[index].id))
+          .execute();
+
         await tx.update(productsTable)
-          .set({ stock_quantity: product.stock_quantity - item.quantity })
+          .set(variantSummary(item.product_id))
           .where(eq(productsTable.id, item.product_id))
           .execute();
       }
@@ -583,6 +581,20 @@ export async function refundOrder(orderId: number, reason?: string): Promise<{ s
         .execute();
 
       for (const item of orderItems) {
+        if (item.variant_id !== null) {
+          await tx.update(productVariantsTable)
+            .set({ stock_quantity: sql`${productVariantsTable.stock_quantity} + ${item.quantity}` })
+            .where(eq(productVariantsTable.id, item.variant_id))
+            .execute();
+
+          await tx.update(productsTable)
+            .set(variantSummary(item.product_id))
+            .where(eq(productsTable.id, item.product_id))
+            .execute();
+          continue;
+        }
+
+        // Items ordered before variants existed restore the product's own stock
         const [product] = await tx.select()
           .from(productsTable)
           .where(eq(productsTable.id, item.product_id))
@@ -0,0 +1,287 @@
+import { db } from '../db';
+import { productsTable, productVariantsTable, categoriesTable, categorySlugAliasesTable } from '../db/schema';
+import {
+  createProductInputSchema,
+  type CreateProductInput,
+  type ImportProductsInput,
+  type ProductImportReport,
+  type ProductImportRow
+} from '../schema';
+import { eq, asc, isNull, count, sql, TransactionRollbackError } from 'drizzle-orm';
+import { toCsv, parseCsv } from '../lib/csv';
+import { insertProduct, applyProductUpdate } from './products';
+
+// Columns of an exported product, in CSV order; imports read the same columns
+const PRODUCT_COLUMNS = [
+  'sku',
+  'name',
+  'description',
+  'short_description',
+  'price',
+  'category_slug',
+  'image_url',
+  'download_url',
+  'file_size',
+  'version',
+  'license_type',
+  'stock_quantity'
+] as const;
+
+const NUMERIC_COLUMNS = new Set(['price', 'file_size', 'stock_quantity']);
+
+type ProductRecord = Record<string, unknown>;
+
+// An import row's report entry along with its validated input, null when the row has errors
+type PlannedRow = ProductImportRow & { input: CreateProductInput | null };
+
+/**
+ * Turns CSV text into records keyed by the header row
+ * CSV fields are all strings, so empty fields become null and numeric columns are converted
+ */
+function csvRecords(data: string): ProductRecord[] {
+  const [header, ...rows] = parseCsv(data);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim());
+  return rows.map(fields => Object.fromEntries(columns.map((column, index) => {
+    const value = fields[index]?.trim() ?? '';
+    if (value === '') {
+      return [column, null];
+    }
+    return [column, NUMERIC_COLUMNS.has(column) ? Number(value) : value];
+  })));
+}
+
+function jsonRecords(data: string): ProductRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    throw new Error('Import data is not valid JSON');
+  }
+
+  if (!Array.isArray(parsed) || parsed.some(record => typeof record !== 'object' || record === null || Array.isArray(record))) {
+    throw new Error('Import data must be a JSON array of objects');
+  }
+
+  return parsed;
+}
+
+/**
+ * Validates every record and decides whether it creates or updates a product
+ * Rows carrying a SKU are matched by the SKU of any variant; rows without one by exact product name
+ */
+async function planImport(records: ProductRecord[]): Promise<PlannedRow[]> {
+  const categories = await db.select({ id: categoriesTable.id, slug: categoriesTable.slug })
+    .from(categoriesTable)
+    .execute();
+  const aliases = await db.select({ id: categorySlugAliasesTable.category_id, slug: categorySlugAliasesTable.slug })
+    .from(categorySlugAliasesTable)
+    .execute();
+  // Former slugs still resolve, but never shadow a current one
+  const categoryIds = new Map([...aliases, ...categories].map(category => [category.slug, category.id]));
+
+  const products = await db.select({
+    id: productsTable.id,
+    name: productsTable.name,
+    variant_count: count(productVariantsTable.id)
+  })
+    .from(productsTable)
+    .leftJoin(productVariantsTable, eq(productVariantsTable.product_id, productsTable.id))
+    .where(isNull(productsTable.deleted_at))
+    .groupBy(productsTable.id)
+    .execute();
+
+  const skus = await db.select({ sku: productVariantsTable.sku, product_id: productVariantsTable.product_id })
+    .from(productVariantsTable)
+    .innerJoin(productsTable, eq(productVariantsTable.product_id, productsTable.id))
+    .where(isNull(productsTable.deleted_at))
+    .execute();
+  const productIdsBySku = new Map(skus.map(variant => [variant.sku, variant.product_id]));
+
+  const seenKeys = new Map<string, number>();
+
+  return records.map((record, index): PlannedRow => {
+    const row = index + 1;
+    const errors: string[] = [];
+
+    const slug = record['category_slug'];
+    const categoryId = typeof slug === 'string' ? categoryIds.get(slug) : undefined;
+    if (slug !== null && slug !== undefined && categoryId === undefined) {
+      errors.push(`category_slug: no category with slug "${String(slug)}"`);
+    }
+
+    const { category_slug: _categorySlug, ...fields } = record;
+    const candidate = {
+      ...fields,
+      sku: record['sku'] ?? undefined,
+      category_id: categoryId
+    };
+
+    const parsed = createProductInputSchema.safeParse(candidate);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const column = issue.path[0] === 'category_id' ? 'category_slug' : issue.path.join('.');
+        // An unknown slug has been reported above already
+        if (column === 'category_slug' && errors.length > 0) {
+          continue;
+        }
+        errors.push(`${column}: ${issue.message}`);
+      }
+    }
+
+    if (!parsed.success || errors.length > 0) {
+      return { row, action: null, product_id: null, errors, input: null };
+    }
+
+    const input = parsed.data;
+    const key = input.sku !== undefined ? `sku:${input.sku}` : `name:${input.name}`;
+    const duplicateOf = seenKeys.get(key);
+    if (duplicateOf !== undefined) {
+      errors.push(`Same ${input.sku !== undefined ? 'SKU' : 'name'} as row ${duplicateOf}`);
+    }
+    seenKeys.set(key, row);
+
+    let match: typeof products[number] | undefined;
+    if (input.sku !== undefined) {
+      const productId = productIdsBySku.get(input.sku);
+      match = products.find(product => product.id === productId);
+    } else {
+      const named = products.filter(product => product.name === input.name);
+      if (named.length > 1) {
+        errors.push(`name: ${named.length} products are named "${input.name}"; add a SKU to pick one`);
+      }
+      match = named[0];
+    }
+
+    if (match && match.variant_count > 1) {
+      errors.push(`Product ${match.id} is sold in several variants; update their price, license type and stock individually`);
+    }
+
+    return {
+      row,
+      action: match ? 'update' : 'create',
+      product_id: match?.id ?? null,
+      errors,
+      input: errors.length > 0 ? null : input
+    };
+  });
+}
+
+/**
+ * Handler for exporting the product catalog
+ * This handler exports every product that is not deleted, with its category slug and the SKU
+ * of its first variant, as CSV or as a JSON array using the same columns
+ */
+export async function exportProducts(format: 'csv' | 'json' = 'csv'): Promise<string> {
+  try {
+    const rows = await db.select({
+      sku: sql<string | null>`(
+        select ${productVariantsTable.sku} from ${productVariantsTable}
+          where ${productVariantsTable.product_id} = ${productsTable.id}
+          order by ${productVariantsTable.id} limit 1
+      )`,
+      name: productsTable.name,
+      description: productsTable.description,
+      short_description: productsTable.short_description,
+      price: productsTable.price,
+      category_slug: categoriesTable.slug,
+      image_url: productsTable.image_url,
+      download_url: productsTable.download_url,
+      file_size: productsTable.file_size,
+      version: productsTable.version,
+      license_type: productsTable.license_type,
+      stock_quantity: productsTable.stock_quantity
+    })
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .where(isNull(productsTable.deleted_at))
+      .orderBy(asc(productsTable.id))
+      .execute();
+
+    const products = rows.map(row => ({
+      ...row,
+      price: parseFloat(row.price)
+    }));
+
+    if (format === 'json') {
+      return JSON.stringify(products, null, 2);
+    }
+
+    return toCsv([
+      [...PRODUCT_COLUMNS],
+      ...products.map(product => PRODUCT_COLUMNS.map(column => product[column]))
+    ]);
+  } catch (error) {
+    console.error('Product export failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for importing products
+ * This handler validates every row against the product creation rules and resolves categories by slug,
+ * then creates or updates the products in a single transaction. Nothing is written in dry-run mode or when any row has errors,
+ * including errors that only show while writing; the per-row report says what each row would do and what is wrong with it
+ */
+export async function importProducts(input: ImportProductsInput): Promise<ProductImportReport> {
+  try {
+    const records = input.format === 'csv' ? csvRecords(input.data) : jsonRecords(input.data);
+    const plan = await planImport(records);
+
+    let committed = !input.dry_run && plan.every(row => row.errors.length === 0);
+
+    if (committed) {
+      try {
+        // All rows are written in one transaction, so a failure partway through leaves the catalog untouched
+        await db.transaction(async (tx) => {
+          for (const row of plan) {
+            if (!row.input) {
+              continue;
+            }
+
+            try {
+              if (row.product_id === null) {
+                row.product_id = (await insertProduct(tx, row.input)).id;
+              } else {
+                const { sku: _sku, ...fields } = row.input;
+                await applyProductUpdate(tx, { ...fields, id: row.product_id });
+              }
+            } catch (error) {
+              // Some clashes only show once earlier rows are written, such as a generated SKU that a later row names
+              row.errors.push(error instanceof Error ? error.message : String(error));
+              tx.rollback();
+            }
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof TransactionRollbackError)) {
+          throw error;
+        }
+
+        committed = false;
+        for (const row of plan) {
+          if (row.action === 'create') {
+            row.product_id = null;
+          }
+        }
+      }
+    }
+
+    const errorCount = plan.filter(row => row.errors.length > 0).length;
+
+    return {
+      dry_run: input.dry_run,
+      committed,
+      created: plan.filter(row => row.input && row.action === 'create').length,
+      updated: plan.filter(row => row.input && row.action === 'update').length,
+      error_count: errorCount,
+      rows: plan.map(({ input: _input, ...row }) => row)
+    };
+  } catch (error) {
+    console.error('Product import failed:', error);
+    throw error;
+  }
+}
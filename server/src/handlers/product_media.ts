@@ -0,0 +1,232 @@
+import { db } from '../db';
+import { productMediaTable, productsTable } from '../db/schema';
+import { type ProductMedia, type AddProductMediaInput, type UpdateProductMediaInput, type ReorderProductMediaInput } from '../schema';
+import { eq, and, ne, asc, isNull } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Makes the given media item the product's only primary image and mirrors it into
+ * products.image_url, which carts, orders and emails still display
+ */
+async function promoteToPrimary(tx: Transaction, media: typeof productMediaTable.$inferSelect): Promise<void> {
+  if (media.type === 'video') {
+    throw new Error('A video cannot be the primary image');
+  }
+
+  await tx.update(productMediaTable)
+    .set({ is_primary: false })
+    .where(and(
+      eq(productMediaTable.product_id, media.product_id),
+      ne(productMediaTable.id, media.id)
+    ))
+    .execute();
+
+  await tx.update(productMediaTable)
+    .set({ is_primary: true })
+    .where(eq(productMediaTable.id, media.id))
+    .execute();
+
+  await tx.update(productsTable)
+    .set({ image_url: media.url, updated_at: new Date() })
+    .where(eq(productsTable.id, media.product_id))
+    .execute();
+}
+
+/**
+ * Handler for getting a product's media gallery
+ * This handler lists the product's images, screenshots and videos in display order
+ */
+export async function getProductMedia(productId: number): Promise<ProductMedia[]> {
+  try {
+    return await db.select()
+      .from(productMediaTable)
+      .where(eq(productMediaTable.product_id, productId))
+      .orderBy(asc(productMediaTable.sort_order), asc(productMediaTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get product media:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for adding media to a product
+ * This handler appends the item to the end of the gallery; the first image added becomes the primary image
+ */
+export async function addProductMedia(input: AddProductMediaInput): Promise<ProductMedia> {
+  try {
+    const product = await db.select({ id: productsTable.id })
+      .from(productsTable)
+      .where(and(
+        eq(productsTable.id, input.product_id),
+        isNull(productsTable.deleted_at)
+      ))
+      .execute();
+
+    if (product.length === 0) {
+      throw new Error(`Product with id ${input.product_id} not found`);
+    }
+
+    if (input.is_primary && input.type === 'video') {
+      throw new Error('A video cannot be the primary image');
+    }
+
+    const existing = await db.select({ is_primary: productMediaTable.is_primary, sort_order: productMediaTable.sort_order })
+      .from(productMediaTable)
+      .where(eq(productMediaTable.product_id, input.product_id))
+      .execute();
+
+    const makePrimary = input.is_primary || (input.type !== 'video' && !existing.some(media => media.is_primary));
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(productMediaTable)
+        .values({
+          product_id: input.product_id,
+          type: input.type,
+          url: input.url,
+          alt_text: input.alt_text ?? null,
+          sort_order: existing.reduce((last, media) => Math.max(last, media.sort_order + 1), 0)
+        })
+        .returning()
+        .execute();
+
+      if (makePrimary) {
+        await promoteToPrimary(tx, result[0]);
+        return { ...result[0], is_primary: true };
+      }
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Adding product media failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for updating a media item
+ * This handler changes the alt text and can promote the item to primary image
+ */
+export async function updateProductMedia(input: UpdateProductMediaInput): Promise<ProductMedia | null> {
+  try {
+    const existing = await db.select()
+      .from(productMediaTable)
+      .where(eq(productMediaTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      return null;
+    }
+
+    return await db.transaction(async (tx) => {
+      if (input.alt_text !== undefined) {
+        await tx.update(productMediaTable)
+          .set({ alt_text: input.alt_text })
+          .where(eq(productMediaTable.id, input.id))
+          .execute();
+      }
+
+      if (input.is_primary) {
+        await promoteToPrimary(tx, existing[0]);
+      }
+
+      const result = await tx.select()
+        .from(productMediaTable)
+        .where(eq(productMediaTable.id, input.id))
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Product media update failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for reordering a product's media gallery
+ * This handler takes every media item of the product in its new display order
+ */
+export async function reorderProductMedia(input: ReorderProductMediaInput): Promise<ProductMedia[]> {
+  try {
+    const existing = await db.select({ id: productMediaTable.id })
+      .from(productMediaTable)
+      .where(eq(productMediaTable.product_id, input.product_id))
+      .execute();
+
+    const existingIds = new Set(existing.map(media => media.id));
+    const requestedIds = new Set(input.media_ids);
+    if (requestedIds.size !== input.media_ids.length ||
+        requestedIds.size !== existingIds.size ||
+        input.media_ids.some(id => !existingIds.has(id))) {
+      throw new Error('The new order must list every media item of the product exactly once');
+    }
+
+    await db.transaction(async (tx) => {
+      for (const [position, id] of input.media_ids.entries()) {
+        await tx.update(productMediaTable)
+          .set({ sort_order: position })
+          .where(eq(productMediaTable.id, id))
+          .execute();
+      }
+    });
+
+    return await getProductMedia(input.product_id);
+  } catch (error) {
+    console.error('Product media reordering failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for removing a media item
+ * This handler deletes the item; when it was the primary image the next image in the gallery takes its place
+ */
+export async function removeProductMedia(id: number): Promise<boolean> {
+  try {
+    const existing = await db.select()
+      .from(productMediaTable)
+      .where(eq(productMediaTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      return false;
+    }
+
+    const media = existing[0];
+    await db.transaction(async (tx) => {
+      await tx.delete(productMediaTable)
+        .where(eq(productMediaTable.id, id))
+        .execute();
+
+      if (!media.is_primary) {
+        return;
+      }
+
+      const [next] = await tx.select()
+        .from(productMediaTable)
+        .where(and(
+          eq(productMediaTable.product_id, media.product_id),
+          ne(productMediaTable.type, 'video')
+        ))
+        .orderBy(asc(productMediaTable.sort_order), asc(productMediaTable.id))
+        .limit(1)
+        .execute();
+
+      if (next) {
+        await promoteToPrimary(tx, next);
+      } else {
+        await tx.update(productsTable)
+          .set({ image_url: null, updated_at: new Date() })
+          .where(eq(productsTable.id, media.product_id))
+          .execute();
+      }
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Product media removal failed:', error);
+    throw error;
+  }
+}
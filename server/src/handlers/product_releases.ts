@@ -0,0 +1,310 @@
+import { db } from '../db';
+import { productReleasesTable, productsTable, ordersTable, orderItemsTable } from '../db/schema';
+import { type ProductRelease, type PublishReleaseInput, type SetReleaseDeprecatedInput } from '../schema';
+import { eq, and, desc, inArray, isNull, isNotNull, lte, max, type SQL } from 'drizzle-orm';
+import { signDownloadUrl, verifyDownloadSignature } from '../lib/tokens';
+import { getSettingValue } from './settings';
+
+// Orders whose license keys are in force; refunds clear the keys as well
+const LICENSED_ORDER_STATUSES: ('paid' | 'completed')[] = ['paid', 'completed'];
+
+// Path on the API server that serves release files through signed links
+export const RELEASE_DOWNLOAD_PATH = '/downloads/releases/';
+
+// Browsers reach the API under /api; Caddy and the Vite dev proxy strip it before forwarding
+const API_BASE_PATH = '/api';
+
+// Release details shown to customers; the file location stays private so files are only reachable through signed links
+type LicensedRelease = Omit<ProductRelease, 'file_url'>;
+
+const licensedReleaseColumns = {
+  id: productReleasesTable.id,
+  product_id: productReleasesTable.product_id,
+  version: productReleasesTable.version,
+  changelog: productReleasesTable.changelog,
+  file_size: productReleasesTable.file_size,
+  sha256: productReleasesTable.sha256,
+  released_at: productReleasesTable.released_at,
+  deprecated_at: productReleasesTable.deprecated_at,
+  created_at: productReleasesTable.created_at
+};
+
+/**
+ * Points the product's current version and file size at its newest released, non-deprecated release
+ */
+async function syncCurrentRelease(productId: number): Promise<void> {
+  const latest = await db.select()
+    .from(productReleasesTable)
+    .where(and(
+      eq(productReleasesTable.product_id, productId),
+      isNull(productReleasesTable.deprecated_at),
+      lte(productReleasesTable.released_at, new Date())
+    ))
+    .orderBy(desc(productReleasesTable.released_at), desc(productReleasesTable.id))
+    .limit(1)
+    .execute();
+
+  if (latest.length === 0) {
+    return;
+  }
+
+  await db.update(productsTable)
+    .set({
+      version: latest[0].version,
+      file_size: latest[0].file_size,
+      updated_at: new Date()
+    })
+    .where(eq(productsTable.id, productId))
+    .execute();
+}
+
+/**
+ * Finds how far the user's licenses for a product reach
+ * Returns null without a valid license, and covered_until null when updates never run out
+ */
+async function findLicenseCoverage(userId: number, productId: number): Promise<{ covered_until: Date | null } | null> {
+  const [license] = await db.select({ purchased_at: max(ordersTable.created_at) })
+    .from(orderItemsTable)
+    .innerJoin(ordersTable, eq(orderItemsTable.order_id, ordersTable.id))
+    .where(and(
+      eq(ordersTable.user_id, userId),
+      eq(orderItemsTable.product_id, productId),
+      inArray(ordersTable.status, LICENSED_ORDER_STATUSES),
+      isNotNull(orderItemsTable.license_key)
+    ))
+    .execute();
+
+  if (!license?.purchased_at) {
+    return null;
+  }
+
+  // A license covers releases published up to this many months after the latest purchase; 0 means for life
+  const storedMonths = parseInt(await getSettingValue('license_update_months') ?? '12');
+  const updateMonths = Number.isInteger(storedMonths) && storedMonths >= 0 ? storedMonths : 12;
+  if (!updateMonths) {
+    return { covered_until: null };
+  }
+
+  const coveredUntil = new Date(license.purchased_at);
+  coveredUntil.setMonth(coveredUntil.getMonth() + updateMonths);
+  return { covered_until: coveredUntil };
+}
+
+function coveredReleaseConditions(productId: number, coveredUntil: Date | null): SQL<unknown>[] {
+  const now = new Date();
+  const conditions: SQL<unknown>[] = [
+    eq(productReleasesTable.product_id, productId),
+    // Scheduled releases stay hidden until their release date
+    lte(productReleasesTable.released_at, now)
+  ];
+
+  if (coveredUntil && coveredUntil < now) {
+    conditions.push(lte(productReleasesTable.released_at, coveredUntil));
+  }
+
+  return conditions;
+}
+
+/**
+ * Handler for publishing a product release
+ * This handler records a new version with its file and checksum and makes it the product's
+ * current release once its release date has passed
+ */
+export async function publishRelease(input: PublishReleaseInput): Promise<ProductRelease> {
+  try {
+    const product = await db.select({ id: productsTable.id })
+      .from(productsTable)
+      .where(and(
+        eq(productsTable.id, input.product_id),
+        isNull(productsTable.deleted_at)
+      ))
+      .execute();
+
+    if (product.length === 0) {
+      throw new Error(`Product with id ${input.product_id} not found`);
+    }
+
+    const existing = await db.select({ id: productReleasesTable.id })
+      .from(productReleasesTable)
+      .where(and(
+        eq(productReleasesTable.product_id, input.product_id),
+        eq(productReleasesTable.version, input.version)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Version ${input.version} has already been published`);
+    }
+
+    const result = await db.insert(productReleasesTable)
+      .values({
+        product_id: input.product_id,
+        version: input.version,
+        changelog: input.changelog ?? null,
+        file_url: input.file_url,
+        file_size: input.file_size,
+        sha256: input.sha256.toLowerCase(),
+        released_at: input.released_at ?? new Date()
+      })
+      .returning()
+      .execute();
+
+    await syncCurrentRelease(input.product_id);
+
+    return result[0];
+  } catch (error) {
+    console.error('Release publishing failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting all releases of a product
+ * This handler lists every release for admins, newest first, including deprecated and scheduled ones
+ */
+export async function getProductReleases(productId: number): Promise<ProductRelease[]> {
+  try {
+    return await db.select()
+      .from(productReleasesTable)
+      .where(eq(productReleasesTable.product_id, productId))
+      .orderBy(desc(productReleasesTable.released_at), desc(productReleasesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get product releases:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for deprecating a release
+ * This handler marks a release as deprecated, or lifts the mark, and moves the product's
+ * current release accordingly
+ */
+export async function setReleaseDeprecated(input: SetReleaseDeprecatedInput): Promise<ProductRelease | null> {
+  try {
+    const result = await db.update(productReleasesTable)
+      .set({ deprecated_at: input.deprecated ? new Date() : null })
+      .where(eq(productReleasesTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    await syncCurrentRelease(result[0].product_id);
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to update release deprecation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting the releases a customer is licensed for
+ * This handler lists the product's releases covered by the user's licenses, newest first,
+ * or returns null when the user holds no valid license for the product
+ */
+export async function getLicensedReleases(userId: number, productId: number): Promise<{
+  covered_until: Date | null;
+  releases: LicensedRelease[];
+} | null> {
+  try {
+    const coverage = await findLicenseCoverage(userId, productId);
+    if (!coverage) {
+      return null;
+    }
+
+    const releases = await db.select(licensedReleaseColumns)
+      .from(productReleasesTable)
+      .where(and(...coveredReleaseConditions(productId, coverage.covered_until)))
+      .orderBy(desc(productReleasesTable.released_at), desc(productReleasesTable.id))
+      .execute();
+
+    return {
+      covered_until: coverage.covered_until,
+      releases
+    };
+  } catch (error) {
+    console.error('Failed to get licensed releases:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for downloading a release
+ * This handler checks the user's license covers the release and issues a signed, expiring download link.
+ * The link is a path on the API server, which checks the signature before serving the file
+ */
+export async function getReleaseDownload(userId: number, releaseId: number): Promise<{
+  release: LicensedRelease;
+  download_url: string;
+  expires_at: Date;
+} | null> {
+  try {
+    const releases = await db.select(licensedReleaseColumns)
+      .from(productReleasesTable)
+      .where(eq(productReleasesTable.id, releaseId))
+      .execute();
+
+    if (releases.length === 0) {
+      return null;
+    }
+
+    const release = releases[0];
+    const coverage = await findLicenseCoverage(userId, release.product_id);
+    if (!coverage) {
+      return null;
+    }
+
+    const covered = await db.select({ id: productReleasesTable.id })
+      .from(productReleasesTable)
+      .where(and(
+        eq(productReleasesTable.id, releaseId),
+        ...coveredReleaseConditions(release.product_id, coverage.covered_until)
+      ))
+      .execute();
+
+    if (covered.length === 0) {
+      return null;
+    }
+
+    // Fall back to the default if the stored value is not a usable number of hours
+    const storedHours = Number(await getSettingValue('download_link_expiry_hours'));
+    const expiryHours = Number.isFinite(storedHours) && storedHours > 0 ? storedHours : 24;
+    const expiresAt = new Date(Date.now() + expiryHours * 60 * 60 * 1000);
+
+    return {
+      release,
+      download_url: `${API_BASE_PATH}${signDownloadUrl(`${RELEASE_DOWNLOAD_PATH}${release.id}`, expiresAt)}`,
+      expires_at: expiresAt
+    };
+  } catch (error) {
+    console.error('Release download failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for resolving a signed download link
+ * This handler checks the link's signature and expiry and returns the location of the release file
+ * to serve, or null when the link is forged, expired or the release no longer exists
+ */
+export async function resolveReleaseDownload(releaseId: number, expires: number, signature: string): Promise<string | null> {
+  try {
+    if (!verifyDownloadSignature(`${RELEASE_DOWNLOAD_PATH}${releaseId}`, expires, signature)) {
+      return null;
+    }
+
+    const releases = await db.select({ file_url: productReleasesTable.file_url })
+      .from(productReleasesTable)
+      .where(eq(productReleasesTable.id, releaseId))
+      .execute();
+
+    return releases.length > 0 ? releases[0].file_url : null;
+  } catch (error) {
+    console.error('Release download lookup failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,317 @@
+import { db } from '../db';
+import { productVariantsTable, productsTable, orderItemsTable, cartItemsTable, wishlistItemsTable } from '../db/schema';
+import { type ProductVariant, type CreateProductVariantInput, type UpdateProductVariantInput } from '../schema';
+import { eq, and, or, ne, gt, lte, asc, isNull, count, sql, type SQL } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function toProductVariant(row: typeof productVariantsTable.$inferSelect): ProductVariant {
+  return {
+    ...row,
+    price: parseFloat(row.price)
+  };
+}
+
+/**
+ * Product columns derived from its active variants: the lowest price, shown as the "from" price in
+ * listings, and the total stock. The current price is kept while no variant is active.
+ */
+export function variantSummary(productId: number) {
+  return {
+    price: sql<string>`coalesce(
+      (select min(${productVariantsTable.price}) from ${productVariantsTable}
+        where ${productVariantsTable.product_id} = ${productId} and ${productVariantsTable.is_active}),
+      ${productsTable.price}
+    )`,
+    stock_quantity: sql<number>`(
+      select coalesce(sum(${productVariantsTable.stock_quantity}), 0)::int from ${productVariantsTable}
+        where ${productVariantsTable.product_id} = ${productId} and ${productVariantsTable.is_active}
+    )`,
+    updated_at: new Date()
+  };
+}
+
+async function refreshProductSummary(productId: number): Promise<void> {
+  await db.update(productsTable)
+    .set(variantSummary(productId))
+    .where(eq(productsTable.id, productId))
+    .execute();
+}
+
+export async function assertSkuAvailable(tx: Transaction | typeof db, sku: string, exceptVariantId?: number): Promise<void> {
+  const conditions: SQL<unknown>[] = [eq(productVariantsTable.sku, sku)];
+  if (exceptVariantId !== undefined) {
+    conditions.push(ne(productVariantsTable.id, exceptVariantId));
+  }
+
+  const existing = await tx.select({ id: productVariantsTable.id })
+    .from(productVariantsTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (existing.length > 0) {
+    throw new Error(`SKU ${sku} already exists`);
+  }
+}
+
+// Active products must keep at least one variant customers can buy
+async function assertNotLastActiveVariant(variant: typeof productVariantsTable.$inferSelect): Promise<void> {
+  const [{ count: otherActive }] = await db.select({ count: count() })
+    .from(productVariantsTable)
+    .where(and(
+      eq(productVariantsTable.product_id, variant.product_id),
+      eq(productVariantsTable.is_active, true),
+      ne(productVariantsTable.id, variant.id)
+    ))
+    .execute();
+
+  const product = await db.select({ is_active: productsTable.is_active })
+    .from(productsTable)
+    .where(eq(productsTable.id, variant.product_id))
+    .execute();
+
+  if (otherActive === 0 && product[0]?.is_active) {
+    throw new Error('An active product needs at least one active variant');
+  }
+}
+
+/**
+ * Conditions for a product customers can see and buy right now: active, not deleted and inside
+ * its availability window (available_from inclusive, available_until exclusive)
+ */
+export function availableProductConditions(now: Date = new Date()): SQL<unknown>[] {
+  return [
+    eq(productsTable.is_active, true),
+    isNull(productsTable.deleted_at),
+    or(isNull(productsTable.available_from), lte(productsTable.available_from, now))!,
+    or(isNull(productsTable.available_until), gt(productsTable.available_until, now))!
+  ];
+}
+
+/**
+ * Tells why a loaded product cannot be bought right now, or returns null when it can
+ */
+export function productUnavailability(
+  product: { is_active: boolean; available_from: Date | null; available_until: Date | null },
+  now: Date = new Date()
+): 'inactive' | 'not_yet_available' | 'no_longer_available' | null {
+  if (!product.is_active) {
+    return 'inactive';
+  }
+  if (product.available_from && product.available_from > now) {
+    return 'not_yet_available';
+  }
+  if (product.available_until && product.available_until <= now) {
+    return 'no_longer_available';
+  }
+  return null;
+}
+
+/**
+ * Resolves the variant a customer is buying
+ * The variant may be omitted for products sold in a single variant; throws when nothing can be bought
+ */
+export async function findPurchasableVariant(productId: number, variantId?: number): Promise<typeof productVariantsTable.$inferSelect> {
+  const conditions: SQL<unknown>[] = [
+    eq(productVariantsTable.product_id, productId),
+    eq(productVariantsTable.is_active, true),
+    ...availableProductConditions()
+  ];
+  if (variantId !== undefined) {
+    conditions.push(eq(productVariantsTable.id, variantId));
+  }
+
+  const rows = await db.select({ variant: productVariantsTable })
+    .from(productVariantsTable)
+    .innerJoin(productsTable, eq(productVariantsTable.product_id, productsTable.id))
+    .where(and(...conditions))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error(variantId !== undefined ? 'Product variant not found or inactive' : 'Product not found or inactive');
+  }
+
+  if (rows.length > 1) {
+    throw new Error('Product is sold in several variants; a variant must be chosen');
+  }
+
+  return rows[0].variant;
+}
+
+/**
+ * Handler for getting a product's variants
+ * This handler lists the variants cheapest first, optionally including inactive ones
+ */
+export async function getProductVariants(productId: number, includeInactive: boolean = false): Promise<ProductVariant[]> {
+  try {
+    const conditions: SQL<unknown>[] = [eq(productVariantsTable.product_id, productId)];
+    if (!includeInactive) {
+      conditions.push(eq(productVariantsTable.is_active, true));
+    }
+
+    const variants = await db.select()
+      .from(productVariantsTable)
+      .where(and(...conditions))
+      .orderBy(asc(productVariantsTable.price), asc(productVariantsTable.id))
+      .execute();
+
+    return variants.map(toProductVariant);
+  } catch (error) {
+    console.error('Failed to get product variants:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for creating a product variant
+ * This handler adds a sellable edition to a product and refreshes the product's price and stock summary
+ */
+export async function createProductVariant(input: CreateProductVariantInput): Promise<ProductVariant> {
+  try {
+    const product = await db.select({ id: productsTable.id })
+      .from(productsTable)
+      .where(and(
+        eq(productsTable.id, input.product_id),
+        isNull(productsTable.deleted_at)
+      ))
+      .execute();
+
+    if (product.length === 0) {
+      throw new Error(`Product with id ${input.product_id} not found`);
+    }
+
+    await assertSkuAvailable(db, input.sku);
+
+    const result = await db.insert(productVariantsTable)
+      .values({
+        product_id: input.product_id,
+        name: input.name,
+        sku: input.sku,
+        price: input.price.toString(),
+        license_type: input.license_type,
+        seats: input.seats,
+        stock_quantity: input.stock_quantity,
+        is_active: input.is_active
+      })
+      .returning()
+      .execute();
+
+    await refreshProductSummary(input.product_id);
+
+    return toProductVariant(result[0]);
+  } catch (error) {
+    console.error('Product variant creation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for updating a product variant
+ * This handler changes the provided fields and refreshes the product's price and stock summary
+ */
+export async function updateProductVariant(input: UpdateProductVariantInput): Promise<ProductVariant | null> {
+  try {
+    const existing = await db.select()
+      .from(productVariantsTable)
+      .where(eq(productVariantsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      return null;
+    }
+
+    if (input.sku !== undefined) {
+      await assertSkuAvailable(db, input.sku, input.id);
+    }
+
+    if (input.is_active === false && existing[0].is_active) {
+      await assertNotLastActiveVariant(existing[0]);
+    }
+
+    const updateData: Partial<typeof productVariantsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.sku !== undefined) updateData.sku = input.sku;
+    if (input.price !== undefined) updateData.price = input.price.toString();
+    if (input.license_type !== undefined) updateData.license_type = input.license_type;
+    if (input.seats !== undefined) updateData.seats = input.seats;
+    if (input.stock_quantity !== undefined) updateData.stock_quantity = input.stock_quantity;
+    if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+    const result = await db.update(productVariantsTable)
+      .set(updateData)
+      .where(eq(productVariantsTable.id, input.id))
+      .returning()
+      .execute();
+
+    await refreshProductSummary(result[0].product_id);
+
+    return toProductVariant(result[0]);
+  } catch (error) {
+    console.error('Product variant update failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for deleting a product variant
+ * This handler removes the variant from carts; variants with order history are deactivated instead of deleted
+ */
+export async function deleteProductVariant(id: number): Promise<boolean> {
+  try {
+    const existing = await db.select()
+      .from(productVariantsTable)
+      .where(eq(productVariantsTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      return false;
+    }
+
+    const variant = existing[0];
+    if (variant.is_active) {
+      await assertNotLastActiveVariant(variant);
+    }
+
+    const [{ count: orderItemCount }] = await db.select({ count: count() })
+      .from(orderItemsTable)
+      .where(eq(orderItemsTable.variant_id, id))
+      .execute();
+
+    await db.transaction(async (tx) => {
+      await tx.delete(cartItemsTable)
+        .where(eq(cartItemsTable.variant_id, id))
+        .execute();
+
+      // Wishlisted items fall back to the product as a whole
+      await tx.update(wishlistItemsTable)
+        .set({ variant_id: null })
+        .where(eq(wishlistItemsTable.variant_id, id))
+        .execute();
+
+      // Order items keep pointing at what was bought
+      if (orderItemCount > 0) {
+        await tx.update(productVariantsTable)
+          .set({ is_active: false, updated_at: new Date() })
+          .where(eq(productVariantsTable.id, id))
+          .execute();
+      } else {
+        await tx.delete(productVariantsTable)
+          .where(eq(productVariantsTable.id, id))
+          .execute();
+      }
+
+      await tx.update(productsTable)
+        .set(variantSummary(variant.product_id))
+        .where(eq(productsTable.id, variant.product_id))
+        .execute();
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Product variant deletion failed:', error);
+    throw error;
+  }
+}
@@ -1,48 +1,457 @@
 import { db } from '../db';
-import { productsTable, categoriesTable } from '../db/schema';
-import { type CreateProductInput, type UpdateProductInput, type Product, type ProductFilters } from '../schema';
-import { eq } from 'drizzle-orm';
+import { productsTable, productVariantsTable, productReleasesTable, productMediaTable, productTagsTable, tagsTable, productAttributesTable, attributesTable, productCoPurchasesTable, categoriesTable, categoryFeaturedProductsTable, ordersTable, orderItemsTable, reviewsTable, cartItemsTable, wishlistItemsTable } from '../db/schema';
+import { type CreateProductInput, type UpdateProductInput, type Product, type ProductFilters, type ProductVariant, type ProductMedia, type Tag, type ProductAttribute } from '../schema';
+import { eq, and, or, gt, gte, lte, ilike, inArray, isNull, exists, asc, desc, count, countDistinct, sql, type SQL, type Column } from 'drizzle-orm';
+import { assertSkuAvailable, availableProductConditions, getProductVariants, variantSummary } from './product_variants';
+import { getProductMedia } from './product_media';
+import { getProductTags } from './tags';
+import { getProductAttributes, normalizeAttributeValue } from './attributes';
+import { categorySubtreeIds } from './categories';
+
+// Product fields shown to customers; download_url holds the raw file location and is admin-only
+type PublicProduct = Omit<Product, 'download_url'>;
+
+type ProductWithCategory<TProduct extends PublicProduct = PublicProduct> = TProduct & {
+  category: { id: number; name: string; slug: string };
+  primary_image: Pick<ProductMedia, 'id' | 'type' | 'url' | 'alt_text'> | null;
+};
+
+type ProductPage<TProduct extends PublicProduct = PublicProduct> = {
+  products: ProductWithCategory<TProduct>[],
+  total: number,
+  page: number,
+  limit: number
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DEFAULT_FILTERS: ProductFilters = { page: 1, limit: 10 };
+
+// Name of the variant created along with a product, by license type
+export const DEFAULT_VARIANT_NAMES = {
+  single: 'Single license',
+  multi: 'Multi license',
+  unlimited: 'Unlimited license'
+};
+
+const publicProductColumns = {
+  id: productsTable.id,
+  name: productsTable.name,
+  description: productsTable.description,
+  short_description: productsTable.short_description,
+  price: productsTable.price,
+  category_id: productsTable.category_id,
+  image_url: productsTable.image_url,
+  file_size: productsTable.file_size,
+  version: productsTable.version,
+  license_type: productsTable.license_type,
+  is_active: productsTable.is_active,
+  stock_quantity: productsTable.stock_quantity,
+  available_from: productsTable.available_from,
+  available_until: productsTable.available_until,
+  deleted_at: productsTable.deleted_at,
+  created_at: productsTable.created_at,
+  updated_at: productsTable.updated_at
+};
+
+const categoryAndImageColumns = {
+  category: {
+    id: categoriesTable.id,
+    name: categoriesTable.name,
+    slug: categoriesTable.slug
+  },
+  primary_image: {
+    id: productMediaTable.id,
+    type: productMediaTable.type,
+    url: productMediaTable.url,
+    alt_text: productMediaTable.alt_text
+  }
+};
+
+// Columns selected for product listings, including the owning category and the primary image;
+// queries selecting them join productMediaTable on primaryImageJoin
+const productWithCategoryColumns = { product: publicProductColumns, ...categoryAndImageColumns };
+
+// The same with every product column, for admin listings only
+const adminProductWithCategoryColumns = { product: productsTable, ...categoryAndImageColumns };
+
+const primaryImageJoin = and(
+  eq(productMediaTable.product_id, productsTable.id),
+  eq(productMediaTable.is_primary, true)
+);
+
+function toProductWithCategory<TRow extends { price: string }>(row: {
+  product: TRow;
+  category: ProductWithCategory['category'];
+  primary_image: ProductWithCategory['primary_image'];
+}): Omit<TRow, 'price'> & Pick<ProductWithCategory, 'price' | 'category' | 'primary_image'> {
+  return {
+    ...row.product,
+    price: parseFloat(row.product.price),
+    category: row.category,
+    primary_image: row.primary_image
+  };
+}
+
+// Filter conditions shared by listings, search and facet counts; soft-deleted products are always excluded
+async function productFilterConditions(filters: Partial<ProductFilters>): Promise<SQL<unknown>[]> {
+  const conditions: SQL<unknown>[] = [isNull(productsTable.deleted_at)];
+
+  if (filters.category_id !== undefined) {
+    conditions.push(filters.include_subcategories
+      ? sql`${productsTable.category_id} in ${categorySubtreeIds(filters.category_id)}`
+      : eq(productsTable.category_id, filters.category_id));
+  }
+
+  if (filters.min_price !== undefined) {
+    conditions.push(gte(productsTable.price, filters.min_price.toString()));
+  }
+
+  if (filters.max_price !== undefined) {
+    conditions.push(lte(productsTable.price, filters.max_price.toString()));
+  }
+
+  // Licenses are sold per variant, so a product matches when any of its active variants offers the type
+  if (filters.license_type !== undefined) {
+    conditions.push(exists(db.select({ id: productVariantsTable.id })
+      .from(productVariantsTable)
+      .where(and(
+        eq(productVariantsTable.product_id, productsTable.id),
+        eq(productVariantsTable.is_active, true),
+        eq(productVariantsTable.license_type, filters.license_type)
+      ))));
+  }
+
+  for (const slug of new Set(filters.tags ?? [])) {
+    conditions.push(exists(db.select({ id: productTagsTable.id })
+      .from(productTagsTable)
+      .innerJoin(tagsTable, eq(productTagsTable.tag_id, tagsTable.id))
+      .where(and(
+        eq(productTagsTable.product_id, productsTable.id),
+        eq(tagsTable.slug, slug)
+      ))));
+  }
+
+  const attributeFilters = Object.entries(filters.attributes ?? {}).filter(([, values]) => values.length > 0);
+  if (attributeFilters.length > 0) {
+    const attributes = await db.select()
+      .from(attributesTable)
+      .where(inArray(attributesTable.key, attributeFilters.map(([key]) => key)))
+      .execute();
+
+    for (const [key, values] of attributeFilters) {
+      // Values are stored normalized for the attribute type, so filter values must be too;
+      // values that are not valid for the type cannot match anything
+      const attribute = attributes.find(candidate => candidate.key === key);
+      const normalized = attribute ? values.flatMap(value => {
+        try {
+          return [normalizeAttributeValue(attribute, value)];
+        } catch {
+          return [];
+        }
+      }) : [];
+
+      if (!attribute || normalized.length === 0) {
+        conditions.push(sql`false`);
+        continue;
+      }
+
+      conditions.push(exists(db.select({ id: productAttributesTable.id })
+        .from(productAttributesTable)
+        .where(and(
+          eq(productAttributesTable.product_id, productsTable.id),
+          eq(productAttributesTable.attribute_id, attribute.id),
+          inArray(productAttributesTable.value, normalized)
+        ))));
+    }
+  }
+
+  if (filters.search && filters.search.trim()) {
+    const searchPattern = `%${filters.search.trim()}%`;
+    const searchCondition = or(
+      ilike(productsTable.name, searchPattern),
+      ilike(productsTable.short_description, searchPattern),
+      ilike(productsTable.description, searchPattern)
+    );
+    if (searchCondition) {
+      conditions.push(searchCondition);
+    }
+  }
+
+  return conditions;
+}
+
+function productSortOrder(filters: ProductFilters): SQL<unknown>[] {
+  const sortColumn = {
+    name: productsTable.name,
+    price: productsTable.price,
+    created_at: productsTable.created_at
+  }[filters.sort_by ?? 'created_at'];
+  const direction = (filters.sort_order ?? (filters.sort_by === 'name' || filters.sort_by === 'price' ? 'asc' : 'desc')) === 'asc' ? asc : desc;
+
+  return [direction(sortColumn), direction(productsTable.id)];
+}
 
 /**
- * Handler for creating a new product
- * This handler creates a new digital product in the database
+ * Runs a filtered, sorted and paginated product query along with the matching total
+ * leadingOrder sorts ahead of the requested order, e.g. to pin featured products;
+ * includeAdminFields selects every product column, for admin listings only
  */
-export async function createProduct(input: CreateProductInput): Promise<Product> {
-  try {
-    // Check if category exists
-    const category = await db.select()
+async function queryProducts(filters: ProductFilters, extraConditions?: SQL<unknown>[], leadingOrder?: SQL<unknown>[]): Promise<ProductPage>;
+async function queryProducts(filters: ProductFilters, extraConditions: SQL<unknown>[], leadingOrder: SQL<unknown>[], includeAdminFields: true): Promise<ProductPage<Product>>;
+async function queryProducts(filters: ProductFilters, extraConditions: SQL<unknown>[] = [], leadingOrder: SQL<unknown>[] = [], includeAdminFields = false): Promise<ProductPage | ProductPage<Product>> {
+  const whereClause = and(...await productFilterConditions(filters), ...extraConditions);
+
+  const rows = await db.select(includeAdminFields ? adminProductWithCategoryColumns : productWithCategoryColumns)
+    .from(productsTable)
+    .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+    .leftJoin(productMediaTable, primaryImageJoin)
+    .where(whereClause)
+    .orderBy(...leadingOrder, ...productSortOrder(filters))
+    .limit(filters.limit)
+    .offset((filters.page - 1) * filters.limit)
+    .execute();
+
+  const [{ count: totalCount }] = await db.select({ count: count() })
+    .from(productsTable)
+    .where(whereClause)
+    .execute();
+
+  return {
+    products: rows.map(toProductWithCategory),
+    total: totalCount,
+    page: filters.page,
+    limit: filters.limit
+  };
+}
+
+function assertAvailabilityWindow(availableFrom: Date | null, availableUntil: Date | null): void {
+  if (availableFrom && availableUntil && availableUntil <= availableFrom) {
+    throw new Error('available_until must be later than available_from');
+  }
+}
+
+async function assertCategoryExists(tx: Transaction | typeof db, categoryId: number): Promise<void> {
+  const category = await tx.select({ id: categoriesTable.id })
+    .from(categoriesTable)
+    .where(eq(categoriesTable.id, categoryId))
+    .execute();
+
+  if (category.length === 0) {
+    throw new Error(`Category with id ${categoryId} not found`);
+  }
+}
+
+
+// Text search configuration used for both the document and the query
+const SEARCH_CONFIG = 'english';
+
+// Name matters most, then the short description and category, then the long description
+const searchDocument = sql`(
+  setweight(to_tsvector('${sql.raw(SEARCH_CONFIG)}', ${productsTable.name}), 'A') ||
+  setweight(to_tsvector('${sql.raw(SEARCH_CONFIG)}', coalesce(${productsTable.short_description}, '')), 'B') ||
+  setweight(to_tsvector('${sql.raw(SEARCH_CONFIG)}', ${categoriesTable.name}), 'B') ||
+  setweight(to_tsvector('${sql.raw(SEARCH_CONFIG)}', ${productsTable.description}), 'C')
+)`;
+
+// Matched terms are wrapped in <mark> tags in highlighted names and snippets
+const HEADLINE_MARKERS = 'StartSel=<mark>, StopSel=</mark>';
+
+// Price ranges for the facet sidebar; each bucket covers [min, max)
+const PRICE_BUCKETS: { min: number; max: number | null }[] = [
+  { min: 0, max: 10 },
+  { min: 10, max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: null }
+];
+
+type SearchFacets = {
+  categories: { id: number; name: string; slug: string; count: number }[];
+  license_types: { license_type: 'single' | 'multi' | 'unlimited'; count: number }[];
+  price_buckets: { min: number; max: number | null; count: number }[];
+};
+
+/**
+ * Counts search matches per category, license type and price bucket
+ * Each facet ignores its own filter so the sidebar can offer the alternatives
+ */
+async function getSearchFacets(filters: Omit<ProductFilters, 'search'>, textConditions: SQL<unknown>[]): Promise<SearchFacets> {
+  const facetWhere = async (omitted: Partial<ProductFilters>) => and(
+    ...await productFilterConditions({ ...filters, ...omitted }),
+    ...textConditions
+  );
+  const [categoryWhere, licenseTypeWhere, priceWhere] = await Promise.all([
+    facetWhere({ category_id: undefined }),
+    facetWhere({ license_type: undefined }),
+    facetWhere({ min_price: undefined, max_price: undefined })
+  ]);
+
+  const [categories, licenseTypes, priceBuckets] = await Promise.all([
+    db.select({
+      id: categoriesTable.id,
+      name: categoriesTable.name,
+      slug: categoriesTable.slug,
+      count: count()
+    })
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .where(categoryWhere)
+      .groupBy(categoriesTable.id)
+      .orderBy(desc(count()), asc(categoriesTable.name))
+      .execute(),
+    // A product counts once for every license type its active variants offer
+    db.select({
+      license_type: productVariantsTable.license_type,
+      count: countDistinct(productsTable.id)
+    })
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .innerJoin(productVariantsTable, and(
+        eq(productVariantsTable.product_id, productsTable.id),
+        eq(productVariantsTable.is_active, true)
+      ))
+      .where(licenseTypeWhere)
+      .groupBy(productVariantsTable.license_type)
+      .orderBy(desc(countDistinct(productsTable.id)), asc(productVariantsTable.license_type))
+      .execute(),
+    db.select(Object.fromEntries(PRICE_BUCKETS.map((bucket, index) => [
+      `bucket_${index}`,
+      bucket.max === null
+        ? sql<number>`count(*) filter (where ${productsTable.price} >= ${bucket.min})`.mapWith(Number)
+        : sql<number>`count(*) filter (where ${productsTable.price} >= ${bucket.min} and ${productsTable.price} < ${bucket.max})`.mapWith(Number)
+    ])))
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .where(priceWhere)
+      .execute()
+  ]);
+
+  return {
+    categories,
+    license_types: licenseTypes,
+    price_buckets: PRICE_BUCKETS.map((bucket, index) => ({
+      ...bucket,
+      count: priceBuckets[0][`bucket_${index}`] ?? 0
+    }))
+  };
+}
+
+// Minimum pg_trgm word similarity for a name to be offered as a "did you mean" correction
+const SUGGESTION_SIMILARITY_THRESHOLD = 0.4;
+
+// Shorter queries have too few trigrams for a meaningful correction
+const SUGGESTION_MIN_CORRECTION_LENGTH = 3;
+
+type SearchSuggestion = { type: 'product' | 'category'; id: number; name: string };
+
+// Escapes LIKE wildcards so user input only matches literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Finds active product and category names matching the condition, best score first
+ */
+async function findSuggestions(
+  condition: (name: Column) => SQL<unknown>,
+  score: (name: Column) => SQL<number>,
+  limit: number
+): Promise<(SearchSuggestion & { score: number })[]> {
+  const [products, categories] = await Promise.all([
+    db.select({ id: productsTable.id, name: productsTable.name, score: score(productsTable.name) })
+      .from(productsTable)
+      .where(and(
+        ...availableProductConditions(),
+        condition(productsTable.name)
+      ))
+      .orderBy(desc(score(productsTable.name)), asc(productsTable.name))
+      .limit(limit)
+      .execute(),
+    db.select({ id: categoriesTable.id, name: categoriesTable.name, score: score(categoriesTable.name) })
       .from(categoriesTable)
-      .where(eq(categoriesTable.id, input.category_id))
-      .execute();
+      .where(and(
+        eq(categoriesTable.is_active, true),
+        condition(categoriesTable.name)
+      ))
+      .orderBy(desc(score(categoriesTable.name)), asc(categoriesTable.name))
+      .limit(limit)
+      .execute()
+  ]);
 
-    if (category.length === 0) {
-      throw new Error(`Category with id ${input.category_id} not found`);
-    }
+  return [
+    ...products.map(row => ({ type: 'product' as const, ...row, score: Number(row.score) })),
+    ...categories.map(row => ({ type: 'category' as const, ...row, score: Number(row.score) }))
+  ]
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
 
-    // Insert product record
-    const result = await db.insert(productsTable)
-      .values({
-        name: input.name,
-        description: input.description,
-        short_description: input.short_description,
-        price: input.price.toString(), // Convert number to string for numeric column
-        category_id: input.category_id,
-        image_url: input.image_url,
-        download_url: input.download_url,
-        file_size: input.file_size,
-        version: input.version,
-        license_type: input.license_type,
-        stock_quantity: input.stock_quantity
-      })
-      .returning()
-      .execute();
+/**
+ * Creates a product with its default variant inside the given transaction
+ */
+export async function insertProduct(tx: Transaction, input: CreateProductInput): Promise<Product> {
+  // Checks run on the transaction so they see rows written earlier in it, as in a bulk import
+  await assertCategoryExists(tx, input.category_id);
 
-    // Convert numeric fields back to numbers before returning
-    const product = result[0];
-    return {
-      ...product,
-      price: parseFloat(product.price) // Convert string back to number
-    };
+  if (input.sku !== undefined) {
+    await assertSkuAvailable(tx, input.sku);
+  }
+
+  assertAvailabilityWindow(input.available_from ?? null, input.available_until ?? null);
+
+  // Insert product record
+  const result = await tx.insert(productsTable)
+    .values({
+      name: input.name,
+      description: input.description,
+      short_description: input.short_description,
+      price: input.price.toString(), // Convert number to string for numeric column
+      category_id: input.category_id,
+      image_url: input.image_url,
+      download_url: input.download_url,
+      file_size: input.file_size,
+      version: input.version,
+      license_type: input.license_type,
+      stock_quantity: input.stock_quantity,
+      available_from: input.available_from ?? null,
+      available_until: input.available_until ?? null
+    })
+    .returning()
+    .execute();
+
+  // Every product is sold through at least one variant
+  const licenseType = input.license_type ?? 'single';
+  const sku = input.sku ?? `P${result[0].id}-${licenseType.toUpperCase()}`;
+  if (input.sku === undefined) {
+    await assertSkuAvailable(tx, sku);
+  }
+
+  await tx.insert(productVariantsTable)
+    .values({
+      product_id: result[0].id,
+      name: DEFAULT_VARIANT_NAMES[licenseType],
+      sku,
+      price: input.price.toString(),
+      license_type: licenseType,
+      stock_quantity: input.stock_quantity
+    })
+    .execute();
+
+  // Convert numeric fields back to numbers before returning
+  return {
+    ...result[0],
+    price: parseFloat(result[0].price) // Convert string back to number
+  };
+}
+
+/**
+ * Handler for creating a new product
+ * This handler creates a new digital product in the database along with its default variant
+ */
+export async function createProduct(input: CreateProductInput): Promise<Product> {
+  try {
+    return await db.transaction(tx => insertProduct(tx, input));
   } catch (error) {
     console.error('Product creation failed:', error);
     throw error;
@@ -51,69 +460,201 @@ export async function createProduct(input: CreateProductInput): Promise<Product>
 
 /**
  * Handler for getting all products with optional filters
- * This handler retrieves products with pagination and filtering support
- */
-export async function getProducts(filters?: ProductFilters): Promise<{ products: Product[], total: number, page: number, limit: number }> {
-  // Placeholder implementation
-  // Real implementation should:
-  // 1. Build query with filters (category, price range, search, etc.)
-  // 2. Apply sorting and pagination
-  // 3. Execute query and count total records
-  // 4. Return paginated results with metadata
-  return {
-    products: [],
-    total: 0,
-    page: filters?.page || 1,
-    limit: filters?.limit || 10
-  };
+ * This handler retrieves products with pagination and filtering support, including inactive ones
+ */
+export async function getProducts(filters: ProductFilters = DEFAULT_FILTERS): Promise<ProductPage<Product>> {
+  try {
+    return await queryProducts(filters, [], [], true);
+  } catch (error) {
+    console.error('Failed to get products:', error);
+    throw error;
+  }
 }
 
 /**
  * Handler for getting active products for public display
- * This handler retrieves only active products for the shop page
- */
-export async function getActiveProducts(filters?: ProductFilters): Promise<{ products: Product[], total: number, page: number, limit: number }> {
-  // Placeholder implementation
-  // Real implementation should:
-  // 1. Query products where is_active = true
-  // 2. Apply filters and pagination
-  // 3. Include category information
-  // 4. Return filtered active products
-  return {
-    products: [],
-    total: 0,
-    page: filters?.page || 1,
-    limit: filters?.limit || 10
-  };
+ * This handler retrieves the active products currently on sale for the shop page
+ */
+export async function getActiveProducts(filters: ProductFilters = DEFAULT_FILTERS): Promise<ProductPage> {
+  try {
+    return await queryProducts(filters, availableProductConditions());
+  } catch (error) {
+    console.error('Failed to get active products:', error);
+    throw error;
+  }
 }
 
 /**
  * Handler for getting a single product by ID
- * This handler retrieves a specific product with its category information
+ * This handler retrieves a specific product with its category information, active variants, media gallery, tags and attributes
  */
-export async function getProductById(id: number): Promise<Product | null> {
-  // Placeholder implementation
-  // Real implementation should:
-  // 1. Query product by ID with category join
-  // 2. Return product with category data or null if not found
-  return null;
+export async function getProductById(id: number): Promise<(ProductWithCategory & {
+  variants: ProductVariant[];
+  media: ProductMedia[];
+  tags: Tag[];
+  attributes: ProductAttribute[];
+}) | null> {
+  try {
+    const rows = await db.select(productWithCategoryColumns)
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .leftJoin(productMediaTable, primaryImageJoin)
+      .where(and(
+        eq(productsTable.id, id),
+        isNull(productsTable.deleted_at)
+      ))
+      .execute();
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return {
+      ...toProductWithCategory(rows[0]),
+      variants: await getProductVariants(id),
+      media: await getProductMedia(id),
+      tags: await getProductTags(id),
+      attributes: await getProductAttributes(id)
+    };
+  } catch (error) {
+    console.error('Failed to get product by ID:', error);
+    throw error;
+  }
 }
 
 /**
  * Handler for getting products by category
- * This handler retrieves all products in a specific category
- */
-export async function getProductsByCategory(categoryId: number, filters?: Omit<ProductFilters, 'category_id'>): Promise<{ products: Product[], total: number, page: number, limit: number }> {
-  // Placeholder implementation
-  // Real implementation should:
-  // 1. Query products by category ID
-  // 2. Apply additional filters and pagination
-  // 3. Return category-specific products
+ * This handler retrieves the active products currently on sale in a specific category,
+ * and with include_subcategories also those in every category below it. The category's featured products come first
+ */
+export async function getProductsByCategory(categoryId: number, filters: Omit<ProductFilters, 'category_id'> = DEFAULT_FILTERS): Promise<ProductPage> {
+  try {
+    const pinnedPosition = sql`(
+      select ${categoryFeaturedProductsTable.sort_order} from ${categoryFeaturedProductsTable}
+      where ${categoryFeaturedProductsTable.category_id} = ${categoryId}
+        and ${categoryFeaturedProductsTable.product_id} = ${productsTable.id}
+    ) asc nulls last`;
+
+    return await queryProducts({ ...filters, category_id: categoryId }, availableProductConditions(), [pinnedPosition]);
+  } catch (error) {
+    console.error('Failed to get products by category:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting upcoming launches
+ * This handler lists products scheduled to go on sale in the future, soonest first, for admins
+ */
+export async function getUpcomingLaunches(): Promise<ProductWithCategory<Product>[]> {
+  try {
+    const rows = await db.select(adminProductWithCategoryColumns)
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .leftJoin(productMediaTable, primaryImageJoin)
+      .where(and(
+        gt(productsTable.available_from, new Date()),
+        isNull(productsTable.deleted_at)
+      ))
+      .orderBy(asc(productsTable.available_from), asc(productsTable.id))
+      .execute();
+
+    return rows.map(toProductWithCategory);
+  } catch (error) {
+    console.error('Failed to get upcoming launches:', error);
+    throw error;
+  }
+}
+
+/**
+ * Updates a product, and its variant while it has a single one, inside the given transaction
+ * Returns null when the product does not exist
+ */
+export async function applyProductUpdate(tx: Transaction, input: UpdateProductInput): Promise<Product | null> {
+  if (input.category_id !== undefined) {
+    await assertCategoryExists(tx, input.category_id);
+  }
+
+  // Build update data dynamically based on provided fields
+  const updateData: Partial<typeof productsTable.$inferInsert> = {};
+
+  if (input.name !== undefined) updateData.name = input.name;
+  if (input.description !== undefined) updateData.description = input.description;
+  if (input.short_description !== undefined) updateData.short_description = input.short_description;
+  if (input.price !== undefined) updateData.price = input.price.toString();
+  if (input.category_id !== undefined) updateData.category_id = input.category_id;
+  if (input.image_url !== undefined) updateData.image_url = input.image_url;
+  if (input.download_url !== undefined) updateData.download_url = input.download_url;
+  if (input.file_size !== undefined) updateData.file_size = input.file_size;
+  if (input.version !== undefined) updateData.version = input.version;
+  if (input.license_type !== undefined) updateData.license_type = input.license_type;
+  if (input.is_active !== undefined) updateData.is_active = input.is_active;
+  if (input.stock_quantity !== undefined) updateData.stock_quantity = input.stock_quantity;
+  if (input.available_from !== undefined) updateData.available_from = input.available_from;
+  if (input.available_until !== undefined) updateData.available_until = input.available_until;
+
+  if (input.available_from !== undefined || input.available_until !== undefined) {
+    const current = await tx.select({ available_from: productsTable.available_from, available_until: productsTable.available_until })
+      .from(productsTable)
+      .where(eq(productsTable.id, input.id))
+      .execute();
+
+    if (current.length > 0) {
+      assertAvailabilityWindow(
+        input.available_from !== undefined ? input.available_from : current[0].available_from,
+        input.available_until !== undefined ? input.available_until : current[0].available_until
+      );
+    }
+  }
+
+  // Always update the timestamp
+  updateData.updated_at = new Date();
+
+  // Price, license and stock belong to the variants; they can only be set here while there is a single one
+  const variants = await tx.select({ id: productVariantsTable.id })
+    .from(productVariantsTable)
+    .where(eq(productVariantsTable.product_id, input.id))
+    .execute();
+
+  const variantData: Partial<typeof productVariantsTable.$inferInsert> = {};
+  if (input.price !== undefined) variantData.price = input.price.toString();
+  if (input.license_type) variantData.license_type = input.license_type;
+  if (input.stock_quantity !== undefined) variantData.stock_quantity = input.stock_quantity;
+
+  const updatesVariant = Object.keys(variantData).length > 0 && variants.length > 0;
+  if (updatesVariant && variants.length > 1) {
+    throw new Error('Product is sold in several variants; update their price, license type and stock individually');
+  }
+
+  let results = await tx.update(productsTable)
+    .set(updateData)
+    .where(and(
+      eq(productsTable.id, input.id),
+      isNull(productsTable.deleted_at)
+    ))
+    .returning()
+    .execute();
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  if (updatesVariant) {
+    await tx.update(productVariantsTable)
+      .set({ ...variantData, updated_at: new Date() })
+      .where(eq(productVariantsTable.id, variants[0].id))
+      .execute();
+
+    results = await tx.update(productsTable)
+      .set(variantSummary(input.id))
+      .where(eq(productsTable.id, input.id))
+      .returning()
+      .execute();
+  }
+
   return {
-    products: [],
-    total: 0,
-    page: filters?.page || 1,
-    limit: filters?.limit || 10
+    ...results[0],
+    price: parseFloat(results[0].price)
   };
 }
 
@@ -122,45 +663,322 @@ export async function getProductsByCategory(categoryId: number, filters?: Omit<P
  * This handler updates an existing product with new data
  */
 export async function updateProduct(input: UpdateProductInput): Promise<Product | null> {
-  // Placeholder implementation
-  // Real implementation should:
-  // 1. Validate input data
-  // 2. Check if product exists
-  // 3. Validate category if being changed
-  // 4. Update product in database
-  // 5. Return updated product or null if not found
-  return null;
+  try {
+    return await db.transaction(tx => applyProductUpdate(tx, input));
+  } catch (error) {
+    console.error('Product update failed:', error);
+    throw error;
+  }
 }
 
 /**
  * Handler for deleting a product
- * This handler soft deletes or removes a product from the database
+ * This handler soft deletes products that have order or review history and removes the rest
  */
 export async function deleteProduct(id: number): Promise<boolean> {
-  // Placeholder implementation
-  // Real implementation should:
-  // 1. Check if product exists
-  // 2. Check for existing orders or cart items
-  // 3. Either soft delete (set is_active = false) or hard delete
-  // 4. Return true if deleted, false otherwise
-  return false;
+  try {
+    const products = await db.select({ id: productsTable.id })
+      .from(productsTable)
+      .where(and(
+        eq(productsTable.id, id),
+        isNull(productsTable.deleted_at)
+      ))
+      .execute();
+
+    if (products.length === 0) {
+      return false;
+    }
+
+    const [{ count: orderCount }] = await db.select({ count: count() })
+      .from(orderItemsTable)
+      .where(eq(orderItemsTable.product_id, id))
+      .execute();
+
+    const [{ count: reviewCount }] = await db.select({ count: count() })
+      .from(reviewsTable)
+      .where(eq(reviewsTable.product_id, id))
+      .execute();
+
+    await db.transaction(async (tx) => {
+      // Nobody can buy a deleted product, so drop it from carts, wishlists and category pins either way
+      await tx.delete(cartItemsTable)
+        .where(eq(cartItemsTable.product_id, id))
+        .execute();
+      await tx.delete(wishlistItemsTable)
+        .where(eq(wishlistItemsTable.product_id, id))
+        .execute();
+      await tx.delete(categoryFeaturedProductsTable)
+        .where(eq(categoryFeaturedProductsTable.product_id, id))
+        .execute();
+
+      if (orderCount > 0 || reviewCount > 0) {
+        // Keep the row so order history and license keys still resolve
+        await tx.update(productsTable)
+          .set({
+            is_active: false,
+            deleted_at: new Date(),
+            updated_at: new Date()
+          })
+          .where(eq(productsTable.id, id))
+          .execute();
+      } else {
+        await tx.delete(productVariantsTable)
+          .where(eq(productVariantsTable.product_id, id))
+          .execute();
+        await tx.delete(productReleasesTable)
+          .where(eq(productReleasesTable.product_id, id))
+          .execute();
+        await tx.delete(productMediaTable)
+          .where(eq(productMediaTable.product_id, id))
+          .execute();
+        await tx.delete(productTagsTable)
+          .where(eq(productTagsTable.product_id, id))
+          .execute();
+        await tx.delete(productAttributesTable)
+          .where(eq(productAttributesTable.product_id, id))
+          .execute();
+        await tx.delete(productsTable)
+          .where(eq(productsTable.id, id))
+          .execute();
+      }
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Product deletion failed:', error);
+    throw error;
+  }
 }
 
 /**
  * Handler for searching products
- * This handler performs full-text search on products
- */
-export async function searchProducts(query: string, filters?: Omit<ProductFilters, 'search'>): Promise<{ products: Product[], total: number, page: number, limit: number }> {
-  // Placeholder implementation
-  // Real implementation should:
-  // 1. Perform full-text search on name and description
-  // 2. Apply additional filters
-  // 3. Rank results by relevance
-  // 4. Return search results with pagination
-  return {
-    products: [],
-    total: 0,
-    page: filters?.page || 1,
-    limit: filters?.limit || 10
-  };
-}
\ No newline at end of file
+ * This handler runs a ranked full-text search over name, short description, category and description
+ * (weighted in that order), returning highlighted snippets and facet counts for the filter sidebar
+ */
+export async function searchProducts(query: string, filters: Omit<ProductFilters, 'search'> = DEFAULT_FILTERS): Promise<ProductPage & {
+  products: (ProductWithCategory & { rank: number; highlighted_name: string; snippet: string })[];
+  facets: SearchFacets;
+}> {
+  try {
+    const terms = query.trim();
+    const tsQuery = sql`websearch_to_tsquery('${sql.raw(SEARCH_CONFIG)}', ${terms})`;
+
+    // Without search terms every active product matches, as in a plain listing
+    const textConditions: SQL<unknown>[] = availableProductConditions();
+    if (terms) {
+      textConditions.push(sql`${searchDocument} @@ ${tsQuery}`);
+    }
+
+    const whereClause = and(...await productFilterConditions(filters), ...textConditions);
+
+    const rank = terms ? sql<number>`ts_rank(${searchDocument}, ${tsQuery})` : sql<number>`0`;
+    const highlight = (text: SQL | typeof productsTable.name, options: string) => terms
+      ? sql<string>`ts_headline('${sql.raw(SEARCH_CONFIG)}', ${text}, ${tsQuery}, ${options})`
+      : sql<string>`${text}`;
+
+    // Relevance first, unless the caller asked for a specific order
+    const orderBy = filters.sort_by || !terms
+      ? productSortOrder(filters)
+      : [desc(rank), desc(productsTable.id)];
+
+    const rows = await db.select({
+      ...productWithCategoryColumns,
+      rank,
+      highlighted_name: highlight(productsTable.name, `${HEADLINE_MARKERS}, HighlightAll=true`),
+      snippet: highlight(
+        sql`coalesce(${productsTable.short_description} || ' ', '') || ${productsTable.description}`,
+        `${HEADLINE_MARKERS}, MaxWords=30, MinWords=10, MaxFragments=2`
+      )
+    })
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .leftJoin(productMediaTable, primaryImageJoin)
+      .where(whereClause)
+      .orderBy(...orderBy)
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit)
+      .execute();
+
+    const [{ count: totalCount }] = await db.select({ count: count() })
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .where(whereClause)
+      .execute();
+
+    const facets = await getSearchFacets(filters, textConditions);
+
+    return {
+      products: rows.map(row => ({
+        ...toProductWithCategory(row),
+        rank: Number(row.rank),
+        highlighted_name: row.highlighted_name,
+        snippet: row.snippet
+      })),
+      total: totalCount,
+      page: filters.page,
+      limit: filters.limit,
+      facets
+    };
+  } catch (error) {
+    console.error('Product search failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for search-as-you-type suggestions
+ * This handler completes the query against product and category names and, when nothing
+ * completes it, offers "did you mean" corrections ranked by trigram similarity
+ */
+export async function suggestProducts(query: string, limit: number = 5): Promise<{
+  completions: SearchSuggestion[];
+  did_you_mean: (SearchSuggestion & { similarity: number })[];
+}> {
+  try {
+    const terms = query.trim().replace(/\s+/g, ' ');
+    if (!terms) {
+      return { completions: [], did_you_mean: [] };
+    }
+
+    // Names starting with the query rank above names with a later word starting with it
+    const prefixPattern = `${escapeLikePattern(terms)}%`;
+    const completions = await findSuggestions(
+      name => or(ilike(name, prefixPattern), ilike(name, `% ${prefixPattern}`))!,
+      name => sql<number>`(${name} ilike ${prefixPattern})::int + similarity(${name}, ${terms})`,
+      limit
+    );
+
+    if (completions.length > 0 || terms.length < SUGGESTION_MIN_CORRECTION_LENGTH) {
+      return {
+        completions: completions.map(({ score, ...suggestion }) => suggestion),
+        did_you_mean: []
+      };
+    }
+
+    const corrections = await findSuggestions(
+      name => sql`word_similarity(${terms}, ${name}) >= ${SUGGESTION_SIMILARITY_THRESHOLD}`,
+      name => sql<number>`word_similarity(${terms}, ${name})`,
+      limit
+    );
+
+    return {
+      completions: [],
+      did_you_mean: corrections.map(({ score, ...suggestion }) => ({ ...suggestion, similarity: score }))
+    };
+  } catch (error) {
+    console.error('Product suggestions failed:', error);
+    throw error;
+  }
+}
+
+// A shared category counts as much as this many shared tags when ranking related products
+const RELATED_CATEGORY_WEIGHT = 2;
+
+/**
+ * Handler for getting related products
+ * This handler ranks other active products by what they share with the given one: its category
+ * and each of its tags; products sharing nothing are left out
+ */
+export async function getRelatedProducts(productId: number, limit: number = 4): Promise<(ProductWithCategory & { score: number })[]> {
+  try {
+    const product = await db.select({ category_id: productsTable.category_id })
+      .from(productsTable)
+      .where(eq(productsTable.id, productId))
+      .execute();
+
+    if (product.length === 0) {
+      return [];
+    }
+
+    const sharedTags = sql<number>`(
+      select count(*)::int from ${productTagsTable} own_tags
+        where own_tags.product_id = ${productId}
+          and own_tags.tag_id in (
+            select ${productTagsTable.tag_id} from ${productTagsTable}
+              where ${productTagsTable.product_id} = ${productsTable.id}
+          )
+    )`;
+    const score = sql<number>`(
+      case when ${productsTable.category_id} = ${product[0].category_id} then ${RELATED_CATEGORY_WEIGHT} else 0 end
+    ) + ${sharedTags}`;
+
+    const rows = await db.select({ ...productWithCategoryColumns, score })
+      .from(productsTable)
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .leftJoin(productMediaTable, primaryImageJoin)
+      .where(and(
+        sql`${productsTable.id} <> ${productId}`,
+        ...availableProductConditions(),
+        sql`${score} > 0`
+      ))
+      .orderBy(desc(score), desc(productsTable.created_at), desc(productsTable.id))
+      .limit(limit)
+      .execute();
+
+    return rows.map(row => ({
+      ...toProductWithCategory(row),
+      score: Number(row.score)
+    }));
+  } catch (error) {
+    console.error('Failed to get related products:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting products frequently bought together with a product
+ * This handler reads the precomputed co-purchase counts, most often bought together first
+ */
+export async function getFrequentlyBoughtTogether(productId: number, limit: number = 4): Promise<(ProductWithCategory & { order_count: number })[]> {
+  try {
+    const rows = await db.select({ ...productWithCategoryColumns, order_count: productCoPurchasesTable.order_count })
+      .from(productCoPurchasesTable)
+      .innerJoin(productsTable, eq(productCoPurchasesTable.related_product_id, productsTable.id))
+      .innerJoin(categoriesTable, eq(productsTable.category_id, categoriesTable.id))
+      .leftJoin(productMediaTable, primaryImageJoin)
+      .where(and(
+        eq(productCoPurchasesTable.product_id, productId),
+        ...availableProductConditions()
+      ))
+      .orderBy(desc(productCoPurchasesTable.order_count), desc(productsTable.id))
+      .limit(limit)
+      .execute();
+
+    return rows.map(row => ({
+      ...toProductWithCategory(row),
+      order_count: row.order_count
+    }));
+  } catch (error) {
+    console.error('Failed to get frequently bought together products:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for refreshing the co-purchase counts
+ * This handler recounts, for every pair of products, the paid or completed orders containing both.
+ * It runs as a recurring job so that getFrequentlyBoughtTogether stays a cheap indexed lookup
+ */
+export async function refreshCoPurchaseCounts(): Promise<number> {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.delete(productCoPurchasesTable).execute();
+
+      const result = await tx.execute(sql`
+        insert into ${productCoPurchasesTable} (product_id, related_product_id, order_count)
+        select items.product_id, other_items.product_id, count(distinct items.order_id)::int
+          from ${orderItemsTable} items
+          join ${orderItemsTable} other_items
+            on other_items.order_id = items.order_id and other_items.product_id <> items.product_id
+          join ${ordersTable} on ${ordersTable.id} = items.order_id
+          where ${ordersTable.status} in ('paid', 'completed')
+          group by items.product_id, other_items.product_id
+      `);
+
+      return result.rowCount ?? 0;
+    });
+  } catch (error) {
+    console.error('Co-purchase refresh failed:', error);
+    throw error;
+  }
+}
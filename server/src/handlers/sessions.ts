@@ -0,0 +1,221 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type Session, type SessionMetadata } from '../schema';
+import { eq, and, gt, isNull, ne, desc } from 'drizzle-orm';
+import { generateOpaqueToken, hashOpaqueToken, signAccessToken } from '../lib/tokens';
+
+// Refresh tokens (and therefore sessions) stay valid for 30 days of inactivity
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+function refreshTokenExpiry(): Date {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+  return expiresAt;
+}
+
+/**
+ * Handler for starting a new session
+ * This handler records the device metadata and issues an access/refresh token pair
+ */
+export async function createSession(user: { id: number; role: 'admin' | 'customer' }, metadata?: SessionMetadata): Promise<{ token: string; refresh_token: string; session_id: number }> {
+  try {
+    const refreshToken = generateOpaqueToken();
+
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        refresh_token_hash: hashOpaqueToken(refreshToken),
+        user_agent: metadata?.user_agent ?? null,
+        ip_address: metadata?.ip_address ?? null,
+        expires_at: refreshTokenExpiry()
+      })
+      .returning()
+      .execute();
+
+    const session = result[0];
+
+    return {
+      token: signAccessToken(user, session.id),
+      refresh_token: refreshToken,
+      session_id: session.id
+    };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for refreshing a session
+ * This handler exchanges a refresh token for a new access token and rotates the refresh token
+ */
+export async function refreshSession(refreshToken: string, metadata?: SessionMetadata): Promise<{ token: string; refresh_token: string } | null> {
+  try {
+    const refreshTokenHash = hashOpaqueToken(refreshToken);
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.refresh_token_hash, refreshTokenHash),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .limit(1)
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { sessions: session, users: user } = results[0];
+
+    // Deactivated users cannot extend their sessions
+    if (!user.is_active) {
+      return null;
+    }
+
+    // Rotate the refresh token so a stolen copy stops working after the next refresh
+    const newRefreshToken = generateOpaqueToken();
+    const updateData: Partial<typeof sessionsTable.$inferInsert> = {
+      refresh_token_hash: hashOpaqueToken(newRefreshToken),
+      expires_at: refreshTokenExpiry(),
+      last_used_at: new Date()
+    };
+
+    if (metadata?.ip_address) updateData.ip_address = metadata.ip_address;
+    if (metadata?.user_agent) updateData.user_agent = metadata.user_agent;
+
+    // Only the request that still holds the current token rotates it; a concurrent refresh with the
+    // same token finds it already replaced and is refused like any reused token
+    const rotated = await db.update(sessionsTable)
+      .set(updateData)
+      .where(and(
+        eq(sessionsTable.id, session.id),
+        eq(sessionsTable.refresh_token_hash, refreshTokenHash),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning({ id: sessionsTable.id })
+      .execute();
+
+    if (rotated.length === 0) {
+      return null;
+    }
+
+    return {
+      token: signAccessToken(user, session.id),
+      refresh_token: newRefreshToken
+    };
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for checking that a session is still usable
+ * This handler verifies the session belongs to the user and is neither revoked nor expired
+ */
+export async function isSessionActive(sessionId: number, userId: number): Promise<boolean> {
+  try {
+    const results = await db.select({ id: sessionsTable.id })
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .limit(1)
+      .execute();
+
+    return results.length > 0;
+  } catch (error) {
+    console.error('Session check failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for listing a user's active sessions
+ * This handler returns all non-revoked, non-expired sessions, flagging the caller's own session
+ */
+export async function listSessions(userId: number, currentSessionId?: number): Promise<(Omit<Session, 'revoked_at'> & { is_current: boolean })[]> {
+  try {
+    const results = await db.select({
+      id: sessionsTable.id,
+      user_id: sessionsTable.user_id,
+      user_agent: sessionsTable.user_agent,
+      ip_address: sessionsTable.ip_address,
+      expires_at: sessionsTable.expires_at,
+      last_used_at: sessionsTable.last_used_at,
+      created_at: sessionsTable.created_at
+    })
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(sessionsTable.last_used_at))
+      .execute();
+
+    return results.map(session => ({
+      ...session,
+      is_current: session.id === currentSessionId
+    }));
+  } catch (error) {
+    console.error('Failed to list sessions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for revoking a single session
+ * This handler logs out one of the user's devices
+ */
+export async function revokeSession(sessionId: number, userId: number): Promise<boolean> {
+  try {
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for revoking all of a user's sessions
+ * This handler logs the user out everywhere, optionally keeping the caller's own session
+ */
+export async function revokeAllSessions(userId: number, exceptSessionId?: number): Promise<number> {
+  try {
+    const conditions = [
+      eq(sessionsTable.user_id, userId),
+      isNull(sessionsTable.revoked_at)
+    ];
+
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(sessionsTable.id, exceptSessionId));
+    }
+
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(...conditions))
+      .returning()
+      .execute();
+
+    return result.length;
+  } catch (error) {
+    console.error('Failed to revoke all sessions:', error);
+    throw error;
+  }
+}
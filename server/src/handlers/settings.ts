@@ -3,6 +3,32 @@ import { settingsTable } from '../db/schema';
 import { type UpdateSettingInput, type Setting } from '../schema';
 import { eq, asc } from 'drizzle-orm';
 
+// Cached key/value map of stored settings, shared by hot paths such as the API middleware.
+// Invalidated on every write through this module; the TTL bounds staleness across processes.
+const SETTINGS_CACHE_TTL_MS = 60 * 1000;
+
+let settingsCache: { values: Map<string, string>; loadedAt: number } | null = null;
+
+export function invalidateSettingsCache(): void {
+  settingsCache = null;
+}
+
+async function getCachedSettings(): Promise<Map<string, string>> {
+  if (settingsCache && Date.now() - settingsCache.loadedAt < SETTINGS_CACHE_TTL_MS) {
+    return settingsCache.values;
+  }
+
+  const results = await db.select({ key: settingsTable.key, value: settingsTable.value })
+    .from(settingsTable)
+    .execute();
+
+  settingsCache = {
+    values: new Map(results.map(setting => [setting.key, setting.value])),
+    loadedAt: Date.now()
+  };
+  return settingsCache.values;
+}
+
 /**
  * Handler for getting all system settings
  * This handler retrieves all configuration settings
@@ -40,12 +66,66 @@ export async function getSettingByKey(key: string): Promise<Setting | null> {
   }
 }
 
+/**
+ * Handler for reading a setting value
+ * This handler reads through the settings cache and falls back to the shipped default
+ * when the setting has not been stored
+ */
+export async function getSettingValue(key: string): Promise<string | null> {
+  try {
+    const values = await getCachedSettings();
+    const value = values.get(key);
+    if (value !== undefined) {
+      return value;
+    }
+
+    const defaults = await getDefaultSettings();
+    return defaults.find(s => s.key === key)?.value ?? null;
+  } catch (error) {
+    console.error('Failed to get setting value:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for reading the maintenance mode state
+ * This handler returns whether maintenance mode is on, with the optional message and ETA
+ */
+export async function getMaintenanceStatus(): Promise<{ enabled: boolean; message: string | null; eta: Date | null }> {
+  try {
+    const [mode, message, eta] = await Promise.all([
+      getSettingValue('maintenance_mode'),
+      getSettingValue('maintenance_message'),
+      getSettingValue('maintenance_eta')
+    ]);
+
+    return {
+      enabled: mode === 'true',
+      message: message || null,
+      eta: eta && !isNaN(Date.parse(eta)) ? new Date(eta) : null
+    };
+  } catch (error) {
+    console.error('Failed to get maintenance status:', error);
+    throw error;
+  }
+}
+
+// Rejects values the code reading the setting could not use, such as a non-numeric login limit
+async function assertValidSettingValue(input: UpdateSettingInput): Promise<void> {
+  const validation = await validateSettingValue(input.key, input.value);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+}
+
 /**
  * Handler for updating or creating a setting
  * This handler updates existing setting or creates new one
  */
 export async function updateSetting(input: UpdateSettingInput): Promise<Setting> {
   try {
+    await assertValidSettingValue(input);
+
     // First, try to find existing setting
     const existing = await getSettingByKey(input.key);
 
@@ -60,6 +140,7 @@ export async function updateSetting(input: UpdateSettingInput): Promise<Setting>
         .returning()
         .execute();
 
+      invalidateSettingsCache();
       return results[0];
     } else {
       // Create new setting
@@ -72,6 +153,7 @@ export async function updateSetting(input: UpdateSettingInput): Promise<Setting>
         .returning()
         .execute();
 
+      invalidateSettingsCache();
       return results[0];
     }
   } catch (error) {
@@ -86,6 +168,11 @@ export async function updateSetting(input: UpdateSettingInput): Promise<Setting>
  */
 export async function updateMultipleSettings(settings: UpdateSettingInput[]): Promise<Setting[]> {
   try {
+    // Check every value first so an invalid one leaves all settings unchanged
+    for (const settingInput of settings) {
+      await assertValidSettingValue(settingInput);
+    }
+
     const results: Setting[] = [];
     
     // Process each setting (could be optimized with batch operations)
@@ -123,6 +210,7 @@ export async function deleteSetting(key: string): Promise<boolean> {
       .returning()
       .execute();
 
+    invalidateSettingsCache();
     return results.length > 0;
   } catch (error) {
     console.error('Failed to delete setting:', error);
@@ -150,9 +238,18 @@ export async function getDefaultSettings(): Promise<UpdateSettingInput[]> {
     { key: 'stripe_secret_key', value: '' },
     { key: 'max_download_attempts', value: '5' },
     { key: 'download_link_expiry_hours', value: '24' },
+    { key: 'license_update_months', value: '12' },
+    { key: 'guest_cart_ttl_days', value: '30' },
     { key: 'enable_user_registration', value: 'true' },
     { key: 'require_email_verification', value: 'true' },
-    { key: 'maintenance_mode', value: 'false' }
+    { key: 'maintenance_mode', value: 'false' },
+    { key: 'maintenance_message', value: '' },
+    { key: 'maintenance_eta', value: '' },
+    { key: 'login_max_failed_attempts', value: '5' },
+    { key: 'login_ip_max_failed_attempts', value: '20' },
+    { key: 'login_lockout_minutes', value: '15' },
+    { key: 'login_backoff_base_seconds', value: '1' },
+    { key: 'require_admin_two_factor', value: 'false' }
   ];
 }
 
@@ -187,9 +284,17 @@ export async function validateSettingValue(key: string, value: string): Promise<
     smtp_port: (v) => !isNaN(Number(v)) && Number(v) > 0 && Number(v) <= 65535,
     max_download_attempts: (v) => !isNaN(Number(v)) && Number(v) > 0,
     download_link_expiry_hours: (v) => !isNaN(Number(v)) && Number(v) > 0,
+    license_update_months: (v) => /^\d+$/.test(v),
+    guest_cart_ttl_days: (v) => /^\d+$/.test(v) && Number(v) > 0,
     enable_user_registration: (v) => v === 'true' || v === 'false',
     require_email_verification: (v) => v === 'true' || v === 'false',
-    maintenance_mode: (v) => v === 'true' || v === 'false'
+    maintenance_mode: (v) => v === 'true' || v === 'false',
+    maintenance_eta: (v) => v === '' || !isNaN(Date.parse(v)),
+    login_max_failed_attempts: (v) => /^\d+$/.test(v) && Number(v) > 0,
+    login_ip_max_failed_attempts: (v) => /^\d+$/.test(v) && Number(v) > 0,
+    login_lockout_minutes: (v) => /^\d+$/.test(v) && Number(v) > 0 && Number(v) <= 1440,
+    login_backoff_base_seconds: (v) => /^\d+$/.test(v) && Number(v) >= 0 && Number(v) <= 60,
+    require_admin_two_factor: (v) => v === 'true' || v === 'false'
   };
 
   if (validationRules[key]) {
@@ -232,9 +337,9 @@ export async function getSettingsByCategory(): Promise<{
         categorizedSettings.email.push(setting);
       } else if (key.startsWith('stripe_') || key.includes('payment') || key === 'payment_gateway') {
         categorizedSettings.payment.push(setting);
-      } else if (key.includes('registration') || key.includes('verification') || key === 'maintenance_mode') {
+      } else if (key.includes('registration') || key.includes('verification') || key.startsWith('maintenance_') || key.startsWith('login_') || key.includes('two_factor')) {
         categorizedSettings.security.push(setting);
-      } else if (key.includes('download')) {
+      } else if (key.includes('download') || key.startsWith('license_')) {
         categorizedSettings.downloads.push(setting);
       } else {
         categorizedSettings.general.push(setting);
@@ -292,12 +397,19 @@ export async function restoreSettings(backupData: string): Promise<{ success: bo
       };
     }
 
-    // Validate and restore settings
-    for (const settingData of parsedData) {
-      if (!settingData.key || !settingData.value) {
-        continue; // Skip invalid entries
+    // Skip incomplete entries, and refuse the whole backup if a value is invalid
+    const entries = parsedData.filter(settingData => settingData.key && settingData.value);
+    for (const settingData of entries) {
+      const validation = await validateSettingValue(settingData.key, settingData.value);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        };
       }
+    }
 
+    for (const settingData of entries) {
       await updateSetting({
         key: settingData.key,
         value: settingData.value
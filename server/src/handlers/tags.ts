@@ -0,0 +1,242 @@
+import { db } from '../db';
+import { tagsTable, productTagsTable, productsTable } from '../db/schema';
+import { type Tag, type CreateTagInput, type UpdateTagInput, type MergeTagsInput, type SetProductTagsInput } from '../schema';
+import { eq, and, ne, asc, inArray, isNull, count, sql, type SQL } from 'drizzle-orm';
+
+async function assertSlugAvailable(slug: string, exceptTagId?: number): Promise<void> {
+  const conditions: SQL<unknown>[] = [eq(tagsTable.slug, slug)];
+  if (exceptTagId !== undefined) {
+    conditions.push(ne(tagsTable.id, exceptTagId));
+  }
+
+  const existing = await db.select({ id: tagsTable.id })
+    .from(tagsTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (existing.length > 0) {
+    throw new Error(`Tag with slug ${slug} already exists`);
+  }
+}
+
+/**
+ * Handler for creating a tag
+ * This handler creates a free-form product tag with a unique slug
+ */
+export async function createTag(input: CreateTagInput): Promise<Tag> {
+  try {
+    await assertSlugAvailable(input.slug);
+
+    const result = await db.insert(tagsTable)
+      .values({
+        name: input.name,
+        slug: input.slug
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Tag creation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting all tags
+ * This handler lists tags by name along with how many live (active, not deleted) products carry each one
+ */
+export async function getTags(): Promise<(Tag & { product_count: number })[]> {
+  try {
+    return await db.select({
+      id: tagsTable.id,
+      name: tagsTable.name,
+      slug: tagsTable.slug,
+      created_at: tagsTable.created_at,
+      updated_at: tagsTable.updated_at,
+      product_count: count(productsTable.id)
+    })
+      .from(tagsTable)
+      .leftJoin(productTagsTable, eq(productTagsTable.tag_id, tagsTable.id))
+      .leftJoin(productsTable, and(
+        eq(productTagsTable.product_id, productsTable.id),
+        isNull(productsTable.deleted_at),
+        eq(productsTable.is_active, true)
+      ))
+      .groupBy(tagsTable.id)
+      .orderBy(asc(tagsTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get tags:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for updating a tag
+ * This handler renames a tag or changes its slug
+ */
+export async function updateTag(input: UpdateTagInput): Promise<Tag | null> {
+  try {
+    if (input.slug !== undefined) {
+      await assertSlugAvailable(input.slug, input.id);
+    }
+
+    const updateData: Partial<typeof tagsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.slug !== undefined) updateData.slug = input.slug;
+
+    const results = await db.update(tagsTable)
+      .set(updateData)
+      .where(eq(tagsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Tag update failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for deleting a tag
+ * This handler removes the tag from all products and deletes it
+ */
+export async function deleteTag(id: number): Promise<boolean> {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.delete(productTagsTable)
+        .where(eq(productTagsTable.tag_id, id))
+        .execute();
+
+      const results = await tx.delete(tagsTable)
+        .where(eq(tagsTable.id, id))
+        .returning()
+        .execute();
+
+      return results.length > 0;
+    });
+  } catch (error) {
+    console.error('Tag deletion failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for merging two tags
+ * This handler moves every product of the source tag to the target tag and deletes the source tag
+ */
+export async function mergeTags(input: MergeTagsInput): Promise<Tag | null> {
+  try {
+    if (input.source_id === input.target_id) {
+      throw new Error('A tag cannot be merged into itself');
+    }
+
+    const tags = await db.select()
+      .from(tagsTable)
+      .where(inArray(tagsTable.id, [input.source_id, input.target_id]))
+      .execute();
+
+    const target = tags.find(tag => tag.id === input.target_id);
+    if (tags.length < 2 || !target) {
+      return null;
+    }
+
+    await db.transaction(async (tx) => {
+      // Products carrying both tags keep a single link
+      await tx.execute(sql`
+        insert into ${productTagsTable} (product_id, tag_id)
+        select ${productTagsTable.product_id}, ${input.target_id} from ${productTagsTable}
+          where ${productTagsTable.tag_id} = ${input.source_id}
+        on conflict do nothing
+      `);
+
+      await tx.delete(productTagsTable)
+        .where(eq(productTagsTable.tag_id, input.source_id))
+        .execute();
+
+      await tx.delete(tagsTable)
+        .where(eq(tagsTable.id, input.source_id))
+        .execute();
+    });
+
+    return target;
+  } catch (error) {
+    console.error('Tag merge failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting a product's tags
+ * This handler lists the tags of a product by name
+ */
+export async function getProductTags(productId: number): Promise<Tag[]> {
+  try {
+    const rows = await db.select({ tag: tagsTable })
+      .from(productTagsTable)
+      .innerJoin(tagsTable, eq(productTagsTable.tag_id, tagsTable.id))
+      .where(eq(productTagsTable.product_id, productId))
+      .orderBy(asc(tagsTable.name))
+      .execute();
+
+    return rows.map(row => row.tag);
+  } catch (error) {
+    console.error('Failed to get product tags:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for tagging a product
+ * This handler replaces the product's tags with the given ones
+ */
+export async function setProductTags(input: SetProductTagsInput): Promise<Tag[]> {
+  try {
+    const product = await db.select({ id: productsTable.id })
+      .from(productsTable)
+      .where(and(
+        eq(productsTable.id, input.product_id),
+        isNull(productsTable.deleted_at)
+      ))
+      .execute();
+
+    if (product.length === 0) {
+      throw new Error(`Product with id ${input.product_id} not found`);
+    }
+
+    const tagIds = [...new Set(input.tag_ids)];
+    if (tagIds.length > 0) {
+      const tags = await db.select({ id: tagsTable.id })
+        .from(tagsTable)
+        .where(inArray(tagsTable.id, tagIds))
+        .execute();
+
+      const missing = tagIds.filter(id => !tags.some(tag => tag.id === id));
+      if (missing.length > 0) {
+        throw new Error(`Tag with id ${missing[0]} not found`);
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(productTagsTable)
+        .where(eq(productTagsTable.product_id, input.product_id))
+        .execute();
+
+      if (tagIds.length > 0) {
+        await tx.insert(productTagsTable)
+          .values(tagIds.map(tagId => ({ product_id: input.product_id, tag_id: tagId })))
+          .execute();
+      }
+    });
+
+    return await getProductTags(input.product_id);
+  } catch (error) {
+    console.error('Setting product tags failed:', error);
+    throw error;
+  }
+}
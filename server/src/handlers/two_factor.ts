@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { recoveryCodesTable, usersTable } from '../db/schema';
+import { type DisableTwoFactorInput } from '../schema';
+import { eq, and, isNull, count, or, lt } from 'drizzle-orm';
+import { buildTotpProvisioningUri, generateTotpSecret, verifyTotpCode } from '../lib/totp';
+import { verifyPassword } from '../lib/password';
+import { hashOpaqueToken } from '../lib/tokens';
+import { getSettingValue } from './settings';
+
+// Number of recovery codes handed out on enrollment or regeneration
+const RECOVERY_CODE_COUNT = 10;
+
+const RECOVERY_CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+// Recovery codes look like "k7m2p-x9qrt"; dashes and case are ignored when checking them
+function generateRecoveryCode(): string {
+  const bytes = crypto.randomBytes(10);
+  const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Replaces all of the user's recovery codes, returning the new plaintext codes
+async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await db.delete(recoveryCodesTable)
+    .where(eq(recoveryCodesTable.user_id, userId))
+    .execute();
+
+  await db.insert(recoveryCodesTable)
+    .values(codes.map(code => ({
+      user_id: userId,
+      code_hash: hashOpaqueToken(normalizeRecoveryCode(code))
+    })))
+    .execute();
+
+  return codes;
+}
+
+// Accepts a TOTP code once per time step, recording the step so it cannot be replayed
+async function consumeTotpCode(user: typeof usersTable.$inferSelect, code: string): Promise<boolean> {
+  if (!user.totp_secret) {
+    return false;
+  }
+
+  const step = verifyTotpCode(user.totp_secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  const result = await db.update(usersTable)
+    .set({ totp_last_used_step: step })
+    .where(and(
+      eq(usersTable.id, user.id),
+      or(isNull(usersTable.totp_last_used_step), lt(usersTable.totp_last_used_step, step))
+    ))
+    .returning()
+    .execute();
+
+  return result.length > 0;
+}
+
+async function consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const result = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(recoveryCodesTable.user_id, userId),
+      eq(recoveryCodesTable.code_hash, hashOpaqueToken(normalizeRecoveryCode(code))),
+      isNull(recoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return result.length > 0;
+}
+
+async function findUser(userId: number): Promise<typeof usersTable.$inferSelect | null> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  return users.length > 0 ? users[0] : null;
+}
+
+async function isAdminTwoFactorRequired(): Promise<boolean> {
+  return (await getSettingValue('require_admin_two_factor')) === 'true';
+}
+
+/**
+ * Handler for checking a second factor
+ * This handler accepts either a current TOTP code or an unused recovery code,
+ * consuming it so it cannot be used again
+ */
+export async function verifySecondFactor(userId: number, code: string): Promise<boolean> {
+  try {
+    const user = await findUser(userId);
+    if (!user || !user.totp_enabled_at) {
+      return false;
+    }
+
+    if (await consumeTotpCode(user, code)) {
+      return true;
+    }
+
+    return await consumeRecoveryCode(user.id, code);
+  } catch (error) {
+    console.error('Second factor verification failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting a user's two-factor status
+ * This handler reports whether 2FA is on, whether it is mandatory and how many recovery codes remain
+ */
+export async function getTwoFactorStatus(userId: number): Promise<{ enabled: boolean; required: boolean; recovery_codes_remaining: number }> {
+  try {
+    const user = await findUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const remaining = await db.select({ count: count() })
+      .from(recoveryCodesTable)
+      .where(and(
+        eq(recoveryCodesTable.user_id, userId),
+        isNull(recoveryCodesTable.used_at)
+      ))
+      .execute();
+
+    return {
+      enabled: user.totp_enabled_at !== null,
+      required: user.role === 'admin' && await isAdminTwoFactorRequired(),
+      recovery_codes_remaining: remaining[0].count
+    };
+  } catch (error) {
+    console.error('Failed to get two-factor status:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for checking the mandatory admin 2FA policy
+ * This handler returns false only for admins without 2FA while the setting requires it
+ */
+export async function isTwoFactorPolicySatisfied(user: { id: number; role: 'admin' | 'customer' }): Promise<boolean> {
+  try {
+    if (user.role !== 'admin' || !(await isAdminTwoFactorRequired())) {
+      return true;
+    }
+
+    const found = await findUser(user.id);
+    return found !== null && found.totp_enabled_at !== null;
+  } catch (error) {
+    console.error('Two-factor policy check failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for starting TOTP enrollment
+ * This handler generates a new pending secret and returns it with the provisioning URI for authenticator apps
+ */
+export async function beginTotpEnrollment(userId: number): Promise<{ secret: string; provisioning_uri: string }> {
+  try {
+    const user = await findUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.totp_enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await db.update(usersTable)
+      .set({
+        totp_secret: secret,
+        totp_last_used_step: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const issuer = (await getSettingValue('site_name')) || 'Digital Store';
+
+    return {
+      secret,
+      provisioning_uri: buildTotpProvisioningUri(secret, user.email, issuer)
+    };
+  } catch (error) {
+    console.error('TOTP enrollment failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for confirming TOTP enrollment
+ * This handler checks a code from the authenticator app against the pending secret,
+ * enables 2FA and returns the one-time recovery codes
+ */
+export async function confirmTotpEnrollment(userId: number, code: string): Promise<{ success: boolean; recovery_codes?: string[]; error?: string }> {
+  try {
+    const user = await findUser(userId);
+    if (!user || !user.totp_secret) {
+      return { success: false, error: 'No two-factor enrollment in progress' };
+    }
+
+    if (user.totp_enabled_at) {
+      return { success: false, error: 'Two-factor authentication is already enabled' };
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      return { success: false, error: 'Invalid authentication code' };
+    }
+
+    await db.update(usersTable)
+      .set({
+        totp_enabled_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+
+    return { success: true, recovery_codes: recoveryCodes };
+  } catch (error) {
+    console.error('TOTP enrollment confirmation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for regenerating recovery codes
+ * This handler requires a current TOTP code and invalidates all previous recovery codes
+ */
+export async function regenerateRecoveryCodes(userId: number, code: string): Promise<{ success: boolean; recovery_codes?: string[]; error?: string }> {
+  try {
+    const user = await findUser(userId);
+    if (!user || !user.totp_enabled_at) {
+      return { success: false, error: 'Two-factor authentication is not enabled' };
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      return { success: false, error: 'Invalid authentication code' };
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+
+    return { success: true, recovery_codes: recoveryCodes };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for turning off two-factor authentication
+ * This handler requires the password and a second factor, and refuses while 2FA is mandatory for admins
+ */
+export async function disableTotp(userId: number, input: DisableTwoFactorInput): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await findUser(userId);
+    if (!user || !user.totp_enabled_at) {
+      return { success: false, error: 'Two-factor authentication is not enabled' };
+    }
+
+    if (user.role === 'admin' && await isAdminTwoFactorRequired()) {
+      return { success: false, error: 'Two-factor authentication is required for admin accounts' };
+    }
+
+    const { valid } = await verifyPassword(input.password, user.password_hash);
+    if (!valid) {
+      return { success: false, error: 'Password is incorrect' };
+    }
+
+    if (!(await verifySecondFactor(userId, input.code))) {
+      return { success: false, error: 'Invalid authentication code' };
+    }
+
+    await db.update(usersTable)
+      .set({
+        totp_secret: null,
+        totp_enabled_at: null,
+        totp_last_used_step: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await db.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Disabling two-factor authentication failed:', error);
+    throw error;
+  }
+}
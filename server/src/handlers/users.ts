@@ -0,0 +1,218 @@
+import { db } from '../db';
+import { usersTable, ordersTable, sessionsTable } from '../db/schema';
+import {
+  type User,
+  type UserFilters,
+  type UpdateUserRoleInput,
+  type SetUserActiveInput
+} from '../schema';
+import { eq, and, or, ilike, desc, count, sum, inArray, isNull, gt, sql, type SQL } from 'drizzle-orm';
+import { toPublicUser } from './auth';
+import { revokeAllSessions } from './sessions';
+import { getOrdersByUser } from './orders';
+import { getUserReviews } from './reviews';
+import { getCartItems } from './cart';
+
+// Order statuses that count towards a customer's lifetime spend
+const SPEND_STATUSES: ('paid' | 'completed')[] = ['paid', 'completed'];
+
+async function findUser(userId: number): Promise<typeof usersTable.$inferSelect | null> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  return users.length > 0 ? users[0] : null;
+}
+
+/**
+ * Handler for listing users
+ * This handler returns a page of users, optionally searched by email or name and filtered by role and status
+ */
+export async function getUsers(filters: UserFilters = { page: 1, limit: 10 }): Promise<{ users: Omit<User, 'password_hash'>[], total: number, page: number, limit: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filters.search) {
+      const searchPattern = `%${filters.search.trim()}%`;
+      const searchCondition = or(
+        ilike(usersTable.email, searchPattern),
+        ilike(usersTable.first_name, searchPattern),
+        ilike(usersTable.last_name, searchPattern),
+        ilike(sql`${usersTable.first_name} || ' ' || ${usersTable.last_name}`, searchPattern)
+      );
+      if (searchCondition) {
+        conditions.push(searchCondition);
+      }
+    }
+
+    if (filters.role) {
+      conditions.push(eq(usersTable.role, filters.role));
+    }
+
+    if (filters.is_active !== undefined) {
+      conditions.push(eq(usersTable.is_active, filters.is_active));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(whereClause)
+      .orderBy(desc(usersTable.created_at), desc(usersTable.id))
+      .limit(filters.limit)
+      .offset((filters.page - 1) * filters.limit)
+      .execute();
+
+    const [{ count: totalCount }] = await db.select({ count: count() })
+      .from(usersTable)
+      .where(whereClause)
+      .execute();
+
+    return {
+      users: users.map(toPublicUser),
+      total: totalCount,
+      page: filters.page,
+      limit: filters.limit
+    };
+  } catch (error) {
+    console.error('Failed to get users:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting a user's full profile for admins
+ * This handler aggregates the user's orders, reviews, cart, lifetime spend and account security state
+ */
+export async function getUserDetails(userId: number) {
+  try {
+    const user = await findUser(userId);
+    if (!user) {
+      return null;
+    }
+
+    const [orders, reviews, cartItems, spendResult, sessionResult] = await Promise.all([
+      getOrdersByUser(userId),
+      getUserReviews(userId),
+      getCartItems(userId),
+      db.select({ total: sum(ordersTable.total_amount) })
+        .from(ordersTable)
+        .where(and(
+          eq(ordersTable.user_id, userId),
+          inArray(ordersTable.status, SPEND_STATUSES)
+        ))
+        .execute(),
+      db.select({ count: count() })
+        .from(sessionsTable)
+        .where(and(
+          eq(sessionsTable.user_id, userId),
+          isNull(sessionsTable.revoked_at),
+          gt(sessionsTable.expires_at, new Date())
+        ))
+        .execute()
+    ]);
+
+    return {
+      user: toPublicUser(user),
+      orders,
+      reviews,
+      cart: {
+        items: cartItems,
+        item_count: cartItems.reduce((total, item) => total + item.quantity, 0),
+        subtotal: cartItems.reduce((total, item) => total + item.variant.price * item.quantity, 0)
+      },
+      stats: {
+        order_count: orders.length,
+        review_count: reviews.length,
+        lifetime_spend: parseFloat(spendResult[0]?.total || '0')
+      },
+      security: {
+        locked_until: user.locked_until,
+        failed_login_attempts: user.failed_login_attempts,
+        two_factor_enabled: user.totp_enabled_at !== null,
+        active_sessions: sessionResult[0].count
+      }
+    };
+  } catch (error) {
+    console.error('Failed to get user details:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for changing a user's role
+ * This handler promotes or demotes a user and signs them out everywhere so the new role takes effect
+ */
+export async function updateUserRole(input: UpdateUserRoleInput, actingUserId: number): Promise<Omit<User, 'password_hash'>> {
+  try {
+    if (input.user_id === actingUserId) {
+      throw new Error('You cannot change your own role');
+    }
+
+    const user = await findUser(input.user_id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.role === input.role) {
+      return toPublicUser(user);
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        role: input.role,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, input.user_id))
+      .returning()
+      .execute();
+
+    // Access tokens carry the role, so existing sessions must not outlive the change
+    await revokeAllSessions(input.user_id);
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Failed to update user role:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for activating or deactivating a user
+ * This handler toggles the account status, revoking all sessions on deactivation
+ */
+export async function setUserActive(input: SetUserActiveInput, actingUserId: number): Promise<Omit<User, 'password_hash'>> {
+  try {
+    if (input.user_id === actingUserId && !input.is_active) {
+      throw new Error('You cannot deactivate your own account');
+    }
+
+    const user = await findUser(input.user_id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.deleted_at && input.is_active) {
+      throw new Error('Deleted accounts cannot be reactivated');
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        is_active: input.is_active,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, input.user_id))
+      .returning()
+      .execute();
+
+    if (!input.is_active) {
+      await revokeAllSessions(input.user_id);
+    }
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Failed to update user status:', error);
+    throw error;
+  }
+}
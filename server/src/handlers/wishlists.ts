@@ -0,0 +1,568 @@
+import { db } from '../db';
+import { wishlistsTable, wishlistItemsTable, productsTable, productVariantsTable, cartItemsTable, usersTable } from '../db/schema';
+import {
+  type Wishlist,
+  type WishlistItem,
+  type WishlistItemDetails,
+  type CreateWishlistInput,
+  type UpdateWishlistInput,
+  type SetWishlistSharingInput,
+  type AddToWishlistInput,
+  type MoveWishlistItemToCartInput,
+  type MoveCartItemToWishlistInput,
+  type CartItem
+} from '../schema';
+import { eq, and, asc, count, isNull } from 'drizzle-orm';
+import { generateOpaqueToken } from '../lib/tokens';
+import { sendMail } from '../lib/mail';
+import { getMailSender } from './auth';
+import { addCartItem } from './cart';
+import { productUnavailability } from './product_variants';
+
+// Name of the list cart items are moved to when no list is given
+const SAVED_FOR_LATER_NAME = 'Saved for later';
+
+function toWishlistItem(row: typeof wishlistItemsTable.$inferSelect): WishlistItem {
+  return {
+    ...row,
+    last_seen_price: parseFloat(row.last_seen_price)
+  };
+}
+
+/**
+ * The price and stock state a wishlist item tracks: the chosen variant's, or the product's when any variant will do
+ */
+function trackedState(
+  product: typeof productsTable.$inferSelect,
+  variant: typeof productVariantsTable.$inferSelect | null
+): { price: number; in_stock: boolean } {
+  return variant
+    ? { price: parseFloat(variant.price), in_stock: variant.stock_quantity > 0 }
+    : { price: parseFloat(product.price), in_stock: product.stock_quantity > 0 };
+}
+
+async function findOwnWishlist(id: number, userId: number): Promise<typeof wishlistsTable.$inferSelect | null> {
+  const results = await db.select()
+    .from(wishlistsTable)
+    .where(and(
+      eq(wishlistsTable.id, id),
+      eq(wishlistsTable.user_id, userId)
+    ))
+    .execute();
+
+  return results.length > 0 ? results[0] : null;
+}
+
+async function getWishlistItems(wishlistId: number): Promise<WishlistItemDetails[]> {
+  const rows = await db.select({
+    item: wishlistItemsTable,
+    product: productsTable,
+    variant: productVariantsTable
+  })
+    .from(wishlistItemsTable)
+    .innerJoin(productsTable, eq(wishlistItemsTable.product_id, productsTable.id))
+    .leftJoin(productVariantsTable, eq(wishlistItemsTable.variant_id, productVariantsTable.id))
+    .where(eq(wishlistItemsTable.wishlist_id, wishlistId))
+    .orderBy(asc(wishlistItemsTable.created_at), asc(wishlistItemsTable.id))
+    .execute();
+
+  return rows.map(({ item, product, variant }) => {
+    const state = trackedState(product, variant);
+    return {
+      ...toWishlistItem(item),
+      product: {
+        id: product.id,
+        name: product.name,
+        image_url: product.image_url,
+        price: state.price,
+        in_stock: state.in_stock,
+        is_available: productUnavailability(product) === null && (variant === null || variant.is_active)
+      },
+      variant: variant ? { id: variant.id, name: variant.name } : null
+    };
+  });
+}
+
+/**
+ * Adds a product to a list unless the same product and variant is already on it
+ */
+async function addWishlistItem(wishlistId: number, productId: number, variantId: number | null): Promise<WishlistItem> {
+  const product = await db.select()
+    .from(productsTable)
+    .where(and(
+      eq(productsTable.id, productId),
+      isNull(productsTable.deleted_at)
+    ))
+    .execute();
+
+  if (product.length === 0) {
+    throw new Error(`Product with id ${productId} not found`);
+  }
+
+  let variant: typeof productVariantsTable.$inferSelect | null = null;
+  if (variantId !== null) {
+    const variants = await db.select()
+      .from(productVariantsTable)
+      .where(and(
+        eq(productVariantsTable.id, variantId),
+        eq(productVariantsTable.product_id, productId)
+      ))
+      .execute();
+
+    if (variants.length === 0) {
+      throw new Error(`Product variant with id ${variantId} not found`);
+    }
+    variant = variants[0];
+  }
+
+  // The unique constraint settles concurrent adds of the same item; whoever loses gets the existing row
+  const state = trackedState(product[0], variant);
+  const inserted = await db.insert(wishlistItemsTable)
+    .values({
+      wishlist_id: wishlistId,
+      product_id: productId,
+      variant_id: variantId,
+      last_seen_price: state.price.toString(),
+      last_seen_in_stock: state.in_stock
+    })
+    .onConflictDoNothing()
+    .returning()
+    .execute();
+
+  if (inserted.length > 0) {
+    return toWishlistItem(inserted[0]);
+  }
+
+  const existing = await db.select()
+    .from(wishlistItemsTable)
+    .where(and(
+      eq(wishlistItemsTable.wishlist_id, wishlistId),
+      eq(wishlistItemsTable.product_id, productId),
+      variantId === null ? isNull(wishlistItemsTable.variant_id) : eq(wishlistItemsTable.variant_id, variantId)
+    ))
+    .execute();
+
+  return toWishlistItem(existing[0]);
+}
+
+/**
+ * Handler for creating a wishlist
+ * This handler creates a new, unshared named list for the user
+ */
+export async function createWishlist(input: CreateWishlistInput, userId: number): Promise<Wishlist> {
+  try {
+    const result = await db.insert(wishlistsTable)
+      .values({
+        user_id: userId,
+        name: input.name
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Wishlist creation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting a user's wishlists
+ * This handler lists the user's wishlists, oldest first, with the number of items on each
+ */
+export async function getWishlists(userId: number): Promise<(Wishlist & { item_count: number })[]> {
+  try {
+    return await db.select({
+      id: wishlistsTable.id,
+      user_id: wishlistsTable.user_id,
+      name: wishlistsTable.name,
+      share_token: wishlistsTable.share_token,
+      created_at: wishlistsTable.created_at,
+      updated_at: wishlistsTable.updated_at,
+      item_count: count(wishlistItemsTable.id)
+    })
+      .from(wishlistsTable)
+      .leftJoin(wishlistItemsTable, eq(wishlistItemsTable.wishlist_id, wishlistsTable.id))
+      .where(eq(wishlistsTable.user_id, userId))
+      .groupBy(wishlistsTable.id)
+      .orderBy(asc(wishlistsTable.created_at), asc(wishlistsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get wishlists:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting one of the user's wishlists
+ * This handler returns the list with its items and their current price and availability, or null when not found
+ */
+export async function getWishlistById(id: number, userId: number): Promise<(Wishlist & { items: WishlistItemDetails[] }) | null> {
+  try {
+    const wishlist = await findOwnWishlist(id, userId);
+
+    if (!wishlist) {
+      return null;
+    }
+
+    return { ...wishlist, items: await getWishlistItems(wishlist.id) };
+  } catch (error) {
+    console.error('Failed to get wishlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for getting a shared wishlist
+ * This handler returns a list by its share token for anyone holding the link, without the owner's details
+ */
+export async function getSharedWishlist(shareToken: string): Promise<{ name: string; items: WishlistItemDetails[] } | null> {
+  try {
+    const results = await db.select()
+      .from(wishlistsTable)
+      .where(eq(wishlistsTable.share_token, shareToken))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return { name: results[0].name, items: await getWishlistItems(results[0].id) };
+  } catch (error) {
+    console.error('Failed to get shared wishlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for renaming a wishlist
+ * This handler renames one of the user's lists and returns null when it is not found
+ */
+export async function updateWishlist(input: UpdateWishlistInput, userId: number): Promise<Wishlist | null> {
+  try {
+    const results = await db.update(wishlistsTable)
+      .set({ name: input.name, updated_at: new Date() })
+      .where(and(
+        eq(wishlistsTable.id, input.id),
+        eq(wishlistsTable.user_id, userId)
+      ))
+      .returning()
+      .execute();
+
+    return results.length > 0 ? results[0] : null;
+  } catch (error) {
+    console.error('Wishlist update failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for sharing a wishlist
+ * This handler issues a public share token for the list, or revokes it so old links stop working
+ */
+export async function setWishlistSharing(input: SetWishlistSharingInput, userId: number): Promise<Wishlist | null> {
+  try {
+    const wishlist = await findOwnWishlist(input.id, userId);
+
+    if (!wishlist) {
+      return null;
+    }
+
+    if (input.shared && wishlist.share_token) {
+      return wishlist;
+    }
+
+    const results = await db.update(wishlistsTable)
+      .set({
+        share_token: input.shared ? generateOpaqueToken() : null,
+        updated_at: new Date()
+      })
+      .where(eq(wishlistsTable.id, wishlist.id))
+      .returning()
+      .execute();
+
+    return results[0];
+  } catch (error) {
+    console.error('Wishlist sharing update failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for deleting a wishlist
+ * This handler deletes one of the user's lists together with its items
+ */
+export async function deleteWishlist(id: number, userId: number): Promise<boolean> {
+  try {
+    const wishlist = await findOwnWishlist(id, userId);
+
+    if (!wishlist) {
+      return false;
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(wishlistItemsTable)
+        .where(eq(wishlistItemsTable.wishlist_id, id))
+        .execute();
+      await tx.delete(wishlistsTable)
+        .where(eq(wishlistsTable.id, id))
+        .execute();
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Wishlist deletion failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for adding a product to a wishlist
+ * This handler adds the product, optionally a specific variant, to one of the user's lists.
+ * Adding something already on the list returns the existing item
+ */
+export async function addToWishlist(input: AddToWishlistInput, userId: number): Promise<WishlistItem> {
+  try {
+    const wishlist = await findOwnWishlist(input.wishlist_id, userId);
+
+    if (!wishlist) {
+      throw new Error('Wishlist not found');
+    }
+
+    return await addWishlistItem(wishlist.id, input.product_id, input.variant_id ?? null);
+  } catch (error) {
+    console.error('Add to wishlist failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for removing an item from a wishlist
+ * This handler removes an item from one of the user's lists
+ */
+export async function removeFromWishlist(itemId: number, userId: number): Promise<boolean> {
+  try {
+    const item = await db.select({ id: wishlistItemsTable.id })
+      .from(wishlistItemsTable)
+      .innerJoin(wishlistsTable, eq(wishlistItemsTable.wishlist_id, wishlistsTable.id))
+      .where(and(
+        eq(wishlistItemsTable.id, itemId),
+        eq(wishlistsTable.user_id, userId)
+      ))
+      .execute();
+
+    if (item.length === 0) {
+      return false;
+    }
+
+    await db.delete(wishlistItemsTable)
+      .where(eq(wishlistItemsTable.id, itemId))
+      .execute();
+
+    return true;
+  } catch (error) {
+    console.error('Remove from wishlist failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for moving a wishlist item to the cart
+ * This handler adds the item to the user's cart with the usual availability and stock checks,
+ * then takes it off the list. A variant must be given for items saved without one when the product has several
+ */
+export async function moveWishlistItemToCart(input: MoveWishlistItemToCartInput, userId: number): Promise<CartItem | null> {
+  try {
+    const rows = await db.select({ item: wishlistItemsTable })
+      .from(wishlistItemsTable)
+      .innerJoin(wishlistsTable, eq(wishlistItemsTable.wishlist_id, wishlistsTable.id))
+      .where(and(
+        eq(wishlistItemsTable.id, input.item_id),
+        eq(wishlistsTable.user_id, userId)
+      ))
+      .execute();
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const item = rows[0].item;
+    const cartItem = await addCartItem(userId, {
+      product_id: item.product_id,
+      variant_id: input.variant_id ?? item.variant_id ?? undefined,
+      quantity: input.quantity
+    });
+
+    await db.delete(wishlistItemsTable)
+      .where(eq(wishlistItemsTable.id, item.id))
+      .execute();
+
+    return cartItem;
+  } catch (error) {
+    console.error('Move to cart failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for moving a cart item to a wishlist
+ * This handler saves the cart item's product and variant on one of the user's lists, creating the
+ * "Saved for later" list when none is given, and removes it from the cart
+ */
+export async function moveCartItemToWishlist(input: MoveCartItemToWishlistInput, userId: number): Promise<WishlistItem | null> {
+  try {
+    const cartItem = await db.select()
+      .from(cartItemsTable)
+      .where(and(
+        eq(cartItemsTable.id, input.cart_item_id),
+        eq(cartItemsTable.user_id, userId)
+      ))
+      .execute();
+
+    if (cartItem.length === 0) {
+      return null;
+    }
+
+    let wishlistId: number;
+    if (input.wishlist_id !== undefined) {
+      const wishlist = await findOwnWishlist(input.wishlist_id, userId);
+      if (!wishlist) {
+        throw new Error('Wishlist not found');
+      }
+      wishlistId = wishlist.id;
+    } else {
+      const savedForLater = await db.select({ id: wishlistsTable.id })
+        .from(wishlistsTable)
+        .where(and(
+          eq(wishlistsTable.user_id, userId),
+          eq(wishlistsTable.name, SAVED_FOR_LATER_NAME)
+        ))
+        .orderBy(asc(wishlistsTable.id))
+        .limit(1)
+        .execute();
+
+      wishlistId = savedForLater.length > 0
+        ? savedForLater[0].id
+        : (await createWishlist({ name: SAVED_FOR_LATER_NAME }, userId)).id;
+    }
+
+    const item = await addWishlistItem(wishlistId, cartItem[0].product_id, cartItem[0].variant_id);
+
+    await db.delete(cartItemsTable)
+      .where(eq(cartItemsTable.id, cartItem[0].id))
+      .execute();
+
+    return item;
+  } catch (error) {
+    console.error('Move to wishlist failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handler for sending wishlist alerts
+ * This handler compares every wishlisted product on sale with the price and stock state the user last saw,
+ * mails each user one summary of price drops and restocks, and records the new state once the user's mail
+ * is sent, so each change is announced once and a failed delivery is retried on the next run.
+ * It runs as a recurring job and returns the number of emails sent
+ */
+export async function sendWishlistAlerts(): Promise<number> {
+  try {
+    const rows = await db.select({
+      item: wishlistItemsTable,
+      product: productsTable,
+      variant: productVariantsTable,
+      user: {
+        id: usersTable.id,
+        email: usersTable.email,
+        first_name: usersTable.first_name
+      }
+    })
+      .from(wishlistItemsTable)
+      .innerJoin(wishlistsTable, eq(wishlistItemsTable.wishlist_id, wishlistsTable.id))
+      .innerJoin(usersTable, eq(wishlistsTable.user_id, usersTable.id))
+      .innerJoin(productsTable, eq(wishlistItemsTable.product_id, productsTable.id))
+      .leftJoin(productVariantsTable, eq(wishlistItemsTable.variant_id, productVariantsTable.id))
+      .where(and(
+        eq(usersTable.is_active, true),
+        isNull(usersTable.deleted_at)
+      ))
+      .orderBy(asc(wishlistItemsTable.id))
+      .execute();
+
+    // Changed items per user, with the lines worth announcing
+    const changes = new Map<number, {
+      email: string;
+      first_name: string;
+      lines: Set<string>;
+      items: { id: number; price: number; in_stock: boolean }[];
+    }>();
+
+    for (const { item, product, variant, user } of rows) {
+      // Nothing to announce while the product cannot be bought; the change is picked up once it can
+      if (productUnavailability(product) !== null || (variant && !variant.is_active)) {
+        continue;
+      }
+
+      const state = trackedState(product, variant);
+      const lastSeenPrice = parseFloat(item.last_seen_price);
+      if (state.price === lastSeenPrice && state.in_stock === item.last_seen_in_stock) {
+        continue;
+      }
+
+      const change = changes.get(user.id) ?? { email: user.email, first_name: user.first_name, lines: new Set<string>(), items: [] };
+      changes.set(user.id, change);
+      change.items.push({ id: item.id, ...state });
+
+      const label = variant ? `${product.name} (${variant.name})` : product.name;
+      if (state.in_stock && !item.last_seen_in_stock) {
+        change.lines.add(`${label} is back in stock at ${state.price.toFixed(2)}`);
+      } else if (state.in_stock && state.price < lastSeenPrice) {
+        change.lines.add(`${label} dropped from ${lastSeenPrice.toFixed(2)} to ${state.price.toFixed(2)}`);
+      }
+    }
+
+    if (changes.size === 0) {
+      return 0;
+    }
+
+    const { from, siteName, smtp } = await getMailSender();
+    let sent = 0;
+
+    for (const change of changes.values()) {
+      // One user's failed delivery must not hold back everyone else's alerts
+      try {
+        if (change.lines.size > 0) {
+          await sendMail({
+            to: change.email,
+            from,
+            subject: `Good news about your ${siteName} wishlist`,
+            text: [
+              `Hi ${change.first_name},`,
+              '',
+              'Some items on your wishlist have changed:',
+              ...[...change.lines].map(line => `- ${line}`)
+            ].join('\n')
+          }, smtp);
+          sent++;
+        }
+
+        await db.transaction(async (tx) => {
+          for (const item of change.items) {
+            await tx.update(wishlistItemsTable)
+              .set({ last_seen_price: item.price.toString(), last_seen_in_stock: item.in_stock })
+              .where(eq(wishlistItemsTable.id, item.id))
+              .execute();
+          }
+        });
+      } catch (error) {
+        console.error(`Wishlist alert for ${change.email} failed:`, error);
+      }
+    }
+
+    return sent;
+  } catch (error) {
+    console.error('Sending wishlist alerts failed:', error);
+    throw error;
+  }
+}
@@ -2,8 +2,10 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { invalidateSettingsCache } from '../handlers/settings';
 
 export const resetDB = async () => {
+  invalidateSettingsCache();
   await db.execute(sql`drop schema if exists public cascade`);
   await db.execute(sql`create schema public`);
   await db.execute(sql`drop schema if exists drizzle cascade`);
@@ -14,5 +16,7 @@ export const createDB = async () => {
     generateDrizzleJson({}),
     generateDrizzleJson({ ...schema })
   );
+  // Trigram similarity backs the product search suggestions
+  await db.execute(sql`create extension if not exists pg_trgm`);
   await db.execute(migrationStatements.join('\n'));
 };
@@ -1,25 +1,59 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
+import { isIP } from 'net';
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { type ReadableStream as WebReadableStream } from 'stream/web';
 import superjson from 'superjson';
 import { z } from 'zod';
+import { scheduleJob } from './lib/jobs';
 
 // Import all schemas
 import {
   // Auth schemas
   createUserInputSchema,
   loginInputSchema,
+  refreshTokenInputSchema,
+  verifyEmailInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  changePasswordInputSchema,
+  twoFactorLoginInputSchema,
+  twoFactorCodeInputSchema,
+  disableTwoFactorInputSchema,
   
   // Category schemas
   createCategoryInputSchema,
   updateCategoryInputSchema,
+  deleteCategoryInputSchema,
+  setCategoryFeaturedProductsInputSchema,
   
   // Product schemas
   createProductInputSchema,
   updateProductInputSchema,
+  createProductVariantInputSchema,
+  updateProductVariantInputSchema,
+  publishReleaseInputSchema,
+  setReleaseDeprecatedInputSchema,
+  addProductMediaInputSchema,
+  updateProductMediaInputSchema,
+  reorderProductMediaInputSchema,
+  exportProductsInputSchema,
+  importProductsInputSchema,
   productFiltersSchema,
   
+  // Tag and attribute schemas
+  createTagInputSchema,
+  updateTagInputSchema,
+  mergeTagsInputSchema,
+  setProductTagsInputSchema,
+  createAttributeInputSchema,
+  updateAttributeInputSchema,
+  setProductAttributesInputSchema,
+  
   // Coupon schemas
   createCouponInputSchema,
   updateCouponInputSchema,
@@ -28,9 +62,28 @@ import {
   createOrderInputSchema,
   orderFiltersSchema,
   
+  // User management schemas
+  userFiltersSchema,
+  updateUserRoleInputSchema,
+  setUserActiveInputSchema,
+  
+  // Account schemas
+  updateProfileInputSchema,
+  changeEmailInputSchema,
+  deleteAccountInputSchema,
+  
   // Cart schemas
   addToCartInputSchema,
   updateCartItemInputSchema,
+  addToGuestCartInputSchema,
+  
+  // Wishlist schemas
+  createWishlistInputSchema,
+  updateWishlistInputSchema,
+  setWishlistSharingInputSchema,
+  addToWishlistInputSchema,
+  moveWishlistItemToCartInputSchema,
+  moveCartItemToWishlistInputSchema,
   
   // Review schemas
   createReviewInputSchema,
@@ -43,19 +96,60 @@ import {
   contactFormSchema,
   
   // Analytics schemas
-  trackEventInputSchema,
+  clientTrackEventInputSchema,
   
   // Settings schema
   updateSettingInputSchema
 } from './schema';
 
 // Import all handlers
-import { registerUser, loginUser, getCurrentUser } from './handlers/auth';
+import { 
+  registerUser, 
+  loginUser, 
+  authenticate, 
+  verifyEmail, 
+  resendVerificationEmail, 
+  requestPasswordReset, 
+  resetPassword, 
+  changePassword, 
+  completeTwoFactorLogin, 
+  getEmailVerificationWarning 
+} from './handlers/auth';
+import { 
+  refreshSession, 
+  listSessions, 
+  revokeSession, 
+  revokeAllSessions 
+} from './handlers/sessions';
+import { LoginThrottledError, unlockUser } from './handlers/login_attempts';
+import { 
+  getTwoFactorStatus, 
+  isTwoFactorPolicySatisfied, 
+  beginTotpEnrollment, 
+  confirmTotpEnrollment, 
+  regenerateRecoveryCodes, 
+  disableTotp 
+} from './handlers/two_factor';
+import { 
+  getUsers, 
+  getUserDetails, 
+  updateUserRole, 
+  setUserActive 
+} from './handlers/users';
+import { 
+  updateProfile, 
+  changeEmail, 
+  deleteAccount, 
+  exportAccountData 
+} from './handlers/account';
 import { 
   createCategory, 
   getCategories, 
   getActiveCategories, 
+  getCategoryTree, 
   getCategoryById, 
+  getCategoryBySlug, 
+  setCategoryFeaturedProducts, 
   updateCategory, 
   deleteCategory 
 } from './handlers/categories';
@@ -67,8 +161,55 @@ import {
   getProductsByCategory, 
   updateProduct, 
   deleteProduct, 
-  searchProducts 
+  searchProducts, 
+  suggestProducts, 
+  getRelatedProducts, 
+  getFrequentlyBoughtTogether, 
+  refreshCoPurchaseCounts, 
+  getUpcomingLaunches 
 } from './handlers/products';
+import { 
+  getProductVariants, 
+  productUnavailability, 
+  createProductVariant, 
+  updateProductVariant, 
+  deleteProductVariant 
+} from './handlers/product_variants';
+import { 
+  getProductMedia, 
+  addProductMedia, 
+  updateProductMedia, 
+  reorderProductMedia, 
+  removeProductMedia 
+} from './handlers/product_media';
+import { 
+  exportProducts, 
+  importProducts 
+} from './handlers/product_import_export';
+import { 
+  createTag, 
+  getTags, 
+  updateTag, 
+  deleteTag, 
+  mergeTags, 
+  setProductTags 
+} from './handlers/tags';
+import { 
+  createAttribute, 
+  getAttributes, 
+  updateAttribute, 
+  deleteAttribute, 
+  setProductAttributes 
+} from './handlers/attributes';
+import { 
+  publishRelease, 
+  getProductReleases, 
+  setReleaseDeprecated, 
+  getLicensedReleases, 
+  getReleaseDownload, 
+  resolveReleaseDownload, 
+  RELEASE_DOWNLOAD_PATH 
+} from './handlers/product_releases';
 import { 
   createCoupon, 
   getCoupons, 
@@ -100,6 +241,27 @@ import {
   validateCart, 
   getCartItemCount 
 } from './handlers/cart';
+import { 
+  createGuestCart, 
+  resolveGuestCart, 
+  addToGuestCart, 
+  mergeGuestCart, 
+  deleteExpiredGuestCarts 
+} from './handlers/guest_carts';
+import { 
+  createWishlist, 
+  getWishlists, 
+  getWishlistById, 
+  getSharedWishlist, 
+  updateWishlist, 
+  setWishlistSharing, 
+  deleteWishlist, 
+  addToWishlist, 
+  removeFromWishlist, 
+  moveWishlistItemToCart, 
+  moveCartItemToWishlist, 
+  sendWishlistAlerts 
+} from './handlers/wishlists';
 import { 
   createReview, 
   getProductReviews, 
@@ -141,7 +303,9 @@ import {
   getUserBehaviorAnalytics, 
   generateAnalyticsReport, 
   trackUserSession, 
-  getRealTimeAnalytics 
+  getRealTimeAnalytics, 
+  recordSearchQuery, 
+  getSearchAnalytics 
 } from './handlers/analytics';
 import { 
   getSettings, 
@@ -154,17 +318,153 @@ import {
   validateSettingValue, 
   getSettingsByCategory, 
   backupSettings, 
-  restoreSettings 
+  restoreSettings, 
+  getMaintenanceStatus 
 } from './handlers/settings';
 
-const t = initTRPC.create({
+// Strips the IPv4-mapped prefix Node reports for IPv4 peers on dual-stack sockets
+function normalizeIp(ip: string | undefined): string | null {
+  const trimmed = ip?.trim();
+  return trimmed ? trimmed.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '') : null;
+}
+
+/**
+ * Resolves the client address. X-Forwarded-For is set by the client unless a proxy overwrites it, so it is
+ * only read when the connection comes from a proxy listed in TRUSTED_PROXIES, and then the rightmost
+ * address not added by a trusted proxy is used
+ */
+function resolveClientIp(req: CreateHTTPContextOptions['req']): string | null {
+  const peer = normalizeIp(req.socket.remoteAddress);
+  const trustedProxies = new Set((process.env['TRUSTED_PROXIES'] ?? '').split(',').map(normalizeIp).filter(ip => ip !== null));
+  if (!peer || !trustedProxies.has(peer)) {
+    return peer;
+  }
+
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor ?? '')
+    .split(',')
+    .map(normalizeIp)
+    .filter(ip => ip !== null);
+
+  return hops.reverse().find(ip => !trustedProxies.has(ip)) ?? peer;
+}
+
+// Resolve the calling user from the bearer token, if any, along with request metadata
+async function createContext({ req }: CreateHTTPContextOptions) {
+  const authorization = req.headers.authorization;
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+  const auth = token ? await authenticate(token) : null;
+  const ip = resolveClientIp(req);
+
+  return {
+    user: auth?.user ?? null,
+    sessionId: auth?.session_id ?? null,
+    metadata: {
+      ip_address: ip && isIP(ip) ? ip : null,
+      user_agent: req.headers['user-agent'] ?? null
+    }
+  };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+// Carries the maintenance details so the error formatter can expose them to clients
+class MaintenanceModeError extends Error {
+  constructor(public readonly details: { message: string | null; eta: Date | null }) {
+    super(details.message || 'The store is currently undergoing maintenance');
+  }
+}
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        maintenance: error.cause instanceof MaintenanceModeError ? error.cause.details : null,
+        retry_after_seconds: error.cause instanceof LoginThrottledError ? error.cause.retryAfterSeconds : null
+      }
+    };
+  },
 });
 
-const publicProcedure = t.procedure;
 const router = t.router;
 
-const appRouter = router({
+// How often the "frequently bought together" co-purchase counts are recomputed
+const CO_PURCHASE_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+// How often guest carts past their expiry are deleted
+const GUEST_CART_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// How often wishlisted products are checked for price drops and restocks
+const WISHLIST_ALERT_INTERVAL_MS = 15 * 60 * 1000;
+
+// Procedures that stay reachable during maintenance, so admins can still sign in
+const MAINTENANCE_ALLOWED_PATHS = ['healthcheck', 'auth.login', 'auth.verifyTwoFactor', 'auth.refresh', 'auth.getCurrentUser'];
+
+// Rejects non-admin callers while maintenance mode is on
+const maintenanceGuard = t.middleware(async ({ ctx, path, next }) => {
+  if (ctx.user?.role !== 'admin' && !MAINTENANCE_ALLOWED_PATHS.includes(path)) {
+    const maintenance = await getMaintenanceStatus();
+    if (maintenance.enabled) {
+      const cause = new MaintenanceModeError({ message: maintenance.message, eta: maintenance.eta });
+      throw new TRPCError({ code: 'SERVICE_UNAVAILABLE', message: cause.message, cause });
+    }
+  }
+
+  return next();
+});
+
+const publicProcedure = t.procedure.use(maintenanceGuard);
+
+// Requires a valid access token
+const protectedProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({ ctx: { ...ctx, user: ctx.user, sessionId: ctx.sessionId! } });
+});
+
+// Requires a valid access token belonging to an admin who meets the 2FA policy
+const adminProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (ctx.user.role !== 'admin') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' });
+  }
+
+  if (!(await isTwoFactorPolicySatisfied(ctx.user))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication must be enabled for admin accounts' });
+  }
+
+  return next();
+});
+
+// Surfaces login lockouts as 429 responses carrying the retry delay
+async function withLoginThrottling<T>(attempt: () => Promise<T>): Promise<T> {
+  try {
+    return await attempt();
+  } catch (error) {
+    if (error instanceof LoginThrottledError) {
+      throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
+
+// Customers may only act on their own orders; admins may act on any
+async function assertOrderAccess(user: NonNullable<Context['user']>, orderId: number) {
+  if (user.role === 'admin') {
+    return;
+  }
+
+  const order = await getOrderById(orderId);
+  if (!order || order.user_id !== user.id) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Order not found' });
+  }
+}
+
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -173,50 +473,168 @@ const appRouter = router({
   // Authentication routes
   auth: router({
     register: publicProcedure
-      .input(createUserInputSchema)
-      .mutation(({ input }) => registerUser(input)),
+      .input(createUserInputSchema.omit({ role: true }))
+      .mutation(({ input }) => registerUser({ ...input, role: 'customer' })),
     
     login: publicProcedure
       .input(loginInputSchema)
-      .mutation(({ input }) => loginUser(input)),
+      .mutation(({ ctx, input }) => withLoginThrottling(() => loginUser(input, ctx.metadata))),
+    
+    verifyTwoFactor: publicProcedure
+      .input(twoFactorLoginInputSchema)
+      .mutation(({ ctx, input }) => withLoginThrottling(() => completeTwoFactorLogin(input, ctx.metadata))),
     
     getCurrentUser: publicProcedure
-      .input(z.string())
-      .query(({ input }) => getCurrentUser(input)),
+      .query(({ ctx }) => ctx.user),
+    
+    refresh: publicProcedure
+      .input(refreshTokenInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        const result = await refreshSession(input.refresh_token, ctx.metadata);
+        if (!result) {
+          throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid or expired refresh token' });
+        }
+        return result;
+      }),
+    
+    logout: protectedProcedure
+      .input(z.object({ sessionId: z.number().optional() }).optional())
+      .mutation(({ ctx, input }) => revokeSession(input?.sessionId ?? ctx.sessionId, ctx.user.id)),
+    
+    logoutAll: protectedProcedure
+      .input(z.object({ keepCurrent: z.boolean().default(false) }).optional())
+      .mutation(({ ctx, input }) => revokeAllSessions(ctx.user.id, input?.keepCurrent ? ctx.sessionId : undefined)),
+    
+    listSessions: protectedProcedure
+      .query(({ ctx }) => listSessions(ctx.user.id, ctx.sessionId)),
+    
+    forceLogout: adminProcedure
+      .input(z.number())
+      .mutation(({ input }) => revokeAllSessions(input)),
+    
+    unlockUser: adminProcedure
+      .input(z.number())
+      .mutation(({ input }) => unlockUser(input)),
+    
+    verifyEmail: publicProcedure
+      .input(verifyEmailInputSchema)
+      .mutation(({ input }) => verifyEmail(input.token)),
+    
+    resendVerification: protectedProcedure
+      .mutation(({ ctx }) => resendVerificationEmail(ctx.user.id)),
+    
+    requestPasswordReset: publicProcedure
+      .input(requestPasswordResetInputSchema)
+      .mutation(({ input }) => requestPasswordReset(input.email)),
+    
+    resetPassword: publicProcedure
+      .input(resetPasswordInputSchema)
+      .mutation(({ input }) => resetPassword(input)),
+    
+    changePassword: protectedProcedure
+      .input(changePasswordInputSchema)
+      .mutation(({ ctx, input }) => changePassword(ctx.user.id, input, ctx.sessionId)),
+    
+    // Two-factor authentication (not admin-only, so admins can enroll when it becomes mandatory)
+    getTwoFactorStatus: protectedProcedure
+      .query(({ ctx }) => getTwoFactorStatus(ctx.user.id)),
+    
+    beginTwoFactorEnrollment: protectedProcedure
+      .mutation(({ ctx }) => beginTotpEnrollment(ctx.user.id)),
+    
+    confirmTwoFactorEnrollment: protectedProcedure
+      .input(twoFactorCodeInputSchema)
+      .mutation(({ ctx, input }) => confirmTotpEnrollment(ctx.user.id, input.code)),
+    
+    regenerateRecoveryCodes: protectedProcedure
+      .input(twoFactorCodeInputSchema)
+      .mutation(({ ctx, input }) => regenerateRecoveryCodes(ctx.user.id, input.code)),
+    
+    disableTwoFactor: protectedProcedure
+      .input(disableTwoFactorInputSchema)
+      .mutation(({ ctx, input }) => disableTotp(ctx.user.id, input)),
+  }),
+
+  // Account self-service routes
+  account: router({
+    updateProfile: protectedProcedure
+      .input(updateProfileInputSchema)
+      .mutation(({ ctx, input }) => updateProfile(ctx.user.id, input)),
+    
+    changeEmail: protectedProcedure
+      .input(changeEmailInputSchema)
+      .mutation(({ ctx, input }) => changeEmail(ctx.user.id, input)),
+    
+    deleteAccount: protectedProcedure
+      .input(deleteAccountInputSchema)
+      .mutation(({ ctx, input }) => deleteAccount(ctx.user.id, input)),
+    
+    exportData: protectedProcedure
+      .query(({ ctx }) => exportAccountData(ctx.user.id)),
+  }),
+
+  // User management routes (admin only)
+  users: router({
+    getAll: adminProcedure
+      .input(userFiltersSchema.optional())
+      .query(({ input }) => getUsers(input)),
+    
+    getById: adminProcedure
+      .input(z.number())
+      .query(({ input }) => getUserDetails(input)),
+    
+    updateRole: adminProcedure
+      .input(updateUserRoleInputSchema)
+      .mutation(({ ctx, input }) => updateUserRole(input, ctx.user.id)),
+    
+    setActive: adminProcedure
+      .input(setUserActiveInputSchema)
+      .mutation(({ ctx, input }) => setUserActive(input, ctx.user.id)),
   }),
 
   // Category management routes
   categories: router({
-    create: publicProcedure
+    create: adminProcedure
       .input(createCategoryInputSchema)
       .mutation(({ input }) => createCategory(input)),
     
-    getAll: publicProcedure
+    getAll: adminProcedure
       .query(() => getCategories()),
     
     getActive: publicProcedure
       .query(() => getActiveCategories()),
     
+    getTree: publicProcedure
+      .query(() => getCategoryTree()),
+    
     getById: publicProcedure
       .input(z.number())
-      .query(({ input }) => getCategoryById(input)),
+      .query(({ ctx, input }) => getCategoryById(input, ctx.user?.role === 'admin')),
+    
+    getBySlug: publicProcedure
+      .input(z.string())
+      .query(({ ctx, input }) => getCategoryBySlug(input, ctx.user?.role === 'admin')),
     
-    update: publicProcedure
+    update: adminProcedure
       .input(updateCategoryInputSchema)
       .mutation(({ input }) => updateCategory(input)),
     
-    delete: publicProcedure
-      .input(z.number())
+    setFeaturedProducts: adminProcedure
+      .input(setCategoryFeaturedProductsInputSchema)
+      .mutation(({ input }) => setCategoryFeaturedProducts(input)),
+    
+    delete: adminProcedure
+      .input(deleteCategoryInputSchema)
       .mutation(({ input }) => deleteCategory(input)),
   }),
 
   // Product management routes
   products: router({
-    create: publicProcedure
+    create: adminProcedure
       .input(createProductInputSchema)
       .mutation(({ input }) => createProduct(input)),
     
-    getAll: publicProcedure
+    getAll: adminProcedure
       .input(productFiltersSchema.optional())
       .query(({ input }) => getProducts(input)),
     
@@ -226,7 +644,11 @@ const appRouter = router({
     
     getById: publicProcedure
       .input(z.number())
-      .query(({ input }) => getProductById(input)),
+      .query(async ({ ctx, input }) => {
+        const product = await getProductById(input);
+        // Products that are not on sale (inactive, not yet launched or expired) are only visible to admins
+        return product && (productUnavailability(product) === null || ctx.user?.role === 'admin') ? product : null;
+      }),
     
     getByCategory: publicProcedure
       .input(z.object({
@@ -235,11 +657,11 @@ const appRouter = router({
       }))
       .query(({ input }) => getProductsByCategory(input.categoryId, input.filters)),
     
-    update: publicProcedure
+    update: adminProcedure
       .input(updateProductInputSchema)
       .mutation(({ input }) => updateProduct(input)),
     
-    delete: publicProcedure
+    delete: adminProcedure
       .input(z.number())
       .mutation(({ input }) => deleteProduct(input)),
     
@@ -248,132 +670,373 @@ const appRouter = router({
         query: z.string(),
         filters: productFiltersSchema.omit({ search: true }).optional()
       }))
-      .query(({ input }) => searchProducts(input.query, input.filters)),
+      .query(async ({ ctx, input }) => {
+        const result = await searchProducts(input.query, input.filters);
+        // Count each search once, not once per page
+        if (result.page === 1) {
+          await recordSearchQuery(input.query, result.total, 'search', ctx.user?.id);
+        }
+        return result;
+      }),
+    
+    getVariants: adminProcedure
+      .input(z.number())
+      .query(({ input }) => getProductVariants(input, true)),
+    
+    createVariant: adminProcedure
+      .input(createProductVariantInputSchema)
+      .mutation(({ input }) => createProductVariant(input)),
+    
+    updateVariant: adminProcedure
+      .input(updateProductVariantInputSchema)
+      .mutation(({ input }) => updateProductVariant(input)),
+    
+    deleteVariant: adminProcedure
+      .input(z.number())
+      .mutation(({ input }) => deleteProductVariant(input)),
+    
+    getMedia: adminProcedure
+      .input(z.number())
+      .query(({ input }) => getProductMedia(input)),
+    
+    addMedia: adminProcedure
+      .input(addProductMediaInputSchema)
+      .mutation(({ input }) => addProductMedia(input)),
+    
+    updateMedia: adminProcedure
+      .input(updateProductMediaInputSchema)
+      .mutation(({ input }) => updateProductMedia(input)),
+    
+    reorderMedia: adminProcedure
+      .input(reorderProductMediaInputSchema)
+      .mutation(({ input }) => reorderProductMedia(input)),
+    
+    removeMedia: adminProcedure
+      .input(z.number())
+      .mutation(({ input }) => removeProductMedia(input)),
+    
+    export: adminProcedure
+      .input(exportProductsInputSchema)
+      .query(({ input }) => exportProducts(input.format)),
+    
+    import: adminProcedure
+      .input(importProductsInputSchema)
+      .mutation(({ input }) => importProducts(input)),
+    
+    setTags: adminProcedure
+      .input(setProductTagsInputSchema)
+      .mutation(({ input }) => setProductTags(input)),
+    
+    setAttributes: adminProcedure
+      .input(setProductAttributesInputSchema)
+      .mutation(({ input }) => setProductAttributes(input)),
+    
+    suggest: publicProcedure
+      .input(z.object({
+        query: z.string(),
+        limit: z.number().int().positive().max(20).default(5)
+      }))
+      .query(async ({ ctx, input }) => {
+        const result = await suggestProducts(input.query, input.limit);
+        await recordSearchQuery(input.query, result.completions.length, 'suggest', ctx.user?.id);
+        return result;
+      }),
+    
+    getRelated: publicProcedure
+      .input(z.object({
+        productId: z.number(),
+        limit: z.number().int().positive().max(20).default(4)
+      }))
+      .query(({ input }) => getRelatedProducts(input.productId, input.limit)),
+    
+    getFrequentlyBoughtTogether: publicProcedure
+      .input(z.object({
+        productId: z.number(),
+        limit: z.number().int().positive().max(20).default(4)
+      }))
+      .query(({ input }) => getFrequentlyBoughtTogether(input.productId, input.limit)),
+    
+    refreshCoPurchases: adminProcedure
+      .mutation(() => refreshCoPurchaseCounts()),
+    
+    getUpcomingLaunches: adminProcedure
+      .query(() => getUpcomingLaunches()),
+  }),
+
+  // Tag management routes
+  tags: router({
+    getAll: publicProcedure
+      .query(() => getTags()),
+    
+    create: adminProcedure
+      .input(createTagInputSchema)
+      .mutation(({ input }) => createTag(input)),
+    
+    update: adminProcedure
+      .input(updateTagInputSchema)
+      .mutation(({ input }) => updateTag(input)),
+    
+    delete: adminProcedure
+      .input(z.number())
+      .mutation(({ input }) => deleteTag(input)),
+    
+    merge: adminProcedure
+      .input(mergeTagsInputSchema)
+      .mutation(({ input }) => mergeTags(input)),
+  }),
+
+  // Product attribute routes
+  attributes: router({
+    getAll: publicProcedure
+      .query(() => getAttributes()),
+    
+    create: adminProcedure
+      .input(createAttributeInputSchema)
+      .mutation(({ input }) => createAttribute(input)),
+    
+    update: adminProcedure
+      .input(updateAttributeInputSchema)
+      .mutation(({ input }) => updateAttribute(input)),
+    
+    delete: adminProcedure
+      .input(z.number())
+      .mutation(({ input }) => deleteAttribute(input)),
+  }),
+
+  // Product release routes
+  releases: router({
+    getByProduct: adminProcedure
+      .input(z.number())
+      .query(({ input }) => getProductReleases(input)),
+    
+    publish: adminProcedure
+      .input(publishReleaseInputSchema)
+      .mutation(({ input }) => publishRelease(input)),
+    
+    setDeprecated: adminProcedure
+      .input(setReleaseDeprecatedInputSchema)
+      .mutation(({ input }) => setReleaseDeprecated(input)),
+    
+    getLicensed: protectedProcedure
+      .input(z.number())
+      .query(({ ctx, input }) => getLicensedReleases(ctx.user.id, input)),
+    
+    getDownload: protectedProcedure
+      .input(z.number())
+      .query(({ ctx, input }) => getReleaseDownload(ctx.user.id, input)),
   }),
 
   // Coupon management routes
   coupons: router({
-    create: publicProcedure
+    create: adminProcedure
       .input(createCouponInputSchema)
       .mutation(({ input }) => createCoupon(input)),
     
-    getAll: publicProcedure
+    getAll: adminProcedure
       .query(() => getCoupons()),
     
-    getActive: publicProcedure
+    getActive: adminProcedure
       .query(() => getActiveCoupons()),
     
     validate: publicProcedure
       .input(z.object({ code: z.string(), orderTotal: z.number() }))
       .query(({ input }) => validateCoupon(input.code, input.orderTotal)),
     
-    apply: publicProcedure
+    // Named applyToOrder because `apply` is reserved by tRPC and would break router construction
+    applyToOrder: adminProcedure
       .input(z.object({ code: z.string(), orderId: z.number() }))
       .mutation(({ input }) => applyCoupon(input.code, input.orderId)),
     
-    getById: publicProcedure
+    getById: adminProcedure
       .input(z.number())
       .query(({ input }) => getCouponById(input)),
     
-    update: publicProcedure
+    update: adminProcedure
       .input(updateCouponInputSchema)
       .mutation(({ input }) => updateCoupon(input)),
     
-    delete: publicProcedure
+    delete: adminProcedure
       .input(z.number())
       .mutation(({ input }) => deleteCoupon(input)),
   }),
 
   // Order management routes
   orders: router({
-    create: publicProcedure
-      .input(createOrderInputSchema)
-      .mutation(({ input }) => createOrder(input)),
+    create: protectedProcedure
+      .input(createOrderInputSchema.omit({ user_id: true }))
+      .mutation(({ ctx, input }) => createOrder({ ...input, user_id: ctx.user.id })),
     
-    getAll: publicProcedure
+    getAll: adminProcedure
       .input(orderFiltersSchema.optional())
       .query(({ input }) => getOrders(input)),
     
-    getByUser: publicProcedure
-      .input(z.number())
-      .query(({ input }) => getOrdersByUser(input)),
+    getByUser: protectedProcedure
+      .query(({ ctx }) => getOrdersByUser(ctx.user.id)),
     
-    getById: publicProcedure
+    getById: protectedProcedure
       .input(z.number())
-      .query(({ input }) => getOrderById(input)),
+      .query(async ({ ctx, input }) => {
+        await assertOrderAccess(ctx.user, input);
+        return getOrderById(input);
+      }),
     
-    updateStatus: publicProcedure
+    updateStatus: adminProcedure
       .input(z.object({ id: z.number(), status: z.enum(['pending', 'paid', 'completed', 'cancelled', 'refunded']) }))
       .mutation(({ input }) => updateOrderStatus(input.id, input.status)),
     
-    processPayment: publicProcedure
+    // Marking an order paid releases its license keys, so only admins may confirm payments
+    processPayment: adminProcedure
       .input(z.object({ orderId: z.number(), paymentMethod: z.string(), paymentReference: z.string() }))
       .mutation(({ input }) => processOrderPayment(input.orderId, input.paymentMethod, input.paymentReference)),
     
-    generateLicenseKeys: publicProcedure
+    generateLicenseKeys: adminProcedure
       .input(z.number())
       .mutation(({ input }) => generateLicenseKeys(input)),
     
-    getStatistics: publicProcedure
+    getStatistics: adminProcedure
       .query(() => getOrderStatistics()),
     
-    refund: publicProcedure
+    refund: adminProcedure
       .input(z.object({ orderId: z.number(), reason: z.string().optional() }))
       .mutation(({ input }) => refundOrder(input.orderId, input.reason)),
   }),
 
   // Shopping cart routes
   cart: router({
+    addItem: protectedProcedure
+      .input(addToCartInputSchema.omit({ user_id: true }))
+      .mutation(({ ctx, input }) => addToCart({ ...input, user_id: ctx.user.id })),
+    
+    getItems: protectedProcedure
+      .query(({ ctx }) => getCartItems(ctx.user.id)),
+    
+    updateItem: protectedProcedure
+      .input(updateCartItemInputSchema)
+      .mutation(({ ctx, input }) => updateCartItem(input, ctx.user.id)),
+    
+    removeItem: protectedProcedure
+      .input(z.object({ cartItemId: z.number() }))
+      .mutation(({ ctx, input }) => removeFromCart(input.cartItemId, ctx.user.id)),
+    
+    clear: protectedProcedure
+      .mutation(({ ctx }) => clearCart(ctx.user.id)),
+    
+    calculateTotal: protectedProcedure
+      .input(z.object({ couponCode: z.string().optional() }))
+      .query(({ ctx, input }) => calculateCartTotal(ctx.user.id, input.couponCode)),
+    
+    validate: protectedProcedure
+      .query(({ ctx }) => validateCart(ctx.user.id)),
+    
+    getItemCount: protectedProcedure
+      .query(({ ctx }) => getCartItemCount(ctx.user.id)),
+    
+    merge: protectedProcedure
+      .input(z.object({ cartToken: z.string() }))
+      .mutation(({ ctx, input }) => mergeGuestCart(input.cartToken, ctx.user.id)),
+  }),
+
+  // Guest cart routes, addressed by the token returned from create
+  guestCart: router({
+    create: publicProcedure
+      .mutation(() => createGuestCart()),
+    
     addItem: publicProcedure
-      .input(addToCartInputSchema)
-      .mutation(({ input }) => addToCart(input)),
+      .input(addToGuestCartInputSchema)
+      .mutation(({ input }) => addToGuestCart(input)),
     
     getItems: publicProcedure
-      .input(z.number())
-      .query(({ input }) => getCartItems(input)),
+      .input(z.object({ cartToken: z.string() }))
+      .query(async ({ input }) => getCartItems(await resolveGuestCart(input.cartToken))),
     
     updateItem: publicProcedure
-      .input(updateCartItemInputSchema)
-      .mutation(({ input }) => updateCartItem(input)),
+      .input(updateCartItemInputSchema.extend({ cartToken: z.string() }))
+      .mutation(async ({ input }) => updateCartItem(input, await resolveGuestCart(input.cartToken))),
     
     removeItem: publicProcedure
-      .input(z.object({ cartItemId: z.number(), userId: z.number() }))
-      .mutation(({ input }) => removeFromCart(input.cartItemId, input.userId)),
+      .input(z.object({ cartToken: z.string(), cartItemId: z.number() }))
+      .mutation(async ({ input }) => removeFromCart(input.cartItemId, await resolveGuestCart(input.cartToken))),
     
     clear: publicProcedure
-      .input(z.number())
-      .mutation(({ input }) => clearCart(input)),
+      .input(z.object({ cartToken: z.string() }))
+      .mutation(async ({ input }) => clearCart(await resolveGuestCart(input.cartToken))),
     
     calculateTotal: publicProcedure
-      .input(z.object({ userId: z.number(), couponCode: z.string().optional() }))
-      .query(({ input }) => calculateCartTotal(input.userId, input.couponCode)),
+      .input(z.object({ cartToken: z.string(), couponCode: z.string().optional() }))
+      .query(async ({ input }) => calculateCartTotal(await resolveGuestCart(input.cartToken), input.couponCode)),
     
     validate: publicProcedure
-      .input(z.number())
-      .query(({ input }) => validateCart(input)),
+      .input(z.object({ cartToken: z.string() }))
+      .query(async ({ input }) => validateCart(await resolveGuestCart(input.cartToken))),
     
     getItemCount: publicProcedure
+      .input(z.object({ cartToken: z.string() }))
+      .query(async ({ input }) => getCartItemCount(await resolveGuestCart(input.cartToken))),
+  }),
+
+  // Wishlist routes
+  wishlists: router({
+    create: protectedProcedure
+      .input(createWishlistInputSchema)
+      .mutation(({ ctx, input }) => createWishlist(input, ctx.user.id)),
+    
+    getAll: protectedProcedure
+      .query(({ ctx }) => getWishlists(ctx.user.id)),
+    
+    getById: protectedProcedure
+      .input(z.number())
+      .query(({ ctx, input }) => getWishlistById(input, ctx.user.id)),
+    
+    getShared: publicProcedure
+      .input(z.object({ shareToken: z.string() }))
+      .query(({ input }) => getSharedWishlist(input.shareToken)),
+    
+    update: protectedProcedure
+      .input(updateWishlistInputSchema)
+      .mutation(({ ctx, input }) => updateWishlist(input, ctx.user.id)),
+    
+    setSharing: protectedProcedure
+      .input(setWishlistSharingInputSchema)
+      .mutation(({ ctx, input }) => setWishlistSharing(input, ctx.user.id)),
+    
+    delete: protectedProcedure
       .input(z.number())
-      .query(({ input }) => getCartItemCount(input)),
+      .mutation(({ ctx, input }) => deleteWishlist(input, ctx.user.id)),
+    
+    addItem: protectedProcedure
+      .input(addToWishlistInputSchema)
+      .mutation(({ ctx, input }) => addToWishlist(input, ctx.user.id)),
+    
+    removeItem: protectedProcedure
+      .input(z.object({ itemId: z.number() }))
+      .mutation(({ ctx, input }) => removeFromWishlist(input.itemId, ctx.user.id)),
+    
+    moveToCart: protectedProcedure
+      .input(moveWishlistItemToCartInputSchema)
+      .mutation(({ ctx, input }) => moveWishlistItemToCart(input, ctx.user.id)),
+    
+    moveFromCart: protectedProcedure
+      .input(moveCartItemToWishlistInputSchema)
+      .mutation(({ ctx, input }) => moveCartItemToWishlist(input, ctx.user.id)),
   }),
 
   // Review management routes
   reviews: router({
-    create: publicProcedure
-      .input(createReviewInputSchema)
-      .mutation(({ input }) => createReview(input)),
+    create: protectedProcedure
+      .input(createReviewInputSchema.omit({ user_id: true }))
+      .mutation(({ ctx, input }) => createReview({ ...input, user_id: ctx.user.id })),
     
     getProductReviews: publicProcedure
       .input(z.number())
       .query(({ input }) => getProductReviews(input)),
     
-    getAll: publicProcedure
+    getAll: adminProcedure
       .query(() => getAllReviews()),
     
-    getPending: publicProcedure
+    getPending: adminProcedure
       .query(() => getPendingReviews()),
     
-    moderate: publicProcedure
+    moderate: adminProcedure
       .input(moderateReviewInputSchema)
       .mutation(({ input }) => moderateReview(input)),
     
@@ -381,26 +1044,25 @@ const appRouter = router({
       .input(z.number())
       .query(({ input }) => getProductReviewStats(input)),
     
-    getUserReviews: publicProcedure
-      .input(z.number())
-      .query(({ input }) => getUserReviews(input)),
+    getUserReviews: protectedProcedure
+      .query(({ ctx }) => getUserReviews(ctx.user.id)),
     
-    delete: publicProcedure
+    delete: adminProcedure
       .input(z.number())
       .mutation(({ input }) => deleteReview(input)),
     
-    canUserReview: publicProcedure
-      .input(z.object({ userId: z.number(), productId: z.number() }))
-      .query(({ input }) => canUserReviewProduct(input.userId, input.productId)),
+    canUserReview: protectedProcedure
+      .input(z.object({ productId: z.number() }))
+      .query(({ ctx, input }) => canUserReviewProduct(ctx.user.id, input.productId)),
   }),
 
   // Blog management routes
   blog: router({
-    create: publicProcedure
-      .input(createBlogPostInputSchema)
-      .mutation(({ input }) => createBlogPost(input)),
+    create: adminProcedure
+      .input(createBlogPostInputSchema.omit({ author_id: true }))
+      .mutation(({ ctx, input }) => createBlogPost({ ...input, author_id: ctx.user.id })),
     
-    getAll: publicProcedure
+    getAll: adminProcedure
       .query(() => getAllBlogPosts()),
     
     getPublished: publicProcedure
@@ -411,19 +1073,19 @@ const appRouter = router({
       .input(z.string())
       .query(({ input }) => getBlogPostBySlug(input)),
     
-    getById: publicProcedure
+    getById: adminProcedure
       .input(z.number())
       .query(({ input }) => getBlogPostById(input)),
     
-    update: publicProcedure
+    update: adminProcedure
       .input(z.object({ id: z.number(), data: createBlogPostInputSchema.partial() }))
       .mutation(({ input }) => updateBlogPost(input.id, input.data)),
     
-    togglePublication: publicProcedure
+    togglePublication: adminProcedure
       .input(z.object({ id: z.number(), isPublished: z.boolean() }))
       .mutation(({ input }) => toggleBlogPostPublication(input.id, input.isPublished)),
     
-    delete: publicProcedure
+    delete: adminProcedure
       .input(z.number())
       .mutation(({ input }) => deleteBlogPost(input)),
     
@@ -442,25 +1104,25 @@ const appRouter = router({
       .input(contactFormSchema)
       .mutation(({ input }) => submitContactForm(input)),
     
-    getSubmissions: publicProcedure
+    getSubmissions: adminProcedure
       .query(() => getContactSubmissions()),
     
-    markAsRead: publicProcedure
+    markAsRead: adminProcedure
       .input(z.number())
       .mutation(({ input }) => markContactSubmissionAsRead(input)),
     
-    reply: publicProcedure
+    reply: adminProcedure
       .input(z.object({ id: z.number(), replyMessage: z.string() }))
       .mutation(({ input }) => replyToContactSubmission(input.id, input.replyMessage)),
     
-    getStats: publicProcedure
+    getStats: adminProcedure
       .query(() => getContactSubmissionStats()),
     
-    delete: publicProcedure
+    delete: adminProcedure
       .input(z.number())
       .mutation(({ input }) => deleteContactSubmission(input)),
     
-    export: publicProcedure
+    export: adminProcedure
       .input(z.object({ startDate: z.date().optional(), endDate: z.date().optional() }))
       .query(({ input }) => exportContactSubmissions(input.startDate, input.endDate)),
   }),
@@ -468,80 +1130,84 @@ const appRouter = router({
   // Analytics routes
   analytics: router({
     trackEvent: publicProcedure
-      .input(trackEventInputSchema)
-      .mutation(({ input }) => trackEvent(input)),
+      .input(clientTrackEventInputSchema)
+      .mutation(({ ctx, input }) => trackEvent({ ...input, user_id: ctx.user?.id })),
     
-    getDashboardStats: publicProcedure
+    getDashboardStats: adminProcedure
       .query(() => getDashboardStats()),
     
-    getVisitorAnalytics: publicProcedure
+    getVisitorAnalytics: adminProcedure
       .input(z.object({ startDate: z.date(), endDate: z.date() }))
       .query(({ input }) => getVisitorAnalytics(input.startDate, input.endDate)),
     
-    getProductAnalytics: publicProcedure
+    getProductAnalytics: adminProcedure
       .query(() => getProductAnalytics()),
     
-    getSalesAnalytics: publicProcedure
+    getSalesAnalytics: adminProcedure
       .input(z.object({ startDate: z.date(), endDate: z.date() }))
       .query(({ input }) => getSalesAnalytics(input.startDate, input.endDate)),
     
-    getUserBehaviorAnalytics: publicProcedure
+    getUserBehaviorAnalytics: adminProcedure
       .query(() => getUserBehaviorAnalytics()),
     
-    generateReport: publicProcedure
+    getSearchAnalytics: adminProcedure
+      .input(z.object({ startDate: z.date(), endDate: z.date() }))
+      .query(({ input }) => getSearchAnalytics(input.startDate, input.endDate)),
+    
+    generateReport: adminProcedure
       .input(z.object({ 
         startDate: z.date(), 
         endDate: z.date(), 
-        reportType: z.enum(['sales', 'traffic', 'products', 'comprehensive']) 
+        reportType: z.enum(['sales', 'traffic', 'products', 'search', 'comprehensive']) 
       }))
       .query(({ input }) => generateAnalyticsReport(input.startDate, input.endDate, input.reportType)),
     
     trackUserSession: publicProcedure
-      .input(z.object({ sessionId: z.string(), userId: z.number().optional() }))
-      .mutation(({ input }) => trackUserSession(input.sessionId, input.userId)),
+      .input(z.object({ sessionId: z.string() }))
+      .mutation(({ ctx, input }) => trackUserSession(input.sessionId, ctx.user?.id)),
     
-    getRealTimeAnalytics: publicProcedure
+    getRealTimeAnalytics: adminProcedure
       .query(() => getRealTimeAnalytics()),
   }),
 
   // Settings management routes
   settings: router({
-    getAll: publicProcedure
+    getAll: adminProcedure
       .query(() => getSettings()),
     
-    getByKey: publicProcedure
+    getByKey: adminProcedure
       .input(z.string())
       .query(({ input }) => getSettingByKey(input)),
     
-    update: publicProcedure
+    update: adminProcedure
       .input(updateSettingInputSchema)
       .mutation(({ input }) => updateSetting(input)),
     
-    updateMultiple: publicProcedure
+    updateMultiple: adminProcedure
       .input(z.array(updateSettingInputSchema))
       .mutation(({ input }) => updateMultipleSettings(input)),
     
-    delete: publicProcedure
+    delete: adminProcedure
       .input(z.string())
       .mutation(({ input }) => deleteSetting(input)),
     
-    getDefaults: publicProcedure
+    getDefaults: adminProcedure
       .query(() => getDefaultSettings()),
     
-    initializeDefaults: publicProcedure
+    initializeDefaults: adminProcedure
       .mutation(() => initializeDefaultSettings()),
     
-    validateValue: publicProcedure
+    validateValue: adminProcedure
       .input(z.object({ key: z.string(), value: z.string() }))
       .query(({ input }) => validateSettingValue(input.key, input.value)),
     
-    getByCategory: publicProcedure
+    getByCategory: adminProcedure
       .query(() => getSettingsByCategory()),
     
-    backup: publicProcedure
+    backup: adminProcedure
       .query(() => backupSettings()),
     
-    restore: publicProcedure
+    restore: adminProcedure
       .input(z.string())
       .mutation(({ input }) => restoreSettings(input)),
   }),
@@ -549,19 +1215,83 @@ const appRouter = router({
 
 export type AppRouter = typeof appRouter;
 
+const RELEASE_DOWNLOAD_ROUTE = new RegExp(`^${RELEASE_DOWNLOAD_PATH}(\\d+)$`);
+
+// Serves release files behind the signed links from releases.getDownload; returns false for other requests
+export async function serveReleaseDownload(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const match = url.pathname.match(RELEASE_DOWNLOAD_ROUTE);
+  if (req.method !== 'GET' || !match) {
+    return false;
+  }
+
+  const fileUrl = await resolveReleaseDownload(
+    Number(match[1]),
+    Number(url.searchParams.get('expires')),
+    url.searchParams.get('signature') ?? ''
+  );
+  if (!fileUrl) {
+    res.writeHead(403, { 'Content-Type': 'text/plain' }).end('Download link is invalid or has expired');
+    return true;
+  }
+
+  // The file is streamed through the server so its storage location is never handed out
+  try {
+    const file = await fetch(fileUrl);
+    if (!file.ok || !file.body) {
+      res.writeHead(502, { 'Content-Type': 'text/plain' }).end('Release file is unavailable');
+      return true;
+    }
+
+    const fileName = new URL(fileUrl).pathname.split('/').pop() || `release-${match[1]}`;
+    res.writeHead(200, {
+      'Content-Type': file.headers.get('content-type') ?? 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${fileName.replace(/"/g, '')}"`,
+      ...(file.headers.has('content-length') ? { 'Content-Length': file.headers.get('content-length')! } : {})
+    });
+    await pipeline(Readable.fromWeb(file.body as WebReadableStream), res);
+  } catch (error) {
+    console.error('Release file transfer failed:', error);
+    // Once the file has started the status is sent, so cut the response short instead
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.writeHead(502, { 'Content-Type': 'text/plain' }).end('Release file is unavailable');
+    }
+  }
+  return true;
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        serveReleaseDownload(req, res)
+          .then(served => served || next())
+          .catch(error => {
+            console.error('Release file download failed:', error);
+            res.writeHead(500, { 'Content-Type': 'text/plain' }).end('Download failed');
+          });
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  const verificationWarning = await getEmailVerificationWarning();
+  if (verificationWarning) {
+    console.warn(verificationWarning);
+  }
+
+  scheduleJob('co-purchase refresh', CO_PURCHASE_REFRESH_INTERVAL_MS, refreshCoPurchaseCounts);
+  scheduleJob('guest cart cleanup', GUEST_CART_CLEANUP_INTERVAL_MS, () => deleteExpiredGuestCarts());
+  scheduleJob('wishlist alerts', WISHLIST_ALERT_INTERVAL_MS, sendWishlistAlerts);
 }
 
-start();
\ No newline at end of file
+// Only listen when run as the entry point, so tests can import the router
+if (import.meta.main) {
+  start();
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+/**
+ * Runs a task right away and then every intervalMs until the returned function is called
+ * A run is skipped while the previous one is still in progress; failures are logged and retried on the next tick
+ */
+export function scheduleJob(name: string, intervalMs: number, task: () => Promise<unknown>): () => void {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  // Jobs never keep the process alive on their own
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,129 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+}
+
+// A transport delivers a fully composed message
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// SMTP server configured through the smtp_* settings
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+}
+
+/**
+ * Keeps sent messages in memory (used by tests)
+ */
+export function createMemoryTransport(): MailTransport & { messages: MailMessage[] } {
+  const messages: MailMessage[] = [];
+
+  return {
+    messages,
+    async send(message) {
+      messages.push(message);
+    }
+  };
+}
+
+/**
+ * Writes each message as a JSON file into a directory
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.json`;
+      await writeFile(path.join(directory, fileName), JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2));
+    }
+  };
+}
+
+/**
+ * Logs that a message was sent (development default)
+ * Bodies carry verification and password reset links, so they are left out of the logs
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`Mail to ${message.to}: ${message.subject} (body not logged; set MAIL_TRANSPORT=file to keep messages)`);
+    }
+  };
+}
+
+/**
+ * Delivers messages through an SMTP server; port 465 uses implicit TLS, other ports upgrade with STARTTLS
+ */
+export function createSmtpTransport(settings: SmtpSettings): MailTransport {
+  const smtp = nodemailer.createTransport({
+    host: settings.host,
+    port: settings.port,
+    secure: settings.port === 465,
+    auth: settings.username ? { user: settings.username, pass: settings.password } : undefined
+  });
+
+  return {
+    async send(message) {
+      await smtp.sendMail(message);
+    }
+  };
+}
+
+// A transport chosen through the environment or by tests takes precedence over the SMTP settings
+function createConfiguredTransport(): MailTransport | null {
+  if (process.env['MAIL_TRANSPORT'] === 'file') {
+    return createFileTransport(process.env['MAIL_DIR'] || './mail');
+  }
+  return null;
+}
+
+let transport: MailTransport | null = createConfiguredTransport();
+const consoleTransport = createConsoleTransport();
+
+// SMTP transports keep a connection pool, so one is kept per server configuration
+let smtpTransport: { key: string; transport: MailTransport } | null = null;
+
+/**
+ * Returns the transport outgoing mail goes through: the configured one, else SMTP when a host is set, else the console
+ */
+export function getMailTransport(smtp: SmtpSettings | null = null): MailTransport {
+  if (transport) {
+    return transport;
+  }
+
+  if (!smtp?.host) {
+    return consoleTransport;
+  }
+
+  const key = JSON.stringify(smtp);
+  if (smtpTransport?.key !== key) {
+    smtpTransport = { key, transport: createSmtpTransport(smtp) };
+  }
+  return smtpTransport.transport;
+}
+
+/**
+ * Whether mail actually reaches recipients; the console transport only notes that a message was sent
+ */
+export function canDeliverMail(smtp: SmtpSettings | null = null): boolean {
+  return transport !== null || Boolean(smtp?.host);
+}
+
+// Passing null goes back to the SMTP settings
+export function setMailTransport(newTransport: MailTransport | null): void {
+  transport = newTransport;
+}
+
+export async function sendMail(message: MailMessage, smtp: SmtpSettings | null = null): Promise<void> {
+  await getMailTransport(smtp).send(message);
+}
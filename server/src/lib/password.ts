@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+
+// scrypt cost parameters (N = 2^14, r = 8, p = 1) and output sizes
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Prefix used by the original placeholder hashing scheme
+const LEGACY_PREFIX = 'hashed_';
+
+function scrypt(password: string, salt: Buffer, n: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, { N: n, r, p, maxmem: 128 * n * r * 2 }, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Hashes a password with a random salt using scrypt
+ * The result is self-describing: scrypt$N$r$p$salt$hash (base64 encoded parts)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const derivedKey = await scrypt(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+
+  return [
+    'scrypt',
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString('base64'),
+    derivedKey.toString('base64')
+  ].join('$');
+}
+
+/**
+ * Verifies a password against a stored hash
+ * needsRehash is set when the stored hash uses the legacy scheme or outdated cost parameters
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (storedHash.startsWith(LEGACY_PREFIX)) {
+    const expected = Buffer.from(storedHash);
+    const actual = Buffer.from(`${LEGACY_PREFIX}${password}`);
+    const valid = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    return { valid, needsRehash: valid };
+  }
+
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') {
+    return { valid: false, needsRehash: false };
+  }
+
+  const [, n, r, p, salt, hash] = parts;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), Number(n), Number(r), Number(p));
+
+  const valid = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  const needsRehash = valid && (Number(n) !== SCRYPT_N || Number(r) !== SCRYPT_R || Number(p) !== SCRYPT_P);
+
+  return { valid, needsRehash };
+}
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+
+// Access tokens are short-lived HMAC-SHA256 signed JWTs, renewed with a refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+export interface AccessTokenPayload {
+  sub: number;
+  sid: number;
+  role: 'admin' | 'customer';
+  iat: number;
+  exp: number;
+}
+
+let fallbackSecret: string | null = null;
+
+function getSecret(): string {
+  const secret = process.env['JWT_SECRET'];
+  if (secret) {
+    return secret;
+  }
+
+  // Without a configured secret, tokens only stay valid for the lifetime of the process
+  if (!fallbackSecret) {
+    console.warn('JWT_SECRET is not set, using a random per-process secret');
+    fallbackSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+function base64UrlEncode(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64url');
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Creates a signed access token for the given user and session
+ */
+export function signAccessToken(user: { id: number; role: 'admin' | 'customer' }, sessionId: number, ttlSeconds = ACCESS_TOKEN_TTL_SECONDS): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: AccessTokenPayload = {
+    sub: user.id,
+    sid: sessionId,
+    role: user.role,
+    iat: now,
+    exp: now + ttlSeconds
+  };
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signature = sign(`${header}.${body}`);
+
+  return `${header}.${body}.${signature}`;
+}
+
+/**
+ * Verifies an access token's signature and expiry
+ * Returns the decoded payload, or null if the token is malformed, forged or expired
+ */
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [header, body, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    if (decodedHeader.alg !== 'HS256') {
+      return null;
+    }
+
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (typeof payload.sub !== 'number' || typeof payload.sid !== 'number' || typeof payload.exp !== 'number' || typeof payload.iat !== 'number') {
+      return null;
+    }
+
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload as AccessTokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Appends an expiry and signature to a download URL, so the download route can check
+ * that a link was issued by us and has not expired without a database lookup
+ */
+export function signDownloadUrl(fileUrl: string, expiresAt: Date): string {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const separator = fileUrl.includes('?') ? '&' : '?';
+  return `${fileUrl}${separator}expires=${expires}&signature=${sign(`${fileUrl}|${expires}`)}`;
+}
+
+/**
+ * Checks the expiry and signature that signDownloadUrl added to a download URL
+ */
+export function verifyDownloadSignature(fileUrl: string, expires: number, signature: string): boolean {
+  if (expires <= Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(`${fileUrl}|${expires}`));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Generates a random opaque token (refresh tokens and other single-use secrets)
+ */
+export function generateOpaqueToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hashes an opaque token for storage, so a database leak does not expose usable tokens
+ */
+export function hashOpaqueToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -9,6 +9,7 @@ export const userSchema = z.object({
   last_name: z.string(),
   role: z.enum(['admin', 'customer']),
   is_active: z.boolean(),
+  email_verified_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -32,12 +33,93 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Session schema and types
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  expires_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  last_used_at: z.coerce.date(),
+  created_at: z.coerce.date()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// Request metadata recorded against a session
+export const sessionMetadataSchema = z.object({
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type SessionMetadata = z.infer<typeof sessionMetadataSchema>;
+
+export const verifyEmailInputSchema = z.object({
+  token: z.string()
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailInputSchema>;
+
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string(),
+  new_password: z.string().min(8)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string().min(8)
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const refreshTokenInputSchema = z.object({
+  refresh_token: z.string()
+});
+
+export type RefreshTokenInput = z.infer<typeof refreshTokenInputSchema>;
+
+// Two-factor authentication schemas
+export const twoFactorLoginInputSchema = z.object({
+  challenge_token: z.string(),
+  code: z.string().min(6).max(32) // TOTP code or recovery code
+});
+
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginInputSchema>;
+
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(6).max(32)
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const disableTwoFactorInputSchema = z.object({
+  password: z.string(),
+  code: z.string().min(6).max(32)
+});
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorInputSchema>;
+
 // Category schema and types
 export const categorySchema = z.object({
   id: z.number(),
   name: z.string(),
   description: z.string().nullable(),
   slug: z.string(),
+  parent_id: z.number().nullable(),
+  hero_image_url: z.string().nullable(),
+  intro: z.string().nullable(),
+  meta_title: z.string().nullable(),
+  meta_description: z.string().nullable(),
+  sort_order: z.number().int(),
   is_active: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -45,10 +127,28 @@ export const categorySchema = z.object({
 
 export type Category = z.infer<typeof categorySchema>;
 
+export type CategoryWithFeatured = Category & { featured_product_ids: number[] };
+
+export const categoryBreadcrumbSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string()
+});
+
+export type CategoryBreadcrumb = z.infer<typeof categoryBreadcrumbSchema>;
+
+export type CategoryTreeNode = Category & { children: CategoryTreeNode[] };
+
 export const createCategoryInputSchema = z.object({
   name: z.string().min(1),
   description: z.string().nullable(),
-  slug: z.string().min(1)
+  slug: z.string().min(1),
+  parent_id: z.number().nullable().optional(),
+  hero_image_url: z.string().nullable().optional(),
+  intro: z.string().nullable().optional(),
+  meta_title: z.string().nullable().optional(),
+  meta_description: z.string().nullable().optional(),
+  sort_order: z.number().int().optional()
 });
 
 export type CreateCategoryInput = z.infer<typeof createCategoryInputSchema>;
@@ -58,11 +158,42 @@ export const updateCategoryInputSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().nullable().optional(),
   slug: z.string().min(1).optional(),
+  parent_id: z.number().nullable().optional(), // Null moves the category to the top level
+  hero_image_url: z.string().nullable().optional(),
+  intro: z.string().nullable().optional(),
+  meta_title: z.string().nullable().optional(),
+  meta_description: z.string().nullable().optional(),
+  sort_order: z.number().int().optional(),
   is_active: z.boolean().optional()
 });
 
 export type UpdateCategoryInput = z.infer<typeof updateCategoryInputSchema>;
 
+export const deleteCategoryInputSchema = z.object({
+  id: z.number(),
+  // Without a mode only a category with no products or subcategories can be deleted
+  mode: z.enum(['reassign', 'archive']).optional(),
+  target_category_id: z.number().optional() // Required with mode 'reassign'
+});
+
+export type DeleteCategoryInput = z.infer<typeof deleteCategoryInputSchema>;
+
+export const deleteCategoryResultSchema = z.object({
+  id: z.number(),
+  deleted: z.boolean(), // False when the category was archived instead
+  products_moved: z.number(),
+  subcategories_moved: z.number()
+});
+
+export type DeleteCategoryResult = z.infer<typeof deleteCategoryResultSchema>;
+
+export const setCategoryFeaturedProductsInputSchema = z.object({
+  category_id: z.number(),
+  product_ids: z.array(z.number()) // Pinned in this order; an empty list unpins all
+});
+
+export type SetCategoryFeaturedProductsInput = z.infer<typeof setCategoryFeaturedProductsInputSchema>;
+
 // Product schema and types
 export const productSchema = z.object({
   id: z.number(),
@@ -78,6 +209,9 @@ export const productSchema = z.object({
   license_type: z.enum(['single', 'multi', 'unlimited']).nullable(),
   is_active: z.boolean(),
   stock_quantity: z.number().int(),
+  available_from: z.coerce.date().nullable(),
+  available_until: z.coerce.date().nullable(),
+  deleted_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -95,7 +229,10 @@ export const createProductInputSchema = z.object({
   file_size: z.number().nullable(),
   version: z.string().nullable(),
   license_type: z.enum(['single', 'multi', 'unlimited']).nullable(),
-  stock_quantity: z.number().int().nonnegative()
+  stock_quantity: z.number().int().nonnegative(),
+  available_from: z.coerce.date().nullable().optional(), // Scheduled launch; on sale right away when omitted
+  available_until: z.coerce.date().nullable().optional(), // End of a limited-time sale
+  sku: z.string().min(1).optional() // SKU of the default variant; generated when omitted
 });
 
 export type CreateProductInput = z.infer<typeof createProductInputSchema>;
@@ -113,11 +250,248 @@ export const updateProductInputSchema = z.object({
   version: z.string().nullable().optional(),
   license_type: z.enum(['single', 'multi', 'unlimited']).nullable().optional(),
   is_active: z.boolean().optional(),
-  stock_quantity: z.number().int().nonnegative().optional()
+  stock_quantity: z.number().int().nonnegative().optional(),
+  available_from: z.coerce.date().nullable().optional(),
+  available_until: z.coerce.date().nullable().optional()
 });
 
 export type UpdateProductInput = z.infer<typeof updateProductInputSchema>;
 
+// Product import/export schemas and types
+export const exportProductsInputSchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv')
+});
+
+export type ExportProductsInput = z.infer<typeof exportProductsInputSchema>;
+
+export const importProductsInputSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  data: z.string().min(1), // CSV with a header row, or a JSON array of objects, using the export columns
+  dry_run: z.boolean().default(false)
+});
+
+export type ImportProductsInput = z.infer<typeof importProductsInputSchema>;
+
+export const productImportRowSchema = z.object({
+  row: z.number().int(), // 1-based position among the data rows, not counting the CSV header
+  action: z.enum(['create', 'update']).nullable(),
+  product_id: z.number().nullable(),
+  errors: z.array(z.string())
+});
+
+export type ProductImportRow = z.infer<typeof productImportRowSchema>;
+
+export const productImportReportSchema = z.object({
+  dry_run: z.boolean(),
+  committed: z.boolean(),
+  created: z.number().int(),
+  updated: z.number().int(),
+  error_count: z.number().int(),
+  rows: z.array(productImportRowSchema)
+});
+
+export type ProductImportReport = z.infer<typeof productImportReportSchema>;
+
+// Product variant schema and types
+export const productVariantSchema = z.object({
+  id: z.number(),
+  product_id: z.number(),
+  name: z.string(),
+  sku: z.string(),
+  price: z.number(),
+  license_type: z.enum(['single', 'multi', 'unlimited']),
+  seats: z.number().int(),
+  stock_quantity: z.number().int(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ProductVariant = z.infer<typeof productVariantSchema>;
+
+export const createProductVariantInputSchema = z.object({
+  product_id: z.number(),
+  name: z.string().min(1),
+  sku: z.string().min(1),
+  price: z.number().positive(),
+  license_type: z.enum(['single', 'multi', 'unlimited']),
+  seats: z.number().int().positive().default(1),
+  stock_quantity: z.number().int().nonnegative(),
+  is_active: z.boolean().default(true)
+});
+
+export type CreateProductVariantInput = z.infer<typeof createProductVariantInputSchema>;
+
+export const updateProductVariantInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  sku: z.string().min(1).optional(),
+  price: z.number().positive().optional(),
+  license_type: z.enum(['single', 'multi', 'unlimited']).optional(),
+  seats: z.number().int().positive().optional(),
+  stock_quantity: z.number().int().nonnegative().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateProductVariantInput = z.infer<typeof updateProductVariantInputSchema>;
+
+// Product release schema and types
+export const productReleaseSchema = z.object({
+  id: z.number(),
+  product_id: z.number(),
+  version: z.string(),
+  changelog: z.string().nullable(),
+  file_url: z.string(),
+  file_size: z.number().int(),
+  sha256: z.string(),
+  released_at: z.coerce.date(),
+  deprecated_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ProductRelease = z.infer<typeof productReleaseSchema>;
+
+export const publishReleaseInputSchema = z.object({
+  product_id: z.number(),
+  version: z.string().min(1),
+  changelog: z.string().nullable().optional(),
+  file_url: z.string().min(1),
+  file_size: z.number().int().positive(),
+  sha256: z.string().regex(/^[a-fA-F0-9]{64}$/, 'Must be a hex-encoded SHA-256 digest'),
+  released_at: z.coerce.date().optional() // Defaults to now; a future date schedules the release
+});
+
+export type PublishReleaseInput = z.infer<typeof publishReleaseInputSchema>;
+
+export const setReleaseDeprecatedInputSchema = z.object({
+  id: z.number(),
+  deprecated: z.boolean()
+});
+
+export type SetReleaseDeprecatedInput = z.infer<typeof setReleaseDeprecatedInputSchema>;
+
+// Product media schema and types
+export const productMediaSchema = z.object({
+  id: z.number(),
+  product_id: z.number(),
+  type: z.enum(['image', 'screenshot', 'video']),
+  url: z.string(),
+  alt_text: z.string().nullable(),
+  sort_order: z.number().int(),
+  is_primary: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type ProductMedia = z.infer<typeof productMediaSchema>;
+
+export const addProductMediaInputSchema = z.object({
+  product_id: z.number(),
+  type: z.enum(['image', 'screenshot', 'video']),
+  url: z.string().url(), // Embed URL for videos
+  alt_text: z.string().nullable().optional(),
+  is_primary: z.boolean().default(false)
+});
+
+export type AddProductMediaInput = z.infer<typeof addProductMediaInputSchema>;
+
+export const updateProductMediaInputSchema = z.object({
+  id: z.number(),
+  alt_text: z.string().nullable().optional(),
+  is_primary: z.literal(true).optional() // The primary flag moves by promoting another item
+});
+
+export type UpdateProductMediaInput = z.infer<typeof updateProductMediaInputSchema>;
+
+export const reorderProductMediaInputSchema = z.object({
+  product_id: z.number(),
+  media_ids: z.array(z.number()).min(1) // Every media item of the product, in display order
+});
+
+export type ReorderProductMediaInput = z.infer<typeof reorderProductMediaInputSchema>;
+
+// Tag schema and types
+export const tagSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Tag = z.infer<typeof tagSchema>;
+
+export const createTagInputSchema = z.object({
+  name: z.string().min(1),
+  slug: z.string().min(1)
+});
+
+export type CreateTagInput = z.infer<typeof createTagInputSchema>;
+
+export const updateTagInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  slug: z.string().min(1).optional()
+});
+
+export type UpdateTagInput = z.infer<typeof updateTagInputSchema>;
+
+export const mergeTagsInputSchema = z.object({
+  source_id: z.number(), // Removed after its products are moved to the target
+  target_id: z.number()
+});
+
+export type MergeTagsInput = z.infer<typeof mergeTagsInputSchema>;
+
+export const setProductTagsInputSchema = z.object({
+  product_id: z.number(),
+  tag_ids: z.array(z.number()) // Replaces the product's tags
+});
+
+export type SetProductTagsInput = z.infer<typeof setProductTagsInputSchema>;
+
+// Attribute schema and types
+export const attributeSchema = z.object({
+  id: z.number(),
+  key: z.string(),
+  name: z.string(),
+  type: z.enum(['text', 'number', 'boolean']),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Attribute = z.infer<typeof attributeSchema>;
+
+export const createAttributeInputSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores'),
+  name: z.string().min(1),
+  type: z.enum(['text', 'number', 'boolean'])
+});
+
+export type CreateAttributeInput = z.infer<typeof createAttributeInputSchema>;
+
+export const updateAttributeInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1)
+});
+
+export type UpdateAttributeInput = z.infer<typeof updateAttributeInputSchema>;
+
+export const productAttributeSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  type: z.enum(['text', 'number', 'boolean']),
+  values: z.array(z.string())
+});
+
+export type ProductAttribute = z.infer<typeof productAttributeSchema>;
+
+export const setProductAttributesInputSchema = z.object({
+  product_id: z.number(),
+  attributes: z.record(z.string(), z.array(z.string())) // Attribute key to values; replaces all of the product's values
+});
+
+export type SetProductAttributesInput = z.infer<typeof setProductAttributesInputSchema>;
+
 // Coupon schema and types
 export const couponSchema = z.object({
   id: z.number(),
@@ -185,6 +559,7 @@ export const createOrderInputSchema = z.object({
   user_id: z.number(),
   items: z.array(z.object({
     product_id: z.number(),
+    variant_id: z.number().optional(), // May be omitted for products sold in a single variant
     quantity: z.number().int().positive(),
     price: z.number().positive()
   })),
@@ -198,6 +573,7 @@ export const orderItemSchema = z.object({
   id: z.number(),
   order_id: z.number(),
   product_id: z.number(),
+  variant_id: z.number().nullable(),
   quantity: z.number().int(),
   unit_price: z.number(),
   total_price: z.number(),
@@ -211,8 +587,10 @@ export type OrderItem = z.infer<typeof orderItemSchema>;
 // Cart schema and types
 export const cartItemSchema = z.object({
   id: z.number(),
-  user_id: z.number(),
+  user_id: z.number().nullable(), // Null for items in a guest cart
+  guest_cart_id: z.number().nullable(),
   product_id: z.number(),
+  variant_id: z.number(),
   quantity: z.number().int(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -223,6 +601,7 @@ export type CartItem = z.infer<typeof cartItemSchema>;
 export const addToCartInputSchema = z.object({
   user_id: z.number(),
   product_id: z.number(),
+  variant_id: z.number().optional(), // May be omitted for products sold in a single variant
   quantity: z.number().int().positive()
 });
 
@@ -235,6 +614,91 @@ export const updateCartItemInputSchema = z.object({
 
 export type UpdateCartItemInput = z.infer<typeof updateCartItemInputSchema>;
 
+export const guestCartSchema = z.object({
+  cart_token: z.string(), // Only returned when the cart is created
+  expires_at: z.coerce.date()
+});
+
+export type GuestCart = z.infer<typeof guestCartSchema>;
+
+export const addToGuestCartInputSchema = addToCartInputSchema.omit({ user_id: true }).extend({
+  cart_token: z.string()
+});
+
+export type AddToGuestCartInput = z.infer<typeof addToGuestCartInputSchema>;
+
+// Wishlist schema and types
+export const wishlistSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  name: z.string(),
+  share_token: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Wishlist = z.infer<typeof wishlistSchema>;
+
+export const wishlistItemSchema = z.object({
+  id: z.number(),
+  wishlist_id: z.number(),
+  product_id: z.number(),
+  variant_id: z.number().nullable(),
+  last_seen_price: z.number(),
+  last_seen_in_stock: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type WishlistItem = z.infer<typeof wishlistItemSchema>;
+
+export type WishlistItemDetails = WishlistItem & {
+  product: { id: number; name: string; image_url: string | null; price: number; in_stock: boolean; is_available: boolean };
+  variant: { id: number; name: string } | null;
+};
+
+export const createWishlistInputSchema = z.object({
+  name: z.string().min(1)
+});
+
+export type CreateWishlistInput = z.infer<typeof createWishlistInputSchema>;
+
+export const updateWishlistInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1)
+});
+
+export type UpdateWishlistInput = z.infer<typeof updateWishlistInputSchema>;
+
+export const setWishlistSharingInputSchema = z.object({
+  id: z.number(),
+  shared: z.boolean() // Turning sharing off and on again issues a new token
+});
+
+export type SetWishlistSharingInput = z.infer<typeof setWishlistSharingInputSchema>;
+
+export const addToWishlistInputSchema = z.object({
+  wishlist_id: z.number(),
+  product_id: z.number(),
+  variant_id: z.number().optional()
+});
+
+export type AddToWishlistInput = z.infer<typeof addToWishlistInputSchema>;
+
+export const moveWishlistItemToCartInputSchema = z.object({
+  item_id: z.number(),
+  variant_id: z.number().optional(), // Overrides the saved variant; needed when none was saved and the product has several
+  quantity: z.number().int().positive().default(1)
+});
+
+export type MoveWishlistItemToCartInput = z.infer<typeof moveWishlistItemToCartInputSchema>;
+
+export const moveCartItemToWishlistInputSchema = z.object({
+  cart_item_id: z.number(),
+  wishlist_id: z.number().optional() // Defaults to the user's "Saved for later" list
+});
+
+export type MoveCartItemToWishlistInput = z.infer<typeof moveCartItemToWishlistInputSchema>;
+
 // Review schema and types
 export const reviewSchema = z.object({
   id: z.number(),
@@ -307,7 +771,7 @@ export type ContactFormInput = z.infer<typeof contactFormSchema>;
 // Analytics schema and types
 export const analyticsSchema = z.object({
   id: z.number(),
-  event_type: z.enum(['page_view', 'product_view', 'add_to_cart', 'purchase', 'download']),
+  event_type: z.enum(['page_view', 'product_view', 'add_to_cart', 'purchase', 'download', 'search']),
   event_data: z.record(z.any()).nullable(),
   user_id: z.number().nullable(),
   session_id: z.string().nullable(),
@@ -319,7 +783,7 @@ export const analyticsSchema = z.object({
 export type Analytics = z.infer<typeof analyticsSchema>;
 
 export const trackEventInputSchema = z.object({
-  event_type: z.enum(['page_view', 'product_view', 'add_to_cart', 'purchase', 'download']),
+  event_type: z.enum(['page_view', 'product_view', 'add_to_cart', 'purchase', 'download', 'search']),
   event_data: z.record(z.any()).nullable(),
   user_id: z.number().optional(),
   session_id: z.string().optional()
@@ -327,6 +791,11 @@ export const trackEventInputSchema = z.object({
 
 export type TrackEventInput = z.infer<typeof trackEventInputSchema>;
 
+// Events clients may report themselves; searches are only recorded by the search handlers
+export const clientTrackEventInputSchema = trackEventInputSchema.omit({ user_id: true }).extend({
+  event_type: z.enum(['page_view', 'product_view', 'add_to_cart', 'purchase', 'download'])
+});
+
 // Settings schema and types
 export const settingSchema = z.object({
   id: z.number(),
@@ -369,9 +838,13 @@ export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
 // Filter schemas
 export const productFiltersSchema = z.object({
   category_id: z.number().optional(),
+  include_subcategories: z.boolean().optional(), // With category_id, also list products of every descendant category
   min_price: z.number().optional(),
   max_price: z.number().optional(),
+  license_type: z.enum(['single', 'multi', 'unlimited']).optional(),
   search: z.string().optional(),
+  tags: z.array(z.string()).optional(), // Tag slugs; products must carry every one
+  attributes: z.record(z.string(), z.array(z.string())).optional(), // Attribute key to accepted values; every key must match
   sort_by: z.enum(['name', 'price', 'created_at']).optional(),
   sort_order: z.enum(['asc', 'desc']).optional(),
   page: z.number().int().positive().default(1),
@@ -389,4 +862,50 @@ export const orderFiltersSchema = z.object({
   limit: z.number().int().positive().default(10)
 });
 
-export type OrderFilters = z.infer<typeof orderFiltersSchema>;
\ No newline at end of file
+export type OrderFilters = z.infer<typeof orderFiltersSchema>;
+
+export const userFiltersSchema = z.object({
+  search: z.string().optional(), // Matches email or name
+  role: z.enum(['admin', 'customer']).optional(),
+  is_active: z.boolean().optional(),
+  page: z.number().int().positive().default(1),
+  limit: z.number().int().positive().default(10)
+});
+
+export type UserFilters = z.infer<typeof userFiltersSchema>;
+
+// Admin user management schemas
+export const updateUserRoleInputSchema = z.object({
+  user_id: z.number(),
+  role: z.enum(['admin', 'customer'])
+});
+
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleInputSchema>;
+
+export const setUserActiveInputSchema = z.object({
+  user_id: z.number(),
+  is_active: z.boolean()
+});
+
+export type SetUserActiveInput = z.infer<typeof setUserActiveInputSchema>;
+
+// Account self-service schemas
+export const updateProfileInputSchema = z.object({
+  first_name: z.string().min(1).optional(),
+  last_name: z.string().min(1).optional()
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileInputSchema>;
+
+export const changeEmailInputSchema = z.object({
+  new_email: z.string().email(),
+  password: z.string()
+});
+
+export type ChangeEmailInput = z.infer<typeof changeEmailInputSchema>;
+
+export const deleteAccountInputSchema = z.object({
+  password: z.string()
+});
+
+export type DeleteAccountInput = z.infer<typeof deleteAccountInputSchema>;
\ No newline at end of file
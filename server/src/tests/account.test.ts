@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  categoriesTable,
+  productsTable,
+  productVariantsTable,
+  ordersTable,
+  orderItemsTable,
+  cartItemsTable,
+  reviewsTable,
+  analyticsTable,
+  sessionsTable
+} from '../db/schema';
+import { type CreateUserInput } from '../schema';
+import { registerUser, loginUser, verifyEmail, getCurrentUser } from '../handlers/auth';
+import { createSession } from '../handlers/sessions';
+import { updateProfile, changeEmail, deleteAccount, exportAccountData } from '../handlers/account';
+import { setUserActive } from '../handlers/users';
+import { updateSetting } from '../handlers/settings';
+import { createMemoryTransport, setMailTransport } from '../lib/mail';
+import { eq } from 'drizzle-orm';
+
+const mailTransport = createMemoryTransport();
+setMailTransport(mailTransport);
+
+const lastMailedToken = () => {
+  const message = mailTransport.messages[mailTransport.messages.length - 1];
+  return decodeURIComponent(message.text.match(/token=([^\s]+)/)![1]);
+};
+
+const testUserInput: CreateUserInput = {
+  email: 'test@example.com',
+  password: 'password123',
+  first_name: 'John',
+  last_name: 'Doe',
+  role: 'customer'
+};
+
+// Creates a product with one variant and a completed order with a license key for the user
+const seedPurchase = async (userId: number) => {
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  const product = await db.insert(productsTable)
+    .values({ name: 'Test Software', description: 'A test software product', price: '29.99', category_id: category[0].id, stock_quantity: 10 })
+    .returning()
+    .execute();
+
+  const variant = await db.insert(productVariantsTable)
+    .values({ product_id: product[0].id, name: 'Single license', sku: 'TS-SINGLE', price: '29.99', license_type: 'single', stock_quantity: 10 })
+    .returning()
+    .execute();
+
+  const order = await db.insert(ordersTable)
+    .values({ user_id: userId, order_number: 'ORD-1', status: 'completed', subtotal: '29.99', total_amount: '32.99' })
+    .returning()
+    .execute();
+
+  await db.insert(orderItemsTable)
+    .values({ order_id: order[0].id, product_id: product[0].id, variant_id: variant[0].id, quantity: 1, unit_price: '29.99', total_price: '29.99', license_key: 'LIC-ABC-123' })
+    .execute();
+
+  return { product: product[0], variant: variant[0], order: order[0] };
+};
+
+describe('Account handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('updateProfile', () => {
+    it('should update the name fields that are provided', async () => {
+      const user = await registerUser(testUserInput);
+
+      const result = await updateProfile(user.id, { first_name: 'Johnny' });
+
+      expect(result.first_name).toEqual('Johnny');
+      expect(result.last_name).toEqual('Doe');
+      expect((result as any).password_hash).toBeUndefined();
+    });
+  });
+
+  describe('changeEmail', () => {
+    it('should switch to the new address as unverified and mail a verification link to it', async () => {
+      await updateSetting({ key: 'require_email_verification', value: 'true' });
+      const user = await registerUser(testUserInput);
+      await verifyEmail(lastMailedToken());
+
+      const result = await changeEmail(user.id, { new_email: 'new@example.com', password: 'password123' });
+
+      expect(result.success).toBe(true);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].email).toEqual('new@example.com');
+      expect(users[0].email_verified_at).toBeNull();
+
+      const message = mailTransport.messages[mailTransport.messages.length - 1];
+      expect(message.to).toEqual('new@example.com');
+
+      expect((await verifyEmail(lastMailedToken())).success).toBe(true);
+      const verified = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(verified[0].email_verified_at).not.toBeNull();
+    });
+
+    it('should require the current password', async () => {
+      const user = await registerUser(testUserInput);
+
+      const result = await changeEmail(user.id, { new_email: 'new@example.com', password: 'wrongpassword' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/password/i);
+    });
+
+    it('should reject an address used by another account', async () => {
+      const user = await registerUser(testUserInput);
+      await registerUser({ ...testUserInput, email: 'taken@example.com' });
+
+      const result = await changeEmail(user.id, { new_email: 'taken@example.com', password: 'password123' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/already exists/i);
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('should anonymize personal data but keep orders and license keys', async () => {
+      const user = await registerUser(testUserInput);
+      const { product, variant, order } = await seedPurchase(user.id);
+      await db.insert(cartItemsTable).values({ user_id: user.id, product_id: product.id, variant_id: variant.id, quantity: 1 }).execute();
+      await db.insert(analyticsTable)
+        .values({ event_type: 'page_view', user_id: user.id, ip_address: '203.0.113.10', user_agent: 'Mozilla/5.0' })
+        .execute();
+      const session = await createSession(user, { ip_address: '203.0.113.10', user_agent: 'Mozilla/5.0' });
+
+      const result = await deleteAccount(user.id, { password: 'password123' });
+
+      expect(result.success).toBe(true);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].email).not.toContain('test@example.com');
+      expect(users[0].first_name).not.toEqual('John');
+      expect(users[0].is_active).toBe(false);
+      expect(users[0].deleted_at).not.toBeNull();
+
+      // Bookkeeping records survive
+      const orders = await db.select().from(ordersTable).where(eq(ordersTable.id, order.id)).execute();
+      expect(orders).toHaveLength(1);
+      const items = await db.select().from(orderItemsTable).where(eq(orderItemsTable.order_id, order.id)).execute();
+      expect(items[0].license_key).toEqual('LIC-ABC-123');
+
+      // Personal data is gone
+      expect(await db.select().from(cartItemsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(sessionsTable).execute()).toHaveLength(0);
+      const events = await db.select().from(analyticsTable).execute();
+      expect(events[0].ip_address).toBeNull();
+      expect(events[0].user_agent).toBeNull();
+
+      expect(await getCurrentUser(session.token)).toBeNull();
+      expect(await loginUser({ email: 'test@example.com', password: 'password123' })).toBeNull();
+    });
+
+    it('should free the email address for a new registration', async () => {
+      const user = await registerUser(testUserInput);
+      await deleteAccount(user.id, { password: 'password123' });
+
+      const newUser = await registerUser(testUserInput);
+
+      expect(newUser.id).not.toEqual(user.id);
+    });
+
+    it('should require the password', async () => {
+      const user = await registerUser(testUserInput);
+
+      const result = await deleteAccount(user.id, { password: 'wrongpassword' });
+
+      expect(result.success).toBe(false);
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].deleted_at).toBeNull();
+    });
+
+    it('should refuse to delete admin accounts', async () => {
+      const admin = await registerUser({ ...testUserInput, role: 'admin' });
+
+      const result = await deleteAccount(admin.id, { password: 'password123' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/admin/i);
+    });
+
+    it('should not allow a deleted account to be reactivated', async () => {
+      const admin = await registerUser({ ...testUserInput, email: 'admin@example.com', role: 'admin' });
+      const user = await registerUser(testUserInput);
+      await deleteAccount(user.id, { password: 'password123' });
+
+      await expect(setUserActive({ user_id: user.id, is_active: true }, admin.id)).rejects.toThrow(/cannot be reactivated/i);
+    });
+  });
+
+  describe('exportAccountData', () => {
+    it('should bundle orders, reviews, cart and analytics events', async () => {
+      const user = await registerUser(testUserInput);
+      const { product, variant } = await seedPurchase(user.id);
+      await db.insert(cartItemsTable).values({ user_id: user.id, product_id: product.id, variant_id: variant.id, quantity: 2 }).execute();
+      await db.insert(reviewsTable).values({ user_id: user.id, product_id: product.id, rating: 4, comment: 'Solid' }).execute();
+      await db.insert(analyticsTable).values({ event_type: 'product_view', user_id: user.id, event_data: { product_id: product.id } }).execute();
+
+      const result = await exportAccountData(user.id);
+
+      expect(result.profile.email).toEqual('test@example.com');
+      expect((result.profile as any).password_hash).toBeUndefined();
+      expect(result.orders).toHaveLength(1);
+      expect(result.orders[0]!.items[0].license_key).toEqual('LIC-ABC-123');
+      expect(result.reviews).toHaveLength(1);
+      expect(result.cart).toHaveLength(1);
+      expect(result.analytics_events).toHaveLength(1);
+      expect(result.exported_at).toBeInstanceOf(Date);
+
+      // The bundle is plain JSON-serializable data
+      expect(() => JSON.stringify(result)).not.toThrow();
+    });
+  });
+});
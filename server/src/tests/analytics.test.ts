@@ -19,7 +19,9 @@ import {
   getUserBehaviorAnalytics,
   generateAnalyticsReport,
   trackUserSession,
-  getRealTimeAnalytics
+  getRealTimeAnalytics,
+  recordSearchQuery,
+  getSearchAnalytics
 } from '../handlers/analytics';
 import { eq } from 'drizzle-orm';
 
@@ -416,6 +418,70 @@ describe('Analytics Handlers', () => {
     });
   });
 
+  describe('recordSearchQuery', () => {
+    it('should track normalized query terms with the result count', async () => {
+      await recordSearchQuery('  Photo   Editor ', 3, 'search');
+      await recordSearchQuery('   ', 0, 'suggest');
+
+      const events = await db.select().from(analyticsTable).execute();
+
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toEqual('search');
+      expect(events[0].event_data).toEqual({ query: 'photo editor', result_count: 3, source: 'search' });
+    });
+  });
+
+  describe('getSearchAnalytics', () => {
+    it('should report top queries and zero-result searches', async () => {
+      const searchedAt = new Date('2024-01-15');
+      await db.insert(analyticsTable).values([
+        { event_type: 'search', event_data: { query: 'editor', result_count: 2, source: 'search' }, created_at: searchedAt },
+        { event_type: 'search', event_data: { query: 'editor', result_count: 4, source: 'search' }, created_at: searchedAt },
+        { event_type: 'search', event_data: { query: 'cokbook', result_count: 0, source: 'suggest' }, created_at: searchedAt },
+        { event_type: 'search', event_data: { query: 'cokbook', result_count: 0, source: 'search' }, created_at: new Date('2024-01-20') },
+        { event_type: 'search', event_data: { query: 'spreadsheet', result_count: 0, source: 'search' }, created_at: searchedAt },
+        { event_type: 'search', event_data: { query: 'outside', result_count: 0, source: 'search' }, created_at: new Date('2024-03-01') },
+        { event_type: 'page_view', event_data: { page: '/search' }, created_at: searchedAt }
+      ]).execute();
+
+      const result = await getSearchAnalytics(new Date('2024-01-01'), new Date('2024-01-31'));
+
+      // Suggest requests are counted apart from the query reports
+      expect(result.total_searches).toEqual(4);
+      expect(result.suggest_requests).toEqual(1);
+      expect(result.zero_result_searches).toEqual(2);
+      expect(result.zero_result_rate).toEqual(50);
+      expect(result.top_queries[0]).toEqual({ query: 'editor', searches: 2, average_results: 3 });
+      expect(result.top_queries[1]).toEqual({ query: 'cokbook', searches: 1, average_results: 0 });
+      expect(result.zero_result_queries.map(q => [q.query, q.searches])).toEqual([['cokbook', 1], ['spreadsheet', 1]]);
+      expect(result.zero_result_queries[0].last_searched_at).toEqual(new Date('2024-01-20'));
+    });
+
+    it('should ignore search rows without a well-formed result count', async () => {
+      const searchedAt = new Date('2024-01-15');
+      await db.insert(analyticsTable).values([
+        { event_type: 'search', event_data: { query: 'editor', result_count: 3, source: 'search' }, created_at: searchedAt },
+        { event_type: 'search', event_data: { query: 'forged', result_count: 'none', source: 'search' }, created_at: searchedAt },
+        { event_type: 'search', event_data: { query: 'huge', result_count: 99999999999, source: 'search' }, created_at: searchedAt },
+        { event_type: 'search', event_data: { query: 'missing' }, created_at: searchedAt }
+      ]).execute();
+
+      const result = await getSearchAnalytics(new Date('2024-01-01'), new Date('2024-01-31'));
+
+      expect(result.total_searches).toEqual(1);
+      expect(result.top_queries).toEqual([{ query: 'editor', searches: 1, average_results: 3 }]);
+      expect(result.zero_result_queries).toEqual([]);
+    });
+
+    it('should return zero metrics when nothing was searched', async () => {
+      const result = await getSearchAnalytics(new Date('2024-01-01'), new Date('2024-01-31'));
+
+      expect(result.total_searches).toEqual(0);
+      expect(result.zero_result_rate).toEqual(0);
+      expect(result.zero_result_queries).toEqual([]);
+    });
+  });
+
   describe('generateAnalyticsReport', () => {
     it('should generate sales report', async () => {
       const startDate = new Date('2024-01-01');
@@ -463,6 +529,7 @@ describe('Analytics Handlers', () => {
       expect(result.data.sales).toBeDefined();
       expect(result.data.traffic).toBeDefined();
       expect(result.data.products).toBeDefined();
+      expect(result.data.search).toBeDefined();
       expect(result.data.dashboard).toBeDefined();
     });
   });
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, productAttributesTable } from '../db/schema';
+import { createProduct, getActiveProducts, getProductById, searchProducts } from '../handlers/products';
+import {
+  createAttribute,
+  getAttributes,
+  updateAttribute,
+  deleteAttribute,
+  setProductAttributes
+} from '../handlers/attributes';
+
+const seedProducts = async () => {
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  const product = (name: string) => createProduct({
+    name,
+    description: `${name} for creative work`,
+    short_description: null,
+    price: 49.99,
+    category_id: category[0].id,
+    image_url: null,
+    download_url: null,
+    file_size: null,
+    version: null,
+    license_type: 'single',
+    stock_quantity: 100
+  });
+
+  await createAttribute({ key: 'platform', name: 'Platform', type: 'text' });
+  await createAttribute({ key: 'min_os_version', name: 'Minimum OS version', type: 'number' });
+  await createAttribute({ key: 'portable', name: 'Portable', type: 'boolean' });
+
+  return { editor: await product('Photo Editor'), mixer: await product('Audio Mixer') };
+};
+
+describe('Attribute handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createAttribute', () => {
+    it('should create an attribute', async () => {
+      const attribute = await createAttribute({ key: 'file_format', name: 'File format', type: 'text' });
+
+      expect(attribute.key).toEqual('file_format');
+      expect(attribute.type).toEqual('text');
+    });
+
+    it('should reject a duplicate key', async () => {
+      await createAttribute({ key: 'file_format', name: 'File format', type: 'text' });
+
+      await expect(createAttribute({ key: 'file_format', name: 'Format', type: 'text' })).rejects.toThrow(/already exists/i);
+    });
+  });
+
+  describe('setProductAttributes', () => {
+    it('should store normalized values and replace earlier ones', async () => {
+      const { editor } = await seedProducts();
+      await setProductAttributes({ product_id: editor.id, attributes: { platform: ['Linux'] } });
+
+      const result = await setProductAttributes({
+        product_id: editor.id,
+        attributes: {
+          platform: [' Windows ', 'macOS', 'Windows'],
+          min_os_version: ['10.50'],
+          portable: ['TRUE']
+        }
+      });
+
+      expect(result).toEqual([
+        { key: 'min_os_version', name: 'Minimum OS version', type: 'number', values: ['10.5'] },
+        { key: 'platform', name: 'Platform', type: 'text', values: ['Windows', 'macOS'] },
+        { key: 'portable', name: 'Portable', type: 'boolean', values: ['true'] }
+      ]);
+      expect((await getProductById(editor.id))!.attributes).toEqual(result);
+    });
+
+    it('should reject values that do not match the attribute type', async () => {
+      const { editor } = await seedProducts();
+
+      await expect(setProductAttributes({ product_id: editor.id, attributes: { min_os_version: ['ten'] } })).rejects.toThrow(/not a number/i);
+      await expect(setProductAttributes({ product_id: editor.id, attributes: { portable: ['yes'] } })).rejects.toThrow(/true or false/i);
+    });
+
+    it('should throw for an unknown attribute or product', async () => {
+      const { editor } = await seedProducts();
+
+      await expect(setProductAttributes({ product_id: editor.id, attributes: { color: ['red'] } })).rejects.toThrow(/not found/i);
+      await expect(setProductAttributes({ product_id: 99999, attributes: {} })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('getAttributes', () => {
+    it('should list attributes with the values in use', async () => {
+      const { editor, mixer } = await seedProducts();
+      await setProductAttributes({ product_id: editor.id, attributes: { min_os_version: ['9', '11'], platform: ['Windows'] } });
+      await setProductAttributes({ product_id: mixer.id, attributes: { min_os_version: ['11'], platform: ['Linux'] } });
+
+      const attributes = await getAttributes();
+
+      expect(attributes.map(attribute => [attribute.key, attribute.values])).toEqual([
+        ['min_os_version', ['9', '11']],
+        ['platform', ['Linux', 'Windows']],
+        ['portable', []]
+      ]);
+    });
+  });
+
+  describe('updateAttribute and deleteAttribute', () => {
+    it('should rename an attribute and delete it with its values', async () => {
+      const { editor } = await seedProducts();
+      const [, platform] = await getAttributes();
+      await setProductAttributes({ product_id: editor.id, attributes: { platform: ['Windows'] } });
+
+      expect((await updateAttribute({ id: platform.id, name: 'Operating system' }))!.name).toEqual('Operating system');
+
+      expect(await deleteAttribute(platform.id)).toBe(true);
+      expect(await db.select().from(productAttributesTable).execute()).toHaveLength(0);
+      expect(await updateAttribute({ id: platform.id, name: 'Gone' })).toBeNull();
+    });
+  });
+
+  describe('attribute filters', () => {
+    it('should match any listed value of every requested attribute', async () => {
+      const { editor, mixer } = await seedProducts();
+      await setProductAttributes({ product_id: editor.id, attributes: { platform: ['Windows', 'macOS'], portable: ['true'] } });
+      await setProductAttributes({ product_id: mixer.id, attributes: { platform: ['Linux'], portable: ['false'] } });
+
+      const either = await getActiveProducts({ page: 1, limit: 10, attributes: { platform: ['macOS', 'Linux'] } });
+      expect(either.total).toEqual(2);
+
+      const narrowed = await getActiveProducts({ page: 1, limit: 10, attributes: { platform: ['macOS', 'Linux'], portable: ['false'] } });
+      expect(narrowed.products.map(product => product.id)).toEqual([mixer.id]);
+
+      const search = await searchProducts('creative', { page: 1, limit: 10, attributes: { platform: ['Windows'] } });
+      expect(search.products.map(product => product.id)).toEqual([editor.id]);
+    });
+
+    it('should normalize filter values for the attribute type', async () => {
+      const { editor, mixer } = await seedProducts();
+      await setProductAttributes({ product_id: editor.id, attributes: { min_os_version: ['10.50'], portable: ['TRUE'] } });
+      await setProductAttributes({ product_id: mixer.id, attributes: { min_os_version: ['11'], portable: ['false'] } });
+
+      const version = await getActiveProducts({ page: 1, limit: 10, attributes: { min_os_version: ['10.5'] } });
+      expect(version.products.map(product => product.id)).toEqual([editor.id]);
+
+      const portable = await searchProducts('creative', { page: 1, limit: 10, attributes: { portable: [' True '] } });
+      expect(portable.products.map(product => product.id)).toEqual([editor.id]);
+
+      const invalid = await getActiveProducts({ page: 1, limit: 10, attributes: { min_os_version: ['latest'] } });
+      expect(invalid.total).toEqual(0);
+    });
+  });
+});
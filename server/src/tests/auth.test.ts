@@ -1,11 +1,46 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, userTokensTable, loginAttemptsTable } from '../db/schema';
 import { type CreateUserInput, type LoginInput } from '../schema';
-import { registerUser, loginUser, getCurrentUser } from '../handlers/auth';
+import {
+  registerUser,
+  loginUser,
+  getCurrentUser,
+  verifyEmail,
+  resendVerificationEmail,
+  isEmailVerificationSatisfied,
+  requestPasswordReset,
+  resetPassword,
+  changePassword,
+  getMailSender,
+  getEmailVerificationWarning
+} from '../handlers/auth';
+import { createSession } from '../handlers/sessions';
+import { LoginThrottledError, unlockUser } from '../handlers/login_attempts';
+import { updateSetting, updateMultipleSettings } from '../handlers/settings';
+import { signAccessToken } from '../lib/tokens';
+import { createMemoryTransport, setMailTransport } from '../lib/mail';
 import { eq } from 'drizzle-orm';
 
+const mailTransport = createMemoryTransport();
+setMailTransport(mailTransport);
+
+// Pulls the verification token out of the most recent email
+const lastMailedToken = () => {
+  const message = mailTransport.messages[mailTransport.messages.length - 1];
+  return decodeURIComponent(message.text.match(/token=([^\s]+)/)![1]);
+};
+
+// Logs in with a password only, failing if a two-factor challenge comes back instead
+const passwordLogin = async (...args: Parameters<typeof loginUser>) => {
+  const result = await loginUser(...args);
+  if (result && 'two_factor_required' in result) {
+    throw new Error('Unexpected two-factor challenge');
+  }
+  return result;
+};
+
 // Test input for user registration
 const testUserInput: CreateUserInput = {
   email: 'test@example.com',
@@ -64,7 +99,8 @@ describe('registerUser', () => {
     expect(users[0].last_name).toEqual('Doe');
     expect(users[0].role).toEqual('customer');
     expect(users[0].is_active).toEqual(true);
-    expect(users[0].password_hash).toEqual('hashed_password123'); // Verify password was hashed
+    expect(users[0].password_hash).not.toContain('password123'); // Verify password was hashed
+    expect(users[0].password_hash).toMatch(/^scrypt\$/);
     expect(users[0].created_at).toBeInstanceOf(Date);
   });
 
@@ -90,6 +126,25 @@ describe('registerUser', () => {
     expect(result.role).toEqual('customer');
   });
 
+  it('should salt password hashes per user', async () => {
+    await registerUser(testUserInput);
+    await registerUser({ ...testUserInput, email: 'other@example.com' });
+
+    const users = await db.select().from(usersTable).execute();
+
+    expect(users).toHaveLength(2);
+    expect(users[0].password_hash).not.toEqual(users[1].password_hash);
+  });
+
+  it('should reject registration when sign-ups are disabled', async () => {
+    await updateSetting({ key: 'enable_user_registration', value: 'false' });
+
+    await expect(registerUser(testUserInput)).rejects.toThrow(/registration is currently disabled/i);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(0);
+  });
+
   it('should reject duplicate email addresses', async () => {
     // Register first user
     await registerUser(testUserInput);
@@ -108,7 +163,7 @@ describe('loginUser', () => {
     await registerUser(testUserInput);
 
     // Then try to login
-    const result = await loginUser(testLoginInput);
+    const result = await passwordLogin(testLoginInput);
 
     expect(result).not.toBeNull();
     expect(result!.user.email).toEqual('test@example.com');
@@ -117,7 +172,7 @@ describe('loginUser', () => {
     expect(result!.user.role).toEqual('customer');
     expect(result!.user.is_active).toEqual(true);
     expect(result!.token).toBeDefined();
-    expect(result!.token).toMatch(/^jwt_token_\d+_\d+$/); // Verify token format
+    expect(result!.token.split('.')).toHaveLength(3); // Verify JWT format
     expect((result!.user as any).password_hash).toBeUndefined(); // Should not include password_hash
   });
 
@@ -158,12 +213,52 @@ describe('loginUser', () => {
     expect(result).toBeNull();
   });
 
+  it('should rehash legacy passwords on successful login', async () => {
+    const user = await registerUser(testUserInput);
+    await db.update(usersTable)
+      .set({ password_hash: 'hashed_password123' })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    const result = await loginUser(testLoginInput);
+    expect(result).not.toBeNull();
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].password_hash).toMatch(/^scrypt\$/);
+
+    // The upgraded hash still accepts the same password
+    const secondLogin = await loginUser(testLoginInput);
+    expect(secondLogin).not.toBeNull();
+  });
+
+  it('should not rehash legacy passwords on failed login', async () => {
+    const user = await registerUser(testUserInput);
+    await db.update(usersTable)
+      .set({ password_hash: 'hashed_password123' })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    const result = await loginUser({ ...testLoginInput, password: 'wrongpassword' });
+    expect(result).toBeNull();
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].password_hash).toEqual('hashed_password123');
+  });
+
   it('should login admin user correctly', async () => {
     // Register admin user
     await registerUser(testAdminInput);
 
     // Login as admin
-    const result = await loginUser({
+    const result = await passwordLogin({
       email: 'admin@example.com',
       password: 'adminpass123'
     });
@@ -181,7 +276,7 @@ describe('getCurrentUser', () => {
   it('should get current user from valid token', async () => {
     // Register and login user to get token
     await registerUser(testUserInput);
-    const loginResult = await loginUser(testLoginInput);
+    const loginResult = await passwordLogin(testLoginInput);
     
     expect(loginResult).not.toBeNull();
     const token = loginResult!.token;
@@ -204,15 +299,51 @@ describe('getCurrentUser', () => {
   });
 
   it('should return null for token with non-existent user ID', async () => {
-    const fakeToken = 'jwt_token_999999_1234567890';
+    const fakeToken = signAccessToken({ id: 999999, role: 'customer' }, 1);
     const result = await getCurrentUser(fakeToken);
     expect(result).toBeNull();
   });
 
+  it('should return null for legacy placeholder tokens', async () => {
+    const user = await registerUser(testUserInput);
+    const result = await getCurrentUser(`jwt_token_${user.id}_${Date.now()}`);
+    expect(result).toBeNull();
+  });
+
+  it('should return null for tampered token', async () => {
+    await registerUser(testUserInput);
+    const admin = await registerUser(testAdminInput);
+    const customerLogin = await passwordLogin(testLoginInput);
+    const adminLogin = await passwordLogin({ email: 'admin@example.com', password: 'adminpass123' });
+    const [header, , signature] = customerLogin!.token.split('.');
+
+    // Swap in another user's claims while keeping the original signature
+    const forgedBody = Buffer.from(JSON.stringify({
+      sub: admin.id,
+      sid: JSON.parse(Buffer.from(adminLogin!.token.split('.')[1], 'base64url').toString()).sid,
+      role: 'admin',
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(Date.now() / 1000) + 3600
+    })).toString('base64url');
+
+    const result = await getCurrentUser(`${header}.${forgedBody}.${signature}`);
+    expect(result).toBeNull();
+  });
+
+  it('should return null for expired token', async () => {
+    await registerUser(testUserInput);
+    const loginResult = await passwordLogin(testLoginInput);
+    const sessionId = JSON.parse(Buffer.from(loginResult!.token.split('.')[1], 'base64url').toString()).sid;
+    const expiredToken = signAccessToken(loginResult!.user, sessionId, -1);
+
+    const result = await getCurrentUser(expiredToken);
+    expect(result).toBeNull();
+  });
+
   it('should return null for inactive user', async () => {
     // Register and login user
     await registerUser(testUserInput);
-    const loginResult = await loginUser(testLoginInput);
+    const loginResult = await passwordLogin(testLoginInput);
     const token = loginResult!.token;
 
     // Deactivate user
@@ -234,7 +365,7 @@ describe('getCurrentUser', () => {
   it('should work with admin user token', async () => {
     // Register and login admin
     await registerUser(testAdminInput);
-    const loginResult = await loginUser({
+    const loginResult = await passwordLogin({
       email: 'admin@example.com',
       password: 'adminpass123'
     });
@@ -247,4 +378,398 @@ describe('getCurrentUser', () => {
     expect(result!.role).toEqual('admin');
     expect(result!.email).toEqual('admin@example.com');
   });
-});
\ No newline at end of file
+});
+
+describe('email verification', () => {
+  beforeEach(async () => {
+    await createDB();
+    mailTransport.messages.length = 0;
+    await updateSetting({ key: 'require_email_verification', value: 'true' });
+  });
+  afterEach(resetDB);
+
+  it('should send a verification email on registration', async () => {
+    const user = await registerUser(testUserInput);
+
+    expect(user.email_verified_at).toBeNull();
+    expect(mailTransport.messages).toHaveLength(1);
+    expect(mailTransport.messages[0].to).toEqual('test@example.com');
+    expect(mailTransport.messages[0].subject).toMatch(/verify/i);
+
+    // Only the token hash is stored
+    const tokens = await db.select().from(userTokensTable).execute();
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].token_hash).not.toEqual(lastMailedToken());
+  });
+
+  it('should not send a verification email when verification is disabled', async () => {
+    await updateSetting({ key: 'require_email_verification', value: 'false' });
+
+    await registerUser(testUserInput);
+
+    expect(mailTransport.messages).toHaveLength(0);
+  });
+
+  it('should verify email with a valid token', async () => {
+    const user = await registerUser(testUserInput);
+
+    const result = await verifyEmail(lastMailedToken());
+
+    expect(result.success).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+    expect(users[0].email_verified_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject a token that was already used', async () => {
+    await registerUser(testUserInput);
+    const token = lastMailedToken();
+
+    await verifyEmail(token);
+    const result = await verifyEmail(token);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/invalid or expired/i);
+  });
+
+  it('should reject an expired token', async () => {
+    await registerUser(testUserInput);
+    await db.update(userTokensTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    const result = await verifyEmail(lastMailedToken());
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject an unknown token', async () => {
+    const result = await verifyEmail('unknown-token');
+    expect(result.success).toBe(false);
+  });
+
+  it('should resend verification and invalidate the previous link', async () => {
+    const user = await registerUser(testUserInput);
+    const firstToken = lastMailedToken();
+
+    const result = await resendVerificationEmail(user.id);
+
+    expect(result.success).toBe(true);
+    expect(mailTransport.messages).toHaveLength(2);
+    expect((await verifyEmail(firstToken)).success).toBe(false);
+    expect((await verifyEmail(lastMailedToken())).success).toBe(true);
+  });
+
+  it('should not resend verification for a verified address', async () => {
+    const user = await registerUser(testUserInput);
+    await verifyEmail(lastMailedToken());
+
+    const result = await resendVerificationEmail(user.id);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/already verified/i);
+  });
+
+  it('should report whether checkout is allowed', async () => {
+    expect(await isEmailVerificationSatisfied({ email_verified_at: null })).toBe(false);
+    expect(await isEmailVerificationSatisfied({ email_verified_at: new Date() })).toBe(true);
+
+    await updateSetting({ key: 'require_email_verification', value: 'false' });
+
+    expect(await isEmailVerificationSatisfied({ email_verified_at: null })).toBe(true);
+  });
+});
+
+describe('password reset', () => {
+  beforeEach(async () => {
+    await createDB();
+    mailTransport.messages.length = 0;
+  });
+  afterEach(resetDB);
+
+  it('should email a reset link for a known address', async () => {
+    await registerUser(testUserInput);
+    mailTransport.messages.length = 0;
+
+    const result = await requestPasswordReset('test@example.com');
+
+    expect(result.success).toBe(true);
+    expect(mailTransport.messages).toHaveLength(1);
+    expect(mailTransport.messages[0].subject).toMatch(/reset/i);
+  });
+
+  it('should respond identically for an unknown address', async () => {
+    const result = await requestPasswordReset('nobody@example.com');
+
+    expect(result).toEqual({ success: true });
+    expect(mailTransport.messages).toHaveLength(0);
+  });
+
+  it('should reset the password and revoke existing sessions', async () => {
+    const user = await registerUser(testUserInput);
+    const session = await createSession(user);
+    await requestPasswordReset('test@example.com');
+    // Allow the failed login below to be followed immediately by a successful one
+    await updateSetting({ key: 'login_backoff_base_seconds', value: '0' });
+
+    const result = await resetPassword({ token: lastMailedToken(), new_password: 'newpassword456' });
+
+    expect(result.success).toBe(true);
+    expect(await getCurrentUser(session.token)).toBeNull();
+    expect(await loginUser(testLoginInput)).toBeNull();
+    expect(await loginUser({ email: 'test@example.com', password: 'newpassword456' })).not.toBeNull();
+  });
+
+  it('should only allow a reset token to be used once', async () => {
+    await registerUser(testUserInput);
+    await requestPasswordReset('test@example.com');
+    const token = lastMailedToken();
+
+    await resetPassword({ token, new_password: 'newpassword456' });
+    const result = await resetPassword({ token, new_password: 'anotherpassword789' });
+
+    expect(result.success).toBe(false);
+    expect(await loginUser({ email: 'test@example.com', password: 'newpassword456' })).not.toBeNull();
+  });
+
+  it('should reject an expired reset token', async () => {
+    await registerUser(testUserInput);
+    await requestPasswordReset('test@example.com');
+    await db.update(userTokensTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(userTokensTable.purpose, 'password_reset'))
+      .execute();
+
+    const result = await resetPassword({ token: lastMailedToken(), new_password: 'newpassword456' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/invalid or expired/i);
+  });
+
+  it('should not accept a verification token as a reset token', async () => {
+    await updateSetting({ key: 'require_email_verification', value: 'true' });
+    await registerUser(testUserInput);
+
+    const result = await resetPassword({ token: lastMailedToken(), new_password: 'newpassword456' });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('changePassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should change the password and revoke other sessions', async () => {
+    const user = await registerUser(testUserInput);
+    const current = await createSession(user);
+    const other = await createSession(user);
+
+    const result = await changePassword(user.id, {
+      current_password: 'password123',
+      new_password: 'newpassword456'
+    }, current.session_id);
+
+    expect(result.success).toBe(true);
+    expect(await getCurrentUser(current.token)).not.toBeNull();
+    expect(await getCurrentUser(other.token)).toBeNull();
+    expect(await loginUser({ email: 'test@example.com', password: 'newpassword456' })).not.toBeNull();
+  });
+
+  it('should reject an incorrect current password', async () => {
+    const user = await registerUser(testUserInput);
+
+    const result = await changePassword(user.id, {
+      current_password: 'wrongpassword',
+      new_password: 'newpassword456'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/incorrect/i);
+    expect(await loginUser(testLoginInput)).not.toBeNull();
+  });
+});
+
+describe('login throttling', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const wrongPassword = { email: 'test@example.com', password: 'wrongpassword' };
+  const attacker = { ip_address: '203.0.113.66', user_agent: 'curl/8.0' };
+
+  // Skip past any backoff delay without waiting in real time
+  const expireBackoff = async () => {
+    await db.update(usersTable)
+      .set({ last_failed_login_at: new Date(Date.now() - 60 * 60 * 1000) })
+      .execute();
+  };
+
+  it('should back off after a failed attempt', async () => {
+    await registerUser(testUserInput);
+
+    expect(await loginUser(wrongPassword)).toBeNull();
+
+    // Even the correct password has to wait out the backoff
+    await expect(loginUser(testLoginInput)).rejects.toBeInstanceOf(LoginThrottledError);
+
+    await expireBackoff();
+    expect(await loginUser(testLoginInput)).not.toBeNull();
+  });
+
+  it('should double the backoff delay with each failure', async () => {
+    await registerUser(testUserInput);
+    await updateSetting({ key: 'login_backoff_base_seconds', value: '10' });
+
+    await loginUser(wrongPassword);
+    await expireBackoff();
+    await loginUser(wrongPassword);
+    await expireBackoff();
+    await loginUser(wrongPassword);
+
+    const error = await loginUser(testLoginInput).catch(e => e);
+    expect(error).toBeInstanceOf(LoginThrottledError);
+    expect(error.retryAfterSeconds).toBeGreaterThan(30);
+    expect(error.retryAfterSeconds).toBeLessThanOrEqual(40);
+  });
+
+  it('should lock the account once the threshold is reached', async () => {
+    const user = await registerUser(testUserInput);
+    await updateMultipleSettings([
+      { key: 'login_max_failed_attempts', value: '3' },
+      { key: 'login_backoff_base_seconds', value: '0' },
+      { key: 'login_lockout_minutes', value: '10' }
+    ]);
+
+    for (let i = 0; i < 3; i++) {
+      expect(await loginUser(wrongPassword)).toBeNull();
+    }
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(users[0].locked_until).not.toBeNull();
+    expect(users[0].locked_until!.getTime()).toBeGreaterThan(Date.now() + 9 * 60 * 1000);
+
+    const error = await loginUser(testLoginInput).catch(e => e);
+    expect(error).toBeInstanceOf(LoginThrottledError);
+    expect(error.retryAfterSeconds).toBeGreaterThan(9 * 60);
+  });
+
+  it('should allow login again once the lock expires', async () => {
+    const user = await registerUser(testUserInput);
+
+    await db.update(usersTable)
+      .set({ locked_until: new Date(Date.now() - 1000) })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(await loginUser(testLoginInput)).not.toBeNull();
+  });
+
+  it('should reset the failure counter after a successful login', async () => {
+    const user = await registerUser(testUserInput);
+
+    await loginUser(wrongPassword);
+    await expireBackoff();
+    await loginUser(testLoginInput);
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(users[0].failed_login_attempts).toEqual(0);
+    expect(users[0].last_failed_login_at).toBeNull();
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts.map(a => a.succeeded)).toEqual([false, true]);
+  });
+
+  it('should throttle an IP guessing across accounts', async () => {
+    await registerUser(testUserInput);
+    await updateMultipleSettings([
+      { key: 'login_ip_max_failed_attempts', value: '3' },
+      { key: 'login_backoff_base_seconds', value: '0' }
+    ]);
+
+    for (const email of ['a@example.com', 'b@example.com', 'c@example.com']) {
+      expect(await loginUser({ email, password: 'guess' }, attacker)).toBeNull();
+    }
+
+    await expect(loginUser(testLoginInput, attacker)).rejects.toBeInstanceOf(LoginThrottledError);
+
+    // Other addresses are unaffected
+    expect(await loginUser(testLoginInput, { ...attacker, ip_address: '198.51.100.7' })).not.toBeNull();
+  });
+
+  it('should let an admin unlock the account', async () => {
+    const user = await registerUser(testUserInput);
+    await updateMultipleSettings([
+      { key: 'login_max_failed_attempts', value: '1' },
+      { key: 'login_backoff_base_seconds', value: '0' }
+    ]);
+
+    await loginUser(wrongPassword);
+    await expect(loginUser(testLoginInput)).rejects.toBeInstanceOf(LoginThrottledError);
+
+    expect(await unlockUser(user.id)).toBe(true);
+    expect(await loginUser(testLoginInput)).not.toBeNull();
+  });
+
+  it('should return false when unlocking unknown user', async () => {
+    expect(await unlockUser(99999)).toBe(false);
+  });
+
+  it('should lift the lock after a password reset', async () => {
+    await registerUser(testUserInput);
+    await updateMultipleSettings([
+      { key: 'login_max_failed_attempts', value: '1' },
+      { key: 'login_backoff_base_seconds', value: '0' }
+    ]);
+
+    await loginUser(wrongPassword);
+    await requestPasswordReset('test@example.com');
+    await resetPassword({ token: lastMailedToken(), new_password: 'newpassword456' });
+
+    expect(await loginUser({ email: 'test@example.com', password: 'newpassword456' })).not.toBeNull();
+  });
+});
+
+describe('getMailSender', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should only use SMTP once a host is configured', async () => {
+    expect((await getMailSender()).smtp).toBeNull();
+
+    await updateMultipleSettings([
+      { key: 'smtp_host', value: 'smtp.example.com' },
+      { key: 'smtp_port', value: '465' },
+      { key: 'smtp_username', value: 'mailer' },
+      { key: 'smtp_password', value: 'secret' }
+    ]);
+
+    expect((await getMailSender()).smtp).toEqual({ host: 'smtp.example.com', port: 465, username: 'mailer', password: 'secret' });
+  });
+});
+
+describe('getEmailVerificationWarning', () => {
+  beforeEach(() => {
+    setMailTransport(null);
+    return createDB();
+  });
+  afterEach(() => {
+    setMailTransport(mailTransport);
+    return resetDB();
+  });
+
+  it('should warn while verification is required and mail cannot be delivered', async () => {
+    expect(await getEmailVerificationWarning()).toMatch(/no mail server is configured/);
+
+    await updateSetting({ key: 'smtp_host', value: 'smtp.example.com' });
+    expect(await getEmailVerificationWarning()).toBeNull();
+  });
+
+  it('should not warn when verification is turned off', async () => {
+    await updateSetting({ key: 'require_email_verification', value: 'false' });
+
+    expect(await getEmailVerificationWarning()).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, productsTable, productVariantsTable, usersTable, ordersTable, orderItemsTable, cartItemsTable, wishlistsTable, wishlistItemsTable } from '../db/schema';
+import { backfillProductVariants, removeDuplicateWishlistItems } from '../db/backfill';
+import { createProduct } from '../handlers/products';
+import { asc, eq, sql } from 'drizzle-orm';
+
+// Recreates the state of a database from before variants: products without variants and items without a variant
+const seedLegacyData = async () => {
+  await db.execute(sql`alter table cart_items alter column variant_id drop not null`);
+
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  const products = await db.insert(productsTable)
+    .values([
+      { name: 'Photo Editor', description: 'Edit raw photos', price: '49.99', category_id: category[0].id, stock_quantity: 10 },
+      { name: 'Audio Mixer', description: 'Mix tracks', price: '99.00', category_id: category[0].id, license_type: 'multi' }
+    ])
+    .returning()
+    .execute();
+
+  const user = await db.insert(usersTable)
+    .values({ email: 'buyer@example.com', password_hash: 'x', first_name: 'Buyer', last_name: 'One' })
+    .returning()
+    .execute();
+
+  await db.execute(sql`insert into cart_items (user_id, product_id, quantity) values (${user[0].id}, ${products[0].id}, 1)`);
+
+  const order = await db.insert(ordersTable)
+    .values({ user_id: user[0].id, order_number: 'ORD-1', status: 'completed', subtotal: '99.00', total_amount: '99.00' })
+    .returning()
+    .execute();
+
+  await db.insert(orderItemsTable)
+    .values({ order_id: order[0].id, product_id: products[1].id, quantity: 1, unit_price: '99.00', total_price: '99.00' })
+    .execute();
+
+  return { editor: products[0], mixer: products[1] };
+};
+
+describe('backfillProductVariants', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should give every product its default variant and point items at it', async () => {
+    const { editor, mixer } = await seedLegacyData();
+
+    await backfillProductVariants();
+
+    const variants = await db.select().from(productVariantsTable).orderBy(asc(productVariantsTable.product_id)).execute();
+    expect(variants.map(variant => [variant.product_id, variant.name, variant.sku, variant.price, variant.license_type, variant.stock_quantity])).toEqual([
+      [editor.id, 'Single license', `P${editor.id}-SINGLE`, '49.99', 'single', 10],
+      [mixer.id, 'Multi license', `P${mixer.id}-MULTI`, '99.00', 'multi', 0]
+    ]);
+
+    const cartItems = await db.select().from(cartItemsTable).execute();
+    expect(cartItems[0].variant_id).toEqual(variants[0].id);
+    const orderItems = await db.select().from(orderItemsTable).execute();
+    expect(orderItems[0].variant_id).toEqual(variants[1].id);
+
+    // What push applies next now succeeds on the populated table
+    await db.execute(sql`alter table cart_items alter column variant_id set not null`);
+  });
+
+  it('should leave products that already have variants alone and be safe to rerun', async () => {
+    await seedLegacyData();
+    const current = await createProduct({
+      name: 'Video Cutter',
+      description: 'Cut clips',
+      short_description: null,
+      price: 19.99,
+      category_id: (await db.select().from(categoriesTable).execute())[0].id,
+      image_url: null,
+      download_url: null,
+      file_size: null,
+      version: null,
+      license_type: 'single',
+      stock_quantity: 5
+    });
+
+    await backfillProductVariants();
+    await backfillProductVariants();
+
+    expect(await db.select().from(productVariantsTable).execute()).toHaveLength(3);
+    expect(await db.select().from(productVariantsTable).where(eq(productVariantsTable.product_id, current.id)).execute()).toHaveLength(1);
+  });
+
+  it('should do nothing on an empty database', async () => {
+    await resetDB();
+
+    await backfillProductVariants();
+
+    const { rows } = await db.execute<{ exists: boolean }>(sql`select to_regclass('public.product_variants') is not null as exists`);
+    expect(rows[0].exists).toBe(false);
+  });
+});
+
+describe('removeDuplicateWishlistItems', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should keep the first of repeated wishlist entries', async () => {
+    await db.execute(sql`alter table wishlist_items drop constraint wishlist_items_wishlist_product_variant_unique`);
+    const { editor, mixer } = await seedLegacyData();
+    await backfillProductVariants();
+    const user = await db.select().from(usersTable).execute();
+    const list = await db.insert(wishlistsTable)
+      .values({ user_id: user[0].id, name: 'Gift ideas' })
+      .returning()
+      .execute();
+    const item = (productId: number) => ({ wishlist_id: list[0].id, product_id: productId, last_seen_price: '49.99', last_seen_in_stock: true });
+    const rows = await db.insert(wishlistItemsTable)
+      .values([item(editor.id), item(editor.id), item(mixer.id), item(editor.id)])
+      .returning()
+      .execute();
+
+    await removeDuplicateWishlistItems();
+
+    const remaining = await db.select().from(wishlistItemsTable).orderBy(asc(wishlistItemsTable.id)).execute();
+    expect(remaining.map(row => row.id)).toEqual([rows[0].id, rows[2].id]);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, categoriesTable, productsTable, cartItemsTable, couponsTable } from '../db/schema';
+import { usersTable, categoriesTable, productsTable, productVariantsTable, cartItemsTable, couponsTable } from '../db/schema';
 import { type AddToCartInput, type UpdateCartItemInput } from '../schema';
 import {
   addToCart,
@@ -91,6 +91,18 @@ describe('Cart Handlers', () => {
       .returning()
       .execute();
 
+    // Sell each product through a single variant matching its price and stock
+    await db.insert(productVariantsTable)
+      .values([product1[0], product2[0], inactiveProduct[0], cheapProduct[0]].map(product => ({
+        product_id: product.id,
+        name: 'Single license',
+        sku: `SKU-${product.id}`,
+        price: product.price,
+        license_type: 'single' as const,
+        stock_quantity: product.stock_quantity
+      })))
+      .execute();
+
     // Create coupon
     const coupon = await db.insert(couponsTable)
       .values({
@@ -117,6 +129,16 @@ describe('Cart Handlers', () => {
   };
 
   describe('addToCart', () => {
+    it('should reject products that are not on sale yet', async () => {
+      const { user, product1 } = await setupTestData();
+      await db.update(productsTable)
+        .set({ available_from: new Date(Date.now() + 60 * 60 * 1000) })
+        .where(eq(productsTable.id, product1.id))
+        .execute();
+
+      await expect(addToCart({ user_id: user.id, product_id: product1.id, quantity: 1 })).rejects.toThrow(/not found or inactive/i);
+    });
+
     it('should add item to cart successfully', async () => {
       const { user, product1 } = await setupTestData();
 
@@ -205,6 +227,79 @@ describe('Cart Handlers', () => {
     });
   });
 
+  describe('variants', () => {
+    // Adds a team edition next to the single license of the product
+    const addTeamVariant = async (productId: number) => {
+      const [variant] = await db.insert(productVariantsTable)
+        .values({
+          product_id: productId,
+          name: 'Team license',
+          sku: `SKU-${productId}-TEAM`,
+          price: '99.00',
+          license_type: 'multi',
+          seats: 5,
+          stock_quantity: 2
+        })
+        .returning()
+        .execute();
+      return variant;
+    };
+
+    it('should keep separate lines per variant and price each by its variant', async () => {
+      const { user, product1 } = await setupTestData();
+      const teamVariant = await addTeamVariant(product1.id);
+      const [singleVariant] = await db.select()
+        .from(productVariantsTable)
+        .where(and(eq(productVariantsTable.product_id, product1.id), eq(productVariantsTable.name, 'Single license')))
+        .execute();
+
+      await addToCart({ user_id: user.id, product_id: product1.id, variant_id: singleVariant.id, quantity: 1 });
+      await addToCart({ user_id: user.id, product_id: product1.id, variant_id: teamVariant.id, quantity: 2 });
+
+      const items = await getCartItems(user.id);
+      expect(items).toHaveLength(2);
+      expect(items.find(item => item.variant_id === teamVariant.id)!.variant.seats).toBe(5);
+
+      const result = await calculateCartTotal(user.id);
+      expect(result.subtotal).toBe(227.99); // 29.99 + 2 * 99.00
+    });
+
+    it('should require a variant for products sold in several variants', async () => {
+      const { user, product1 } = await setupTestData();
+      await addTeamVariant(product1.id);
+
+      await expect(addToCart({
+        user_id: user.id,
+        product_id: product1.id,
+        quantity: 1
+      })).rejects.toThrow(/variant must be chosen/i);
+    });
+
+    it('should check stock against the chosen variant', async () => {
+      const { user, product1 } = await setupTestData();
+      const teamVariant = await addTeamVariant(product1.id);
+
+      await expect(addToCart({
+        user_id: user.id,
+        product_id: product1.id,
+        variant_id: teamVariant.id,
+        quantity: 3 // Team stock is 2, product stock is 10
+      })).rejects.toThrow(/insufficient stock/i);
+    });
+
+    it('should reject a variant of another product', async () => {
+      const { user, product1, product2 } = await setupTestData();
+      const teamVariant = await addTeamVariant(product2.id);
+
+      await expect(addToCart({
+        user_id: user.id,
+        product_id: product1.id,
+        variant_id: teamVariant.id,
+        quantity: 1
+      })).rejects.toThrow(/variant not found/i);
+    });
+  });
+
   describe('getCartItems', () => {
     it('should return cart items with product details', async () => {
       const { user, product1, product2 } = await setupTestData();
@@ -246,7 +341,7 @@ describe('Cart Handlers', () => {
         quantity: 5
       };
 
-      const result = await updateCartItem(input);
+      const result = await updateCartItem(input, user.id);
 
       expect(result).not.toBeNull();
       expect(result!.quantity).toBe(5);
@@ -254,12 +349,35 @@ describe('Cart Handlers', () => {
     });
 
     it('should return null for non-existent cart item', async () => {
+      const { user } = await setupTestData();
+
       const result = await updateCartItem({
         id: 999,
         quantity: 1
+      }, user.id);
+
+      expect(result).toBeNull();
+    });
+
+    it('should return null for cart item owned by another user', async () => {
+      const { user, product1 } = await setupTestData();
+
+      const cartItem = await addToCart({
+        user_id: user.id,
+        product_id: product1.id,
+        quantity: 2
       });
 
+      const result = await updateCartItem({
+        id: cartItem.id,
+        quantity: 3
+      }, user.id + 1);
+
       expect(result).toBeNull();
+
+      // Verify quantity is unchanged
+      const cartItems = await getCartItems(user.id);
+      expect(cartItems[0].quantity).toBe(2);
     });
 
     it('should throw error for insufficient stock', async () => {
@@ -274,7 +392,7 @@ describe('Cart Handlers', () => {
       await expect(updateCartItem({
         id: cartItem.id,
         quantity: 10 // More than stock (5)
-      })).rejects.toThrow(/insufficient stock/i);
+      }, user.id)).rejects.toThrow(/insufficient stock/i);
     });
   });
 
@@ -409,9 +527,9 @@ describe('Cart Handlers', () => {
       await addToCart({ user_id: user.id, product_id: product2.id, quantity: 3 });
       
       // Manually update stock to be less than cart quantity
-      await db.update(productsTable)
+      await db.update(productVariantsTable)
         .set({ stock_quantity: 2 })
-        .where(eq(productsTable.id, product2.id))
+        .where(eq(productVariantsTable.product_id, product2.id))
         .execute();
 
       const result = await validateCart(user.id);
@@ -439,6 +557,32 @@ describe('Cart Handlers', () => {
       expect(result.errors[0]).toMatch(/no longer available/i);
       expect(result.unavailableItems).toContain(product1.id);
     });
+
+    it('should detect products outside their availability window', async () => {
+      const { user, product1, product2 } = await setupTestData();
+
+      await addToCart({ user_id: user.id, product_id: product1.id, quantity: 1 });
+      await addToCart({ user_id: user.id, product_id: product2.id, quantity: 1 });
+
+      // Launch moved to tomorrow, and a limited-time sale that ended an hour ago
+      const launch = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      await db.update(productsTable)
+        .set({ available_from: launch })
+        .where(eq(productsTable.id, product1.id))
+        .execute();
+      await db.update(productsTable)
+        .set({ available_until: new Date(Date.now() - 60 * 60 * 1000) })
+        .where(eq(productsTable.id, product2.id))
+        .execute();
+
+      const result = await validateCart(user.id);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors.some(error => error.includes(`not on sale until ${launch.toISOString()}`))).toBe(true);
+      expect(result.errors.some(error => /no longer available/i.test(error))).toBe(true);
+      expect(result.unavailableItems.sort()).toEqual([product1.id, product2.id].sort());
+    });
   });
 
   describe('getCartItemCount', () => {
@@ -7,7 +7,10 @@ import {
   createCategory, 
   getCategories, 
   getActiveCategories, 
+  getCategoryTree, 
   getCategoryById, 
+  getCategoryBySlug, 
+  setCategoryFeaturedProducts, 
   updateCategory, 
   deleteCategory 
 } from '../handlers/categories';
@@ -167,7 +170,7 @@ describe('Categories Handler', () => {
       expect(result!.slug).toEqual('software-development');
     });
 
-    it('should return inactive categories as well', async () => {
+    it('should return inactive categories only when asked to', async () => {
       const created = await createCategory(testCategoryInput);
       
       // Deactivate the category
@@ -176,10 +179,11 @@ describe('Categories Handler', () => {
         is_active: false
       });
 
-      const result = await getCategoryById(created.id);
+      const result = await getCategoryById(created.id, true);
 
       expect(result).not.toBeNull();
       expect(result!.is_active).toBe(false);
+      expect(await getCategoryById(created.id)).toBeNull();
     });
   });
 
@@ -305,16 +309,16 @@ describe('Categories Handler', () => {
   });
 
   describe('deleteCategory', () => {
-    it('should return false for non-existent category', async () => {
-      const result = await deleteCategory(999);
-      expect(result).toBe(false);
+    it('should return null for non-existent category', async () => {
+      const result = await deleteCategory({ id: 999 });
+      expect(result).toBeNull();
     });
 
     it('should delete category successfully', async () => {
       const created = await createCategory(testCategoryInput);
       
-      const result = await deleteCategory(created.id);
-      expect(result).toBe(true);
+      const result = await deleteCategory({ id: created.id });
+      expect(result!.deleted).toBe(true);
 
       // Verify category is deleted
       const found = await getCategoryById(created.id);
@@ -333,7 +337,7 @@ describe('Categories Handler', () => {
         stock_quantity: 10
       }).execute();
 
-      expect(deleteCategory(category.id)).rejects.toThrow(/cannot delete category/i);
+      expect(deleteCategory({ id: category.id })).rejects.toThrow(/cannot delete category/i);
 
       // Verify category still exists
       const found = await getCategoryById(category.id);
@@ -353,7 +357,7 @@ describe('Categories Handler', () => {
       }).returning().execute();
 
       // First attempt should fail
-      expect(deleteCategory(category.id)).rejects.toThrow(/cannot delete category/i);
+      expect(deleteCategory({ id: category.id })).rejects.toThrow(/cannot delete category/i);
 
       // Delete the product first
       await db.delete(productsTable)
@@ -361,12 +365,269 @@ describe('Categories Handler', () => {
         .execute();
 
       // Now deletion should succeed
-      const result = await deleteCategory(category.id);
-      expect(result).toBe(true);
+      const result = await deleteCategory({ id: category.id });
+      expect(result!.deleted).toBe(true);
 
       // Verify category is deleted
       const found = await getCategoryById(category.id);
       expect(found).toBeNull();
     });
   });
-});
\ No newline at end of file
+
+  describe('category hierarchy', () => {
+    const createTree = async () => {
+      const software = await createCategory({ name: 'Software', description: null, slug: 'software' });
+      const design = await createCategory({ name: 'Design', description: null, slug: 'design', parent_id: software.id });
+      const plugins = await createCategory({ name: 'Plugins', description: null, slug: 'plugins', parent_id: design.id });
+      const audio = await createCategory({ name: 'Audio', description: null, slug: 'audio', parent_id: software.id });
+      return { software, design, plugins, audio };
+    };
+
+    it('should nest categories under their parents', async () => {
+      const { software } = await createTree();
+      await createCategory(testCategoryInput2);
+
+      const tree = await getCategoryTree();
+
+      expect(tree.map(node => node.slug)).toEqual(['design-resources', 'software']);
+      const softwareNode = tree.find(node => node.id === software.id)!;
+      expect(softwareNode.children.map(node => node.slug)).toEqual(['audio', 'design']);
+      expect(softwareNode.children[1].children.map(node => node.slug)).toEqual(['plugins']);
+    });
+
+    it('should leave inactive categories and their subtrees out of the public tree', async () => {
+      const { design } = await createTree();
+      await updateCategory({ id: design.id, is_active: false });
+
+      const tree = await getCategoryTree();
+      expect(tree[0].children.map(node => node.slug)).toEqual(['audio']);
+
+      const full = await getCategoryTree(true);
+      expect(full[0].children.map(node => node.slug)).toEqual(['audio', 'design']);
+    });
+
+    it('should return breadcrumbs from the root', async () => {
+      const { software, plugins } = await createTree();
+
+      const result = await getCategoryById(plugins.id);
+
+      expect(result!.breadcrumbs.map(crumb => crumb.name)).toEqual(['Software', 'Design', 'Plugins']);
+      expect(result!.breadcrumbs[0]).toEqual({ id: software.id, name: 'Software', slug: 'software' });
+      expect((await getCategoryById(software.id))!.breadcrumbs).toHaveLength(1);
+    });
+
+    it('should move a category to another parent or to the top level', async () => {
+      const { design, audio } = await createTree();
+
+      const moved = await updateCategory({ id: audio.id, parent_id: design.id });
+      expect(moved!.parent_id).toEqual(design.id);
+
+      const top = await updateCategory({ id: audio.id, parent_id: null });
+      expect(top!.parent_id).toBeNull();
+    });
+
+    it('should prevent cycles', async () => {
+      const { software, design, plugins } = await createTree();
+
+      await expect(updateCategory({ id: software.id, parent_id: software.id })).rejects.toThrow(/under itself/i);
+      await expect(updateCategory({ id: software.id, parent_id: plugins.id })).rejects.toThrow(/under itself/i);
+      await expect(updateCategory({ id: design.id, parent_id: plugins.id })).rejects.toThrow(/under itself/i);
+    });
+
+    it('should reject a parent that does not exist', async () => {
+      const { design } = await createTree();
+
+      await expect(createCategory({ ...testCategoryInput, parent_id: 99999 })).rejects.toThrow(/not found/i);
+      await expect(updateCategory({ id: design.id, parent_id: 99999 })).rejects.toThrow(/not found/i);
+    });
+
+    it('should not delete a category with subcategories', async () => {
+      const { design, plugins } = await createTree();
+
+      await expect(deleteCategory({ id: design.id })).rejects.toThrow(/subcategories/i);
+      expect((await deleteCategory({ id: plugins.id }))!.deleted).toBe(true);
+      expect((await deleteCategory({ id: design.id }))!.deleted).toBe(true);
+    });
+  });
+
+  describe('deleteCategory modes', () => {
+    const addProduct = (categoryId: number, name: string) => db.insert(productsTable).values({
+      name,
+      description: 'A test product',
+      price: '19.99',
+      category_id: categoryId,
+      stock_quantity: 10
+    }).execute();
+
+    it('should reassign products and subcategories to the target', async () => {
+      const old = await createCategory(testCategoryInput);
+      const target = await createCategory(testCategoryInput2);
+      const child = await createCategory({ name: 'Compilers', description: null, slug: 'compilers', parent_id: old.id });
+      await addProduct(old.id, 'Debugger');
+      await addProduct(old.id, 'Profiler');
+
+      const result = await deleteCategory({ id: old.id, mode: 'reassign', target_category_id: target.id });
+
+      expect(result).toEqual({ id: old.id, deleted: true, products_moved: 2, subcategories_moved: 1 });
+      expect(await getCategoryById(old.id)).toBeNull();
+      const moved = await db.select().from(productsTable).where(eq(productsTable.category_id, target.id)).execute();
+      expect(moved).toHaveLength(2);
+      expect((await getCategoryById(child.id))!.parent_id).toEqual(target.id);
+
+      // The deleted category's slug now redirects to the target
+      expect((await getCategoryBySlug('software-development'))!.id).toEqual(target.id);
+    });
+
+    it('should refuse to reassign without a valid target', async () => {
+      const old = await createCategory(testCategoryInput);
+      const child = await createCategory({ name: 'Compilers', description: null, slug: 'compilers', parent_id: old.id });
+
+      await expect(deleteCategory({ id: old.id, mode: 'reassign' })).rejects.toThrow(/target category is required/i);
+      await expect(deleteCategory({ id: old.id, mode: 'reassign', target_category_id: 99999 })).rejects.toThrow(/not found/i);
+      await expect(deleteCategory({ id: old.id, mode: 'reassign', target_category_id: child.id })).rejects.toThrow(/cannot be reassigned/i);
+      expect(await getCategoryById(old.id)).not.toBeNull();
+    });
+
+    it('should archive a category and leave its products in place', async () => {
+      const category = await createCategory(testCategoryInput);
+      await addProduct(category.id, 'Debugger');
+
+      const result = await deleteCategory({ id: category.id, mode: 'archive' });
+
+      expect(result).toEqual({ id: category.id, deleted: false, products_moved: 0, subcategories_moved: 0 });
+      const archived = await getCategoryById(category.id, true);
+      expect(archived!.is_active).toBe(false);
+      expect(await getActiveCategories()).toHaveLength(0);
+    });
+
+    it('should hide archived categories and their subcategories from public lookups', async () => {
+      const category = await createCategory(testCategoryInput);
+      const child = await createCategory({ name: 'Compilers', description: null, slug: 'compilers', parent_id: category.id });
+
+      await deleteCategory({ id: category.id, mode: 'archive' });
+
+      expect(await getCategoryById(category.id)).toBeNull();
+      expect(await getCategoryById(child.id)).toBeNull();
+      expect(await getCategoryBySlug(testCategoryInput.slug)).toBeNull();
+      expect((await getCategoryBySlug('compilers', true))!.id).toEqual(child.id);
+    });
+  });
+
+  describe('slug aliases', () => {
+    it('should redirect old slugs to the renamed category', async () => {
+      const created = await createCategory(testCategoryInput);
+      await updateCategory({ id: created.id, slug: 'dev-tools' });
+      await updateCategory({ id: created.id, slug: 'developer-tools' });
+
+      for (const slug of ['software-development', 'dev-tools', 'developer-tools']) {
+        const result = await getCategoryBySlug(slug);
+        expect(result!.id).toEqual(created.id);
+        expect(result!.slug).toEqual('developer-tools');
+      }
+      expect(await getCategoryBySlug('unknown')).toBeNull();
+    });
+
+    it('should let a current slug win over an alias', async () => {
+      const first = await createCategory(testCategoryInput);
+      await updateCategory({ id: first.id, slug: 'dev-tools' });
+
+      const second = await createCategory({ ...testCategoryInput2, slug: 'software-development' });
+
+      expect((await getCategoryBySlug('software-development'))!.id).toEqual(second.id);
+
+      // Taking the old slug back drops the alias
+      await updateCategory({ id: second.id, slug: 'design-resources' });
+      await updateCategory({ id: first.id, slug: 'software-development' });
+      expect((await getCategoryBySlug('dev-tools'))!.id).toEqual(first.id);
+      expect((await getCategoryBySlug('software-development'))!.id).toEqual(first.id);
+    });
+  });
+
+  describe('landing page content', () => {
+    it('should store and update landing page and SEO fields', async () => {
+      const created = await createCategory({
+        ...testCategoryInput,
+        hero_image_url: 'https://example.com/hero.jpg',
+        intro: '<p>Everything you need to <strong>ship</strong></p>',
+        meta_title: 'Developer tools',
+        meta_description: 'IDEs, debuggers and more'
+      });
+
+      expect(created.hero_image_url).toEqual('https://example.com/hero.jpg');
+      expect(created.sort_order).toEqual(0);
+
+      const updated = await updateCategory({ id: created.id, meta_title: 'Dev tools', intro: null, sort_order: 3 });
+
+      expect(updated!.meta_title).toEqual('Dev tools');
+      expect(updated!.meta_description).toEqual('IDEs, debuggers and more');
+      expect(updated!.intro).toBeNull();
+      expect(updated!.sort_order).toEqual(3);
+    });
+
+    it('should order active categories by sort order, then name', async () => {
+      await createCategory({ ...testCategoryInput, sort_order: 1 });
+      await createCategory({ ...testCategoryInput2, sort_order: 2 });
+      await createCategory({ name: 'Audio', description: null, slug: 'audio', sort_order: 2 });
+
+      const result = await getActiveCategories();
+
+      expect(result.map(category => category.name)).toEqual(['Software Development', 'Audio', 'Design Resources']);
+    });
+  });
+
+  describe('setCategoryFeaturedProducts', () => {
+    const addProduct = async (categoryId: number, name: string, isActive = true) => {
+      const result = await db.insert(productsTable).values({
+        name,
+        description: 'A test product',
+        price: '19.99',
+        category_id: categoryId,
+        stock_quantity: 10,
+        is_active: isActive
+      }).returning().execute();
+      return result[0];
+    };
+
+    it('should pin products in order and return them with active categories', async () => {
+      const category = await createCategory(testCategoryInput);
+      const child = await createCategory({ ...testCategoryInput2, parent_id: category.id });
+      const debuggerTool = await addProduct(category.id, 'Debugger');
+      const profiler = await addProduct(child.id, 'Profiler');
+      const hidden = await addProduct(category.id, 'Hidden', false);
+
+      const pinned = await setCategoryFeaturedProducts({ category_id: category.id, product_ids: [profiler.id, hidden.id, debuggerTool.id, profiler.id] });
+
+      expect(pinned).toEqual([profiler.id, hidden.id, debuggerTool.id]);
+      expect((await getCategoryById(category.id, true))!.featured_product_ids).toEqual([profiler.id, hidden.id, debuggerTool.id]);
+      expect((await getCategoryById(category.id))!.featured_product_ids).toEqual([profiler.id, debuggerTool.id]);
+
+      const active = await getActiveCategories();
+      expect(active.find(c => c.id === category.id)!.featured_product_ids).toEqual([profiler.id, debuggerTool.id]);
+      expect(active.find(c => c.id === child.id)!.featured_product_ids).toEqual([]);
+
+      await setCategoryFeaturedProducts({ category_id: category.id, product_ids: [] });
+      expect((await getCategoryById(category.id))!.featured_product_ids).toEqual([]);
+    });
+
+    it('should reject products outside the category', async () => {
+      const category = await createCategory(testCategoryInput);
+      const other = await createCategory(testCategoryInput2);
+      const product = await addProduct(other.id, 'Brush Pack');
+
+      await expect(setCategoryFeaturedProducts({ category_id: category.id, product_ids: [product.id] })).rejects.toThrow(/not found in this category/i);
+      expect(await setCategoryFeaturedProducts({ category_id: 99999, product_ids: [] })).toBeNull();
+    });
+
+    it('should drop pins when the category is deleted', async () => {
+      const category = await createCategory(testCategoryInput);
+      const target = await createCategory(testCategoryInput2);
+      const product = await addProduct(category.id, 'Debugger');
+      await setCategoryFeaturedProducts({ category_id: category.id, product_ids: [product.id] });
+
+      const result = await deleteCategory({ id: category.id, mode: 'reassign', target_category_id: target.id });
+
+      expect(result!.products_moved).toEqual(1);
+      expect((await getCategoryById(target.id))!.featured_product_ids).toEqual([]);
+    });
+  });
+});
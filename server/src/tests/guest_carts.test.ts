@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, productsTable, productVariantsTable, guestCartsTable, cartItemsTable, settingsTable } from '../db/schema';
+import { addToCart, getCartItems, updateCartItem, getCartItemCount } from '../handlers/cart';
+import {
+  createGuestCart,
+  resolveGuestCart,
+  addToGuestCart,
+  mergeGuestCart,
+  deleteExpiredGuestCarts
+} from '../handlers/guest_carts';
+import { updateSetting } from '../handlers/settings';
+import { eq } from 'drizzle-orm';
+
+const setupTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({
+      email: 'shopper@example.com',
+      password_hash: 'hashedpassword',
+      first_name: 'Guest',
+      last_name: 'Shopper',
+      role: 'customer'
+    })
+    .returning()
+    .execute();
+
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  const product = (name: string, stock: number) => db.insert(productsTable)
+    .values({
+      name,
+      description: `${name} for testing`,
+      price: '29.99',
+      category_id: category[0].id,
+      stock_quantity: stock
+    })
+    .returning()
+    .execute()
+    .then(rows => rows[0]);
+
+  const editor = await product('Photo Editor', 5);
+  const mixer = await product('Audio Mixer', 10);
+
+  await db.insert(productVariantsTable)
+    .values([editor, mixer].map(row => ({
+      product_id: row.id,
+      name: 'Single license',
+      sku: `SKU-${row.id}`,
+      price: row.price,
+      license_type: 'single' as const,
+      stock_quantity: row.stock_quantity
+    })))
+    .execute();
+
+  return { user: user[0], editor, mixer };
+};
+
+describe('Guest cart handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createGuestCart', () => {
+    it('should return a token that resolves to the cart without storing it', async () => {
+      const cart = await createGuestCart();
+
+      expect(cart.cart_token.length).toBeGreaterThan(20);
+      expect(cart.expires_at.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+
+      const stored = await db.select().from(guestCartsTable).execute();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].token_hash).not.toEqual(cart.cart_token);
+      expect(await resolveGuestCart(cart.cart_token)).toEqual({ guest_cart_id: stored[0].id });
+    });
+
+    it('should use the configured lifetime', async () => {
+      await updateSetting({ key: 'guest_cart_ttl_days', value: '2' });
+
+      const cart = await createGuestCart();
+
+      expect(cart.expires_at.getTime()).toBeLessThan(Date.now() + 3 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should fall back to the default lifetime when the stored value is unusable', async () => {
+      // Written past validation, as an older release could have stored it
+      await db.insert(settingsTable).values({ key: 'guest_cart_ttl_days', value: 'abc' }).execute();
+
+      const cart = await createGuestCart();
+
+      expect(cart.expires_at.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject unknown and expired tokens', async () => {
+      const cart = await createGuestCart();
+      await db.update(guestCartsTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+      await expect(resolveGuestCart('not-a-token')).rejects.toThrow(/not found or expired/i);
+      await expect(resolveGuestCart(cart.cart_token)).rejects.toThrow(/not found or expired/i);
+    });
+  });
+
+  describe('guest cart items', () => {
+    it('should keep guest items apart from user carts', async () => {
+      const { user, editor, mixer } = await setupTestData();
+      const cart = await createGuestCart();
+
+      const item = await addToGuestCart({ cart_token: cart.cart_token, product_id: editor.id, quantity: 2 });
+      await addToGuestCart({ cart_token: cart.cart_token, product_id: editor.id, quantity: 1 });
+      await addToCart({ user_id: user.id, product_id: mixer.id, quantity: 1 });
+
+      expect(item.user_id).toBeNull();
+      const owner = await resolveGuestCart(cart.cart_token);
+      const items = await getCartItems(owner);
+      expect(items.map(i => [i.product.name, i.quantity])).toEqual([['Photo Editor', 3]]);
+      expect(await getCartItemCount(owner)).toEqual(3);
+      expect(await getCartItemCount(user.id)).toEqual(1);
+
+      // A guest cannot change another cart's items
+      const userItem = (await getCartItems(user.id))[0];
+      expect(await updateCartItem({ id: userItem.id, quantity: 5 }, owner)).toBeNull();
+    });
+
+    it('should enforce stock like a user cart', async () => {
+      const { editor } = await setupTestData();
+      const cart = await createGuestCart();
+
+      await expect(addToGuestCart({ cart_token: cart.cart_token, product_id: editor.id, quantity: 6 })).rejects.toThrow(/insufficient stock/i);
+    });
+    it('should refuse items without exactly one owning cart', async () => {
+      const { user, editor } = await setupTestData();
+      const owner = await resolveGuestCart((await createGuestCart()).cart_token);
+      const variants = await db.select().from(productVariantsTable).where(eq(productVariantsTable.product_id, editor.id)).execute();
+      const item = { product_id: editor.id, variant_id: variants[0].id, quantity: 1 };
+
+      await expect(db.insert(cartItemsTable).values(item).execute()).rejects.toThrow();
+      await expect(db.insert(cartItemsTable).values({ ...item, user_id: user.id, guest_cart_id: owner!.guest_cart_id }).execute()).rejects.toThrow();
+    });
+  });
+
+  describe('mergeGuestCart', () => {
+    it('should combine quantities capped by stock and delete the guest cart', async () => {
+      const { user, editor, mixer } = await setupTestData();
+      const cart = await createGuestCart();
+      await addToGuestCart({ cart_token: cart.cart_token, product_id: editor.id, quantity: 4 });
+      await addToGuestCart({ cart_token: cart.cart_token, product_id: mixer.id, quantity: 2 });
+      await addToCart({ user_id: user.id, product_id: editor.id, quantity: 3 });
+
+      const result = await mergeGuestCart(cart.cart_token, user.id);
+
+      expect(result!.items.map(i => [i.product.name, i.quantity]).sort()).toEqual([['Audio Mixer', 2], ['Photo Editor', 5]]);
+      expect(result!.adjustments).toEqual(['Quantity of "Photo Editor" (Single license) was reduced to 5 to match available stock']);
+      expect(await db.select().from(guestCartsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(cartItemsTable).execute()).toHaveLength(2);
+      expect(await mergeGuestCart(cart.cart_token, user.id)).toBeNull();
+    });
+
+    it('should drop items that can no longer be bought', async () => {
+      const { user, editor, mixer } = await setupTestData();
+      const cart = await createGuestCart();
+      await addToGuestCart({ cart_token: cart.cart_token, product_id: editor.id, quantity: 1 });
+      await addToGuestCart({ cart_token: cart.cart_token, product_id: mixer.id, quantity: 1 });
+      await db.update(productsTable).set({ is_active: false }).where(eq(productsTable.id, mixer.id)).execute();
+      await db.update(productVariantsTable).set({ stock_quantity: 0 }).where(eq(productVariantsTable.product_id, editor.id)).execute();
+
+      const result = await mergeGuestCart(cart.cart_token, user.id);
+
+      expect(result!.items).toHaveLength(0);
+      expect(result!.adjustments).toHaveLength(2);
+    });
+  });
+
+  describe('deleteExpiredGuestCarts', () => {
+    it('should delete only expired carts with their items', async () => {
+      const { editor } = await setupTestData();
+      const expired = await createGuestCart();
+      const active = await createGuestCart();
+      await addToGuestCart({ cart_token: expired.cart_token, product_id: editor.id, quantity: 1 });
+      await addToGuestCart({ cart_token: active.cart_token, product_id: editor.id, quantity: 1 });
+      const expiredOwner = await resolveGuestCart(expired.cart_token);
+      await db.update(guestCartsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(guestCartsTable.id, expiredOwner.guest_cart_id))
+        .execute();
+
+      expect(await deleteExpiredGuestCarts()).toEqual(1);
+
+      expect(await db.select().from(guestCartsTable).execute()).toHaveLength(1);
+      expect(await db.select().from(cartItemsTable).execute()).toHaveLength(1);
+      expect(await getCartItemCount(await resolveGuestCart(active.cart_token))).toEqual(1);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, categoriesTable, productsTable, couponsTable, ordersTable, orderItemsTable } from '../db/schema';
+import { usersTable, categoriesTable, productsTable, productVariantsTable, couponsTable, ordersTable, orderItemsTable, settingsTable } from '../db/schema';
 import { type CreateOrderInput, type OrderFilters } from '../schema';
 import {
   createOrder,
@@ -24,6 +24,7 @@ describe('Orders Handler', () => {
   let testUserId: number;
   let testCategoryId: number;
   let testProductId: number;
+  let testVariantId: number;
   let testCouponId: number;
 
   const setupTestData = async () => {
@@ -33,7 +34,8 @@ describe('Orders Handler', () => {
       password_hash: 'hashed_password',
       first_name: 'Test',
       last_name: 'User',
-      role: 'customer'
+      role: 'customer',
+      email_verified_at: new Date()
     }).returning().execute();
     testUserId = user.id;
 
@@ -55,6 +57,16 @@ describe('Orders Handler', () => {
     }).returning().execute();
     testProductId = product.id;
 
+    const [variant] = await db.insert(productVariantsTable).values({
+      product_id: testProductId,
+      name: 'Single license',
+      sku: 'TS-SINGLE',
+      price: '99.99',
+      license_type: 'single',
+      stock_quantity: 10
+    }).returning().execute();
+    testVariantId = variant.id;
+
     // Create test coupon
     const [coupon] = await db.insert(couponsTable).values({
       code: 'SAVE20',
@@ -136,6 +148,7 @@ describe('Orders Handler', () => {
 
       expect(orderItems).toHaveLength(1);
       expect(orderItems[0].product_id).toEqual(testProductId);
+      expect(orderItems[0].variant_id).toEqual(testVariantId);
       expect(orderItems[0].quantity).toEqual(2);
       expect(parseFloat(orderItems[0].unit_price)).toEqual(99.99);
       expect(parseFloat(orderItems[0].total_price)).toEqual(199.98);
@@ -168,6 +181,43 @@ describe('Orders Handler', () => {
       await expect(createOrder(input)).rejects.toThrow(/User not found/i);
     });
 
+    it('should throw error for unverified email when verification is required', async () => {
+      await db.update(usersTable)
+        .set({ email_verified_at: null })
+        .where(eq(usersTable.id, testUserId))
+        .execute();
+      await db.insert(settingsTable)
+        .values({ key: 'require_email_verification', value: 'true' })
+        .execute();
+
+      const input = {
+        ...testOrderInput,
+        user_id: testUserId,
+        items: [{ ...testOrderInput.items[0], product_id: testProductId }]
+      };
+
+      await expect(createOrder(input)).rejects.toThrow(/must be verified/i);
+    });
+
+    it('should allow unverified email when verification is not required', async () => {
+      await db.update(usersTable)
+        .set({ email_verified_at: null })
+        .where(eq(usersTable.id, testUserId))
+        .execute();
+      await db.insert(settingsTable)
+        .values({ key: 'require_email_verification', value: 'false' })
+        .execute();
+
+      const input = {
+        ...testOrderInput,
+        user_id: testUserId,
+        items: [{ ...testOrderInput.items[0], product_id: testProductId }]
+      };
+
+      const result = await createOrder(input);
+      expect(result.id).toBeDefined();
+    });
+
     it('should throw error for insufficient stock', async () => {
       const input = {
         ...testOrderInput,
@@ -178,6 +228,94 @@ describe('Orders Handler', () => {
       await expect(createOrder(input)).rejects.toThrow(/Insufficient stock/i);
     });
 
+    it('should reject products outside their availability window', async () => {
+      const input = {
+        ...testOrderInput,
+        user_id: testUserId,
+        items: [{ ...testOrderInput.items[0], product_id: testProductId }]
+      };
+
+      await db.update(productsTable)
+        .set({ available_until: new Date(Date.now() - 60 * 1000) })
+        .where(eq(productsTable.id, testProductId))
+        .execute();
+      await expect(createOrder(input)).rejects.toThrow(/not found or inactive/i);
+
+      await db.update(productsTable)
+        .set({ available_from: new Date(Date.now() - 60 * 60 * 1000), available_until: new Date(Date.now() + 60 * 60 * 1000) })
+        .where(eq(productsTable.id, testProductId))
+        .execute();
+      expect((await createOrder(input)).status).toEqual('pending');
+    });
+
+    it('should price and stock each item by its variant', async () => {
+      const [teamVariant] = await db.insert(productVariantsTable).values({
+        product_id: testProductId,
+        name: 'Team license',
+        sku: 'TS-TEAM',
+        price: '299.00',
+        license_type: 'multi',
+        seats: 5,
+        stock_quantity: 4
+      }).returning().execute();
+
+      const result = await createOrder({
+        user_id: testUserId,
+        items: [
+          { product_id: testProductId, variant_id: teamVariant.id, quantity: 1, price: 299 },
+          { product_id: testProductId, variant_id: testVariantId, quantity: 2, price: 99.99 }
+        ]
+      });
+
+      expect(result.subtotal).toEqual(498.98); // 299 + 2 * 99.99
+
+      const variants = await db.select()
+        .from(productVariantsTable)
+        .where(eq(productVariantsTable.product_id, testProductId))
+        .orderBy(productVariantsTable.id)
+        .execute();
+      expect(variants.map(v => v.stock_quantity)).toEqual([8, 3]);
+
+      // The product shows the total stock of its variants
+      const [product] = await db.select().from(productsTable).where(eq(productsTable.id, testProductId)).execute();
+      expect(product.stock_quantity).toEqual(11);
+    });
+
+    it('should require a variant for products sold in several variants', async () => {
+      await db.insert(productVariantsTable).values({
+        product_id: testProductId,
+        name: 'Team license',
+        sku: 'TS-TEAM',
+        price: '299.00',
+        license_type: 'multi',
+        seats: 5,
+        stock_quantity: 4
+      }).execute();
+
+      const input = {
+        ...testOrderInput,
+        user_id: testUserId,
+        items: [{ ...testOrderInput.items[0], product_id: testProductId }]
+      };
+
+      await expect(createOrder(input)).rejects.toThrow(/variant must be chosen/i);
+    });
+
+    it('should reject an inactive variant', async () => {
+      await db.update(productVariantsTable)
+        .set({ is_active: false })
+        .where(eq(productVariantsTable.id, testVariantId))
+        .execute();
+
+      const input = {
+        ...testOrderInput,
+        user_id: testUserId,
+        items: [{ ...testOrderInput.items[0], product_id: testProductId, variant_id: testVariantId }]
+      };
+
+      await expect(createOrder(input)).rejects.toThrow(/not found or inactive/i);
+    });
+
     it('should ignore expired coupon', async () => {
       // Create expired coupon
       const [expiredCoupon] = await db.insert(couponsTable).values({
@@ -540,6 +678,13 @@ describe('Orders Handler', () => {
         .execute();
 
       expect(product.stock_quantity).toEqual(10); // Back to original 10
+
+      const [variant] = await db.select()
+        .from(productVariantsTable)
+        .where(eq(productVariantsTable.id, testVariantId))
+        .execute();
+
+      expect(variant.stock_quantity).toEqual(10);
     });
 
     it('should fail for non-existent order', async () => {
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, productsTable } from '../db/schema';
+import { createProduct, getProductById } from '../handlers/products';
+import { createProductVariant, getProductVariants } from '../handlers/product_variants';
+import { exportProducts, importProducts } from '../handlers/product_import_export';
+import { parseCsv } from '../lib/csv';
+import { asc } from 'drizzle-orm';
+
+const HEADER = 'sku,name,description,short_description,price,category_slug,image_url,download_url,file_size,version,license_type,stock_quantity';
+
+const seedCatalog = async () => {
+  const categories = await db.insert(categoriesTable)
+    .values([
+      { name: 'Software', slug: 'software' },
+      { name: 'Templates', slug: 'templates' }
+    ])
+    .returning()
+    .execute();
+
+  const product = await createProduct({
+    name: 'Photo Editor',
+    description: 'Edit raw photos, fast',
+    short_description: 'The "pro" editor',
+    price: 49.99,
+    category_id: categories[0].id,
+    image_url: null,
+    download_url: null,
+    file_size: 2048,
+    version: '1.0.0',
+    license_type: 'single',
+    stock_quantity: 100,
+    sku: 'PE-1'
+  });
+
+  return { software: categories[0], templates: categories[1], product };
+};
+
+const allProducts = () => db.select().from(productsTable).orderBy(asc(productsTable.id)).execute();
+
+describe('Product import and export handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('exportProducts', () => {
+    it('should export CSV with category slugs and escaped values', async () => {
+      await seedCatalog();
+
+      const csv = await exportProducts('csv');
+      const rows = parseCsv(csv);
+
+      expect(rows[0].join(',')).toEqual(HEADER);
+      expect(rows[1]).toEqual([
+        'PE-1', 'Photo Editor', 'Edit raw photos, fast', 'The "pro" editor', '49.99', 'software',
+        '', '', '2048', '1.0.0', 'single', '100'
+      ]);
+    });
+
+    it('should export JSON with numeric prices', async () => {
+      await seedCatalog();
+
+      const products = JSON.parse(await exportProducts('json'));
+
+      expect(products).toHaveLength(1);
+      expect(products[0].price).toEqual(49.99);
+      expect(products[0].category_slug).toEqual('software');
+      expect(products[0].image_url).toBeNull();
+    });
+  });
+
+  describe('importProducts', () => {
+    it('should round-trip an export, updating products matched by SKU', async () => {
+      const { product } = await seedCatalog();
+      const csv = (await exportProducts('csv')).replace('49.99', '59.99');
+
+      const report = await importProducts({ format: 'csv', data: csv, dry_run: false });
+
+      expect(report.committed).toBe(true);
+      expect(report.updated).toEqual(1);
+      expect(report.created).toEqual(0);
+      expect(report.rows[0]).toEqual({ row: 1, action: 'update', product_id: product.id, errors: [] });
+      expect((await getProductById(product.id))!.price).toEqual(59.99);
+    });
+
+    it('should create new products and match rows without a SKU by name', async () => {
+      const { product, templates } = await seedCatalog();
+      const data = JSON.stringify([
+        { name: 'Photo Editor', description: 'Edit photos', short_description: null, price: 39, category_slug: 'software',
+          image_url: null, download_url: null, file_size: null, version: null, license_type: 'single', stock_quantity: 5 },
+        { sku: 'RES-1', name: 'Resume Template', description: 'A clean resume', short_description: null, price: 9, category_slug: 'templates',
+          image_url: null, download_url: null, file_size: null, version: null, license_type: null, stock_quantity: 50 }
+      ]);
+
+      const report = await importProducts({ format: 'json', data, dry_run: false });
+
+      expect(report.rows.map(row => row.action)).toEqual(['update', 'create']);
+      expect(report.rows[0].product_id).toEqual(product.id);
+
+      const products = await allProducts();
+      expect(products).toHaveLength(2);
+      expect(products[0].description).toEqual('Edit photos');
+      expect(products[1].category_id).toEqual(templates.id);
+      expect((await getProductVariants(products[1].id))[0].sku).toEqual('RES-1');
+    });
+
+    it('should report row errors in a dry run without writing anything', async () => {
+      await seedCatalog();
+      const csv = [
+        HEADER,
+        'NEW-1,Font Pack,Twelve fonts,,19,software,,,,,multi,10',
+        'NEW-2,,No name,,-5,unknown,,,,,single,10',
+        'NEW-1,Font Pack Again,Duplicate SKU,,19,templates,,,,,single,10'
+      ].join('\n');
+
+      const report = await importProducts({ format: 'csv', data: csv, dry_run: true });
+
+      expect(report.dry_run).toBe(true);
+      expect(report.committed).toBe(false);
+      expect(report.error_count).toEqual(2);
+      expect(report.rows[0]).toEqual({ row: 1, action: 'create', product_id: null, errors: [] });
+      expect(report.rows[1].errors).toContain('category_slug: no category with slug "unknown"');
+      expect(report.rows[1].errors.some(error => error.startsWith('name:'))).toBe(true);
+      expect(report.rows[1].errors.some(error => error.startsWith('price:'))).toBe(true);
+      expect(report.rows[2].errors).toEqual(['Same SKU as row 1']);
+
+      expect(await allProducts()).toHaveLength(1);
+    });
+
+    it('should write nothing when any row has errors', async () => {
+      await seedCatalog();
+      const csv = [
+        HEADER,
+        'NEW-1,Font Pack,Twelve fonts,,19,software,,,,,multi,10',
+        'NEW-2,Icon Set,Icons,,abc,software,,,,,single,10'
+      ].join('\n');
+
+      const report = await importProducts({ format: 'csv', data: csv, dry_run: false });
+
+      expect(report.committed).toBe(false);
+      expect(report.error_count).toEqual(1);
+      expect(await allProducts()).toHaveLength(1);
+    });
+
+    it('should roll back every row when writing one fails', async () => {
+      const { product } = await seedCatalog();
+      const csv = [
+        HEADER,
+        'PE-1,Photo Editor,Edited by the import,,59,software,,,2048,1.0.0,single,100',
+        'NEW-1,Font Pack,Twelve fonts,,19,software,,,,,multi,10',
+        // Passes validation but overflows the integer column
+        'NEW-2,Icon Set,Icons,,9,software,,,3000000000,,single,10'
+      ].join('\n');
+
+      const report = await importProducts({ format: 'csv', data: csv, dry_run: false });
+
+      expect(report.committed).toBe(false);
+      expect(report.error_count).toEqual(1);
+      expect(report.rows[2].errors).toHaveLength(1);
+      expect(report.rows.map(row => row.product_id)).toEqual([product.id, null, null]);
+
+      const products = await allProducts();
+      expect(products).toHaveLength(1);
+      expect(products[0].description).toEqual(product.description);
+      expect((await getProductVariants(product.id)).map(variant => variant.sku)).toEqual(['PE-1']);
+    });
+
+    it('should report a generated SKU that a later row names as an error on that row', async () => {
+      const { product } = await seedCatalog();
+      // The first new product is given the default SKU P<id>-SINGLE, which only exists once it is written
+      const generatedSku = `P${product.id + 1}-SINGLE`;
+      const csv = [
+        HEADER,
+        ',Font Pack,Twelve fonts,,19,software,,,,,single,10',
+        `${generatedSku},Icon Set,Icons,,9,software,,,,,single,10`
+      ].join('\n');
+
+      const report = await importProducts({ format: 'csv', data: csv, dry_run: false });
+
+      expect(report.committed).toBe(false);
+      expect(report.rows[0].errors).toEqual([]);
+      expect(report.rows[1].errors).toEqual([`SKU ${generatedSku} already exists`]);
+      expect(await allProducts()).toHaveLength(1);
+    });
+
+    it('should refuse to update a product sold in several variants', async () => {
+      const { product } = await seedCatalog();
+      await createProductVariant({
+        product_id: product.id,
+        name: 'Team license',
+        sku: 'PE-TEAM',
+        price: 199,
+        license_type: 'multi',
+        seats: 10,
+        stock_quantity: 20,
+        is_active: true
+      });
+
+      const report = await importProducts({ format: 'json', data: await exportProducts('json'), dry_run: true });
+
+      expect(report.rows[0].errors[0]).toMatch(/several variants/i);
+    });
+
+    it('should reject data that is not a JSON array', async () => {
+      await expect(importProducts({ format: 'json', data: '{"name": "x"}', dry_run: true })).rejects.toThrow(/JSON array/i);
+      await expect(importProducts({ format: 'json', data: 'not json', dry_run: true })).rejects.toThrow(/not valid JSON/i);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, productsTable } from '../db/schema';
+import { createProduct, getActiveProducts, getProductById, deleteProduct } from '../handlers/products';
+import {
+  getProductMedia,
+  addProductMedia,
+  updateProductMedia,
+  reorderProductMedia,
+  removeProductMedia
+} from '../handlers/product_media';
+import { eq } from 'drizzle-orm';
+
+const seedProduct = async () => {
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  return createProduct({
+    name: 'Photo Editor',
+    description: 'Edit raw photos',
+    short_description: null,
+    price: 49.99,
+    category_id: category[0].id,
+    image_url: null,
+    download_url: null,
+    file_size: null,
+    version: null,
+    license_type: 'single',
+    stock_quantity: 100
+  });
+};
+
+const findImageUrl = async (productId: number) => {
+  const rows = await db.select().from(productsTable).where(eq(productsTable.id, productId)).execute();
+  return rows[0].image_url;
+};
+
+describe('Product media handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('addProductMedia', () => {
+    it('should append media and make the first image primary', async () => {
+      const product = await seedProduct();
+
+      const video = await addProductMedia({ product_id: product.id, type: 'video', url: 'https://video.example.com/embed/1', is_primary: false });
+      const cover = await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/cover.png', alt_text: 'Editor window', is_primary: false });
+      const shot = await addProductMedia({ product_id: product.id, type: 'screenshot', url: 'https://img.example.com/shot.png', is_primary: false });
+
+      expect(video.is_primary).toBe(false);
+      expect(cover.is_primary).toBe(true);
+      expect(shot.is_primary).toBe(false);
+      expect([video.sort_order, cover.sort_order, shot.sort_order]).toEqual([0, 1, 2]);
+      expect(await findImageUrl(product.id)).toEqual(cover.url);
+    });
+
+    it('should move the primary flag to a new primary image', async () => {
+      const product = await seedProduct();
+      const cover = await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/cover.png', is_primary: false });
+
+      const replacement = await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/new.png', is_primary: true });
+
+      const media = await getProductMedia(product.id);
+      expect(media.filter(m => m.is_primary).map(m => m.id)).toEqual([replacement.id]);
+      expect(media.map(m => m.id)).toEqual([cover.id, replacement.id]);
+      expect(await findImageUrl(product.id)).toEqual(replacement.url);
+    });
+
+    it('should not make a video the primary image', async () => {
+      const product = await seedProduct();
+
+      await expect(addProductMedia({ product_id: product.id, type: 'video', url: 'https://video.example.com/embed/1', is_primary: true }))
+        .rejects.toThrow(/cannot be the primary image/i);
+    });
+
+    it('should throw for a non-existent product', async () => {
+      await expect(addProductMedia({ product_id: 99999, type: 'image', url: 'https://img.example.com/a.png', is_primary: false }))
+        .rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('updateProductMedia', () => {
+    it('should change the alt text and promote to primary', async () => {
+      const product = await seedProduct();
+      await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/cover.png', is_primary: false });
+      const shot = await addProductMedia({ product_id: product.id, type: 'screenshot', url: 'https://img.example.com/shot.png', is_primary: false });
+
+      const result = await updateProductMedia({ id: shot.id, alt_text: 'Layers panel', is_primary: true });
+
+      expect(result!.alt_text).toEqual('Layers panel');
+      expect(result!.is_primary).toBe(true);
+      expect((await getProductMedia(product.id)).filter(m => m.is_primary)).toHaveLength(1);
+      expect(await findImageUrl(product.id)).toEqual(shot.url);
+    });
+
+    it('should return null for a non-existent media item', async () => {
+      expect(await updateProductMedia({ id: 99999, alt_text: 'Missing' })).toBeNull();
+    });
+  });
+
+  describe('reorderProductMedia', () => {
+    it('should apply the new display order', async () => {
+      const product = await seedProduct();
+      const first = await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/1.png', is_primary: false });
+      const second = await addProductMedia({ product_id: product.id, type: 'screenshot', url: 'https://img.example.com/2.png', is_primary: false });
+      const third = await addProductMedia({ product_id: product.id, type: 'video', url: 'https://video.example.com/embed/3', is_primary: false });
+
+      const result = await reorderProductMedia({ product_id: product.id, media_ids: [third.id, first.id, second.id] });
+
+      expect(result.map(m => m.id)).toEqual([third.id, first.id, second.id]);
+    });
+
+    it('should reject an order that does not list every item exactly once', async () => {
+      const product = await seedProduct();
+      const first = await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/1.png', is_primary: false });
+      await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/2.png', is_primary: false });
+
+      await expect(reorderProductMedia({ product_id: product.id, media_ids: [first.id] })).rejects.toThrow(/exactly once/i);
+      await expect(reorderProductMedia({ product_id: product.id, media_ids: [first.id, first.id] })).rejects.toThrow(/exactly once/i);
+    });
+  });
+
+  describe('removeProductMedia', () => {
+    it('should promote the next image when the primary image is removed', async () => {
+      const product = await seedProduct();
+      const cover = await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/cover.png', is_primary: false });
+      await addProductMedia({ product_id: product.id, type: 'video', url: 'https://video.example.com/embed/1', is_primary: false });
+      const shot = await addProductMedia({ product_id: product.id, type: 'screenshot', url: 'https://img.example.com/shot.png', is_primary: false });
+
+      expect(await removeProductMedia(cover.id)).toBe(true);
+
+      const media = await getProductMedia(product.id);
+      expect(media.find(m => m.is_primary)!.id).toEqual(shot.id);
+      expect(await findImageUrl(product.id)).toEqual(shot.url);
+    });
+
+    it('should clear the product image when no image is left', async () => {
+      const product = await seedProduct();
+      const cover = await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/cover.png', is_primary: false });
+
+      await removeProductMedia(cover.id);
+
+      expect(await findImageUrl(product.id)).toBeNull();
+    });
+
+    it('should return false for a non-existent media item', async () => {
+      expect(await removeProductMedia(99999)).toBe(false);
+    });
+  });
+
+  describe('product queries', () => {
+    it('should return the full gallery by id and only the primary image in listings', async () => {
+      const product = await seedProduct();
+      await addProductMedia({ product_id: product.id, type: 'video', url: 'https://video.example.com/embed/1', is_primary: false });
+      const cover = await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/cover.png', alt_text: 'Editor window', is_primary: false });
+
+      const detail = await getProductById(product.id);
+      expect(detail!.media).toHaveLength(2);
+      expect(detail!.primary_image!.id).toEqual(cover.id);
+
+      const listing = await getActiveProducts({ page: 1, limit: 10 });
+      expect(listing.products).toHaveLength(1);
+      expect(listing.products[0].primary_image).toEqual({
+        id: cover.id,
+        type: 'image',
+        url: cover.url,
+        alt_text: 'Editor window'
+      });
+      expect('media' in listing.products[0]).toBe(false);
+    });
+
+    it('should return no primary image for products without media', async () => {
+      await seedProduct();
+
+      const listing = await getActiveProducts({ page: 1, limit: 10 });
+
+      expect(listing.products[0].primary_image).toBeNull();
+    });
+
+    it('should remove the media along with an unsold product', async () => {
+      const product = await seedProduct();
+      await addProductMedia({ product_id: product.id, type: 'image', url: 'https://img.example.com/cover.png', is_primary: false });
+
+      expect(await deleteProduct(product.id)).toBe(true);
+      expect(await getProductMedia(product.id)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, productsTable, usersTable, ordersTable, orderItemsTable, settingsTable } from '../db/schema';
+import { type PublishReleaseInput } from '../schema';
+import {
+  publishRelease,
+  getProductReleases,
+  setReleaseDeprecated,
+  getLicensedReleases,
+  getReleaseDownload,
+  resolveReleaseDownload
+} from '../handlers/product_releases';
+import { serveReleaseDownload } from '../index';
+import { eq } from 'drizzle-orm';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { type AddressInfo } from 'net';
+
+const CHECKSUM = 'A'.repeat(64);
+
+const releaseInput = (productId: number, version: string, releasedAt: Date): PublishReleaseInput => ({
+  product_id: productId,
+  version,
+  changelog: `Changes in ${version}`,
+  file_url: `https://files.example.com/editor-${version}.zip`,
+  file_size: 1024,
+  sha256: CHECKSUM,
+  released_at: releasedAt
+});
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+// Starts a local HTTP server and returns its base URL along with a function that stops it
+const startServer = async (handler: (req: IncomingMessage, res: ServerResponse) => void) => {
+  const server: Server = createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    stop: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+};
+
+// Mounts the release download route the way the API server does
+const startApiServer = () => startServer((req, res) => {
+  serveReleaseDownload(req, res).then(served => {
+    if (!served) {
+      res.writeHead(404).end();
+    }
+  });
+});
+
+// Requests an issued link as the /api proxy forwards it to the API server
+const fetchThroughProxy = (apiUrl: string, downloadUrl: string) => {
+  expect(downloadUrl.startsWith('/api/')).toBe(true);
+  return fetch(`${apiUrl}${downloadUrl.slice('/api'.length)}`);
+};
+
+const seedProduct = async () => {
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  const product = await db.insert(productsTable)
+    .values({ name: 'Photo Editor', description: 'Edit raw photos', price: '49.99', category_id: category[0].id })
+    .returning()
+    .execute();
+
+  return product[0];
+};
+
+// Creates a customer holding a license for the product, bought the given number of days ago
+const seedLicensedUser = async (productId: number, purchasedDaysAgo: number, status: 'completed' | 'refunded' = 'completed') => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'buyer@example.com', password_hash: 'x', first_name: 'Buyer', last_name: 'One' })
+    .returning()
+    .execute();
+
+  const order = await db.insert(ordersTable)
+    .values({
+      user_id: user[0].id,
+      order_number: 'ORD-1',
+      status,
+      subtotal: '49.99',
+      total_amount: '49.99',
+      created_at: daysAgo(purchasedDaysAgo)
+    })
+    .returning()
+    .execute();
+
+  await db.insert(orderItemsTable)
+    .values({
+      order_id: order[0].id,
+      product_id: productId,
+      quantity: 1,
+      unit_price: '49.99',
+      total_price: '49.99',
+      license_key: status === 'completed' ? 'LIC-1' : null
+    })
+    .execute();
+
+  return user[0];
+};
+
+describe('Product release handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('publishRelease', () => {
+    it('should record the release and make it the current product version', async () => {
+      const product = await seedProduct();
+
+      const release = await publishRelease(releaseInput(product.id, '2.0.0', daysAgo(1)));
+
+      expect(release.version).toEqual('2.0.0');
+      expect(release.sha256).toEqual('a'.repeat(64));
+      expect(release.deprecated_at).toBeNull();
+
+      const rows = await db.select().from(productsTable).where(eq(productsTable.id, product.id)).execute();
+      expect(rows[0].version).toEqual('2.0.0');
+      expect(rows[0].file_size).toEqual(1024);
+      // The file location is only handed out through signed links
+      expect(rows[0].download_url).toBeNull();
+    });
+
+    it('should not switch the product to a scheduled release', async () => {
+      const product = await seedProduct();
+      await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+
+      await publishRelease(releaseInput(product.id, '2.0.0', daysAgo(-5)));
+
+      const rows = await db.select().from(productsTable).where(eq(productsTable.id, product.id)).execute();
+      expect(rows[0].version).toEqual('1.0.0');
+      expect((await getProductReleases(product.id)).map(r => r.version)).toEqual(['2.0.0', '1.0.0']);
+    });
+
+    it('should reject a version that was already published', async () => {
+      const product = await seedProduct();
+      await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+
+      await expect(publishRelease(releaseInput(product.id, '1.0.0', daysAgo(1)))).rejects.toThrow(/already been published/i);
+    });
+
+    it('should throw for a non-existent product', async () => {
+      await expect(publishRelease(releaseInput(99999, '1.0.0', daysAgo(1)))).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('setReleaseDeprecated', () => {
+    it('should fall back to the previous release and restore it when lifted', async () => {
+      const product = await seedProduct();
+      await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+      const latest = await publishRelease(releaseInput(product.id, '1.1.0', daysAgo(1)));
+
+      const deprecated = await setReleaseDeprecated({ id: latest.id, deprecated: true });
+
+      expect(deprecated!.deprecated_at).toBeInstanceOf(Date);
+      let rows = await db.select().from(productsTable).where(eq(productsTable.id, product.id)).execute();
+      expect(rows[0].version).toEqual('1.0.0');
+
+      await setReleaseDeprecated({ id: latest.id, deprecated: false });
+
+      rows = await db.select().from(productsTable).where(eq(productsTable.id, product.id)).execute();
+      expect(rows[0].version).toEqual('1.1.0');
+    });
+
+    it('should return null for a non-existent release', async () => {
+      expect(await setReleaseDeprecated({ id: 99999, deprecated: true })).toBeNull();
+    });
+  });
+
+  describe('getLicensedReleases', () => {
+    it('should list releases up to the end of the update period', async () => {
+      const product = await seedProduct();
+      const user = await seedLicensedUser(product.id, 400);
+      await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(500)));
+      await publishRelease(releaseInput(product.id, '1.5.0', daysAgo(100)));
+      await publishRelease(releaseInput(product.id, '2.0.0', daysAgo(10)));
+
+      const result = await getLicensedReleases(user.id, product.id);
+
+      expect(result!.covered_until).toBeInstanceOf(Date);
+      expect(result!.releases.map(r => r.version)).toEqual(['1.5.0', '1.0.0']);
+      expect(result!.releases[0]).not.toHaveProperty('file_url');
+    });
+
+    it('should list every release when updates are unlimited', async () => {
+      const product = await seedProduct();
+      const user = await seedLicensedUser(product.id, 400);
+      await db.insert(settingsTable)
+        .values({ key: 'license_update_months', value: '0' })
+        .execute();
+      await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(500)));
+      await publishRelease(releaseInput(product.id, '2.0.0', daysAgo(10)));
+
+      const result = await getLicensedReleases(user.id, product.id);
+
+      expect(result!.covered_until).toBeNull();
+      expect(result!.releases.map(r => r.version)).toEqual(['2.0.0', '1.0.0']);
+    });
+
+    it('should keep deprecated releases and hide scheduled ones', async () => {
+      const product = await seedProduct();
+      const user = await seedLicensedUser(product.id, 5);
+      const old = await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+      await publishRelease(releaseInput(product.id, '2.0.0', daysAgo(-5)));
+      await setReleaseDeprecated({ id: old.id, deprecated: true });
+
+      const result = await getLicensedReleases(user.id, product.id);
+
+      expect(result!.releases.map(r => r.version)).toEqual(['1.0.0']);
+      expect(result!.releases[0].deprecated_at).not.toBeNull();
+    });
+
+    it('should return null without a valid license', async () => {
+      const product = await seedProduct();
+      const user = await seedLicensedUser(product.id, 5, 'refunded');
+      await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+
+      expect(await getLicensedReleases(user.id, product.id)).toBeNull();
+    });
+  });
+
+  describe('getReleaseDownload', () => {
+    it('should issue a signed, expiring link for a covered release', async () => {
+      const product = await seedProduct();
+      const user = await seedLicensedUser(product.id, 5);
+      const release = await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+
+      const result = await getReleaseDownload(user.id, release.id);
+
+      expect(result!.release.id).toEqual(release.id);
+      expect(result!.release).not.toHaveProperty('file_url');
+      expect(result!.expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(result!.download_url).not.toContain(release.file_url);
+
+      const url = new URL(result!.download_url, 'http://localhost');
+      expect(url.pathname).toEqual(`/api/downloads/releases/${release.id}`);
+      const expires = Number(url.searchParams.get('expires'));
+      const signature = url.searchParams.get('signature')!;
+      expect(await resolveReleaseDownload(release.id, expires, signature)).toEqual(release.file_url);
+      expect(await resolveReleaseDownload(release.id, expires + 1, signature)).toBeNull();
+    });
+
+    it('should fall back to the default link lifetime when the stored value is unusable', async () => {
+      const product = await seedProduct();
+      const user = await seedLicensedUser(product.id, 5);
+      const release = await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+      await db.insert(settingsTable).values({ key: 'download_link_expiry_hours', value: 'abc' }).execute();
+
+      const result = await getReleaseDownload(user.id, release.id);
+
+      expect(result!.expires_at.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+    });
+
+    it('should refuse releases outside the update period', async () => {
+      const product = await seedProduct();
+      const user = await seedLicensedUser(product.id, 400);
+      const release = await publishRelease(releaseInput(product.id, '2.0.0', daysAgo(10)));
+
+      expect(await getReleaseDownload(user.id, release.id)).toBeNull();
+    });
+
+    it('should refuse users without a license', async () => {
+      const product = await seedProduct();
+      await seedLicensedUser(product.id, 5);
+      const other = await db.insert(usersTable)
+        .values({ email: 'other@example.com', password_hash: 'x', first_name: 'Other', last_name: 'User' })
+        .returning()
+        .execute();
+      const release = await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+
+      expect(await getReleaseDownload(other[0].id, release.id)).toBeNull();
+      expect(await getReleaseDownload(other[0].id, 99999)).toBeNull();
+    });
+  });
+
+  describe('resolveReleaseDownload', () => {
+    it('should refuse expired and forged links', async () => {
+      const product = await seedProduct();
+      const user = await seedLicensedUser(product.id, 5);
+      const release = await publishRelease(releaseInput(product.id, '1.0.0', daysAgo(10)));
+      const other = await publishRelease(releaseInput(product.id, '1.1.0', daysAgo(5)));
+      const url = new URL((await getReleaseDownload(user.id, release.id))!.download_url, 'http://localhost');
+      const signature = url.searchParams.get('signature')!;
+      const past = Math.floor(Date.now() / 1000) - 60;
+
+      expect(await resolveReleaseDownload(release.id, past, signature)).toBeNull();
+      expect(await resolveReleaseDownload(other.id, Number(url.searchParams.get('expires')), signature)).toBeNull();
+      expect(await resolveReleaseDownload(release.id, Number(url.searchParams.get('expires')), 'forged')).toBeNull();
+    });
+  });
+
+  describe('release download route', () => {
+    it('should stream the file for an issued link', async () => {
+      const upstream = await startServer((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/zip' }).end('release bytes');
+      });
+      const api = await startApiServer();
+      try {
+        const product = await seedProduct();
+        const user = await seedLicensedUser(product.id, 5);
+        const release = await publishRelease({ ...releaseInput(product.id, '1.0.0', daysAgo(10)), file_url: `${upstream.url}/editor-1.0.0.zip` });
+        const download = await getReleaseDownload(user.id, release.id);
+
+        const response = await fetchThroughProxy(api.url, download!.download_url);
+
+        expect(response.status).toEqual(200);
+        expect(response.headers.get('content-disposition')).toEqual('attachment; filename="editor-1.0.0.zip"');
+        expect(await response.text()).toEqual('release bytes');
+
+        const forged = await fetchThroughProxy(api.url, download!.download_url.replace(/signature=[^&]+/, 'signature=forged'));
+        expect(forged.status).toEqual(403);
+      } finally {
+        await api.stop();
+        await upstream.stop();
+      }
+    });
+
+    it('should answer 502 or cut the response when the file host fails', async () => {
+      const upstream = await startServer((req, res) => {
+        if (req.url === '/missing.zip') {
+          res.writeHead(404).end();
+          return;
+        }
+        // Promise more than is sent, then drop the connection partway through
+        res.writeHead(200, { 'Content-Length': '1000' });
+        res.write('partial');
+        setTimeout(() => res.destroy(), 100);
+      });
+      const api = await startApiServer();
+      try {
+        const product = await seedProduct();
+        const user = await seedLicensedUser(product.id, 5);
+        const broken = await publishRelease({ ...releaseInput(product.id, '1.0.0', daysAgo(10)), file_url: `${upstream.url}/broken.zip` });
+        const missing = await publishRelease({ ...releaseInput(product.id, '1.1.0', daysAgo(5)), file_url: `${upstream.url}/missing.zip` });
+
+        const partial = await fetchThroughProxy(api.url, (await getReleaseDownload(user.id, broken.id))!.download_url);
+        expect(partial.status).toEqual(200);
+        await expect(partial.text()).rejects.toThrow();
+
+        const unavailable = await fetchThroughProxy(api.url, (await getReleaseDownload(user.id, missing.id))!.download_url);
+        expect(unavailable.status).toEqual(502);
+      } finally {
+        await api.stop();
+        await upstream.stop();
+      }
+    });
+  });
+});
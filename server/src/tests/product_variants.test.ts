@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, productsTable, productVariantsTable, usersTable, ordersTable, orderItemsTable, cartItemsTable } from '../db/schema';
+import { type CreateProductInput } from '../schema';
+import { createProduct, getProductById, updateProduct } from '../handlers/products';
+import {
+  getProductVariants,
+  createProductVariant,
+  updateProductVariant,
+  deleteProductVariant
+} from '../handlers/product_variants';
+import { eq } from 'drizzle-orm';
+
+const productInput = (categoryId: number): CreateProductInput => ({
+  name: 'Photo Editor',
+  description: 'Edit raw photos',
+  short_description: null,
+  price: 49.99,
+  category_id: categoryId,
+  image_url: null,
+  download_url: null,
+  file_size: null,
+  version: null,
+  license_type: 'single',
+  stock_quantity: 100
+});
+
+// Creates a product and adds a team edition next to its default variant
+const seedProduct = async () => {
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  const product = await createProduct({ ...productInput(category[0].id), sku: 'PE-SINGLE' });
+  const team = await createProductVariant({
+    product_id: product.id,
+    name: 'Team license',
+    sku: 'PE-TEAM',
+    price: 199,
+    license_type: 'multi',
+    seats: 10,
+    stock_quantity: 20,
+    is_active: true
+  });
+
+  return { product, team };
+};
+
+const findProduct = async (id: number) => {
+  const rows = await db.select().from(productsTable).where(eq(productsTable.id, id)).execute();
+  return rows[0];
+};
+
+describe('Product variant handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createProduct', () => {
+    it('should create a default variant from the product fields', async () => {
+      const category = await db.insert(categoriesTable)
+        .values({ name: 'Software', slug: 'software' })
+        .returning()
+        .execute();
+
+      const product = await createProduct({ ...productInput(category[0].id), license_type: null });
+
+      const variants = await getProductVariants(product.id);
+      expect(variants).toHaveLength(1);
+      expect(variants[0].name).toEqual('Single license');
+      expect(variants[0].sku).toEqual(`P${product.id}-SINGLE`);
+      expect(variants[0].price).toEqual(49.99);
+      expect(variants[0].license_type).toEqual('single');
+      expect(variants[0].seats).toEqual(1);
+      expect(variants[0].stock_quantity).toEqual(100);
+    });
+
+    it('should reject a SKU that is already taken', async () => {
+      const { product } = await seedProduct();
+
+      await expect(createProduct({ ...productInput(product.category_id), sku: 'PE-TEAM' })).rejects.toThrow(/already exists/i);
+    });
+  });
+
+  describe('createProductVariant', () => {
+    it('should keep the product price at the lowest variant price and sum the stock', async () => {
+      const { product, team } = await seedProduct();
+
+      expect(team.price).toEqual(199);
+      expect(team.seats).toEqual(10);
+
+      const row = await findProduct(product.id);
+      expect(parseFloat(row.price)).toEqual(49.99);
+      expect(row.stock_quantity).toEqual(120);
+    });
+
+    it('should reject a duplicate SKU', async () => {
+      const { product } = await seedProduct();
+
+      await expect(createProductVariant({
+        product_id: product.id,
+        name: 'Site license',
+        sku: 'PE-SINGLE',
+        price: 499,
+        license_type: 'unlimited',
+        seats: 1,
+        stock_quantity: 5,
+        is_active: true
+      })).rejects.toThrow(/already exists/i);
+    });
+
+    it('should throw for a non-existent product', async () => {
+      await expect(createProductVariant({
+        product_id: 99999,
+        name: 'Site license',
+        sku: 'SITE',
+        price: 499,
+        license_type: 'unlimited',
+        seats: 1,
+        stock_quantity: 5,
+        is_active: true
+      })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('updateProductVariant', () => {
+    it('should update the variant and the product summary', async () => {
+      const { product, team } = await seedProduct();
+      const [single] = await getProductVariants(product.id);
+
+      const result = await updateProductVariant({ id: single.id, price: 299, stock_quantity: 0 });
+
+      expect(result!.price).toEqual(299);
+
+      const row = await findProduct(product.id);
+      expect(parseFloat(row.price)).toEqual(team.price);
+      expect(row.stock_quantity).toEqual(20);
+    });
+
+    it('should not deactivate the last active variant of an active product', async () => {
+      const { product, team } = await seedProduct();
+      const [single] = await getProductVariants(product.id);
+      await updateProductVariant({ id: team.id, is_active: false });
+
+      await expect(updateProductVariant({ id: single.id, is_active: false })).rejects.toThrow(/at least one active variant/i);
+    });
+
+    it('should return null for a non-existent variant', async () => {
+      expect(await updateProductVariant({ id: 99999, price: 10 })).toBeNull();
+    });
+  });
+
+  describe('updateProduct', () => {
+    it('should pass price and stock through to a single variant', async () => {
+      const category = await db.insert(categoriesTable)
+        .values({ name: 'Software', slug: 'software' })
+        .returning()
+        .execute();
+      const product = await createProduct(productInput(category[0].id));
+
+      const result = await updateProduct({ id: product.id, price: 59.99, stock_quantity: 7 });
+
+      expect(result!.price).toEqual(59.99);
+      expect(result!.stock_quantity).toEqual(7);
+      const [variant] = await getProductVariants(product.id);
+      expect(variant.price).toEqual(59.99);
+      expect(variant.stock_quantity).toEqual(7);
+    });
+
+    it('should refuse to set one price for several variants', async () => {
+      const { product } = await seedProduct();
+
+      await expect(updateProduct({ id: product.id, price: 10 })).rejects.toThrow(/several variants/i);
+
+      // Other fields can still be changed
+      expect((await updateProduct({ id: product.id, name: 'Photo Editor Pro' }))!.name).toEqual('Photo Editor Pro');
+    });
+  });
+
+  describe('getProductById', () => {
+    it('should include the active variants cheapest first', async () => {
+      const { product, team } = await seedProduct();
+      await createProductVariant({
+        product_id: product.id,
+        name: 'Legacy license',
+        sku: 'PE-LEGACY',
+        price: 9,
+        license_type: 'single',
+        seats: 1,
+        stock_quantity: 1,
+        is_active: false
+      });
+
+      const result = await getProductById(product.id);
+
+      expect(result!.variants.map(v => v.sku)).toEqual(['PE-SINGLE', team.sku]);
+      expect((await getProductVariants(product.id, true))).toHaveLength(3);
+    });
+  });
+
+  describe('deleteProductVariant', () => {
+    it('should delete an unsold variant and drop it from carts', async () => {
+      const { product, team } = await seedProduct();
+      const user = await db.insert(usersTable)
+        .values({ email: 'buyer@example.com', password_hash: 'x', first_name: 'Buyer', last_name: 'One' })
+        .returning()
+        .execute();
+      await db.insert(cartItemsTable)
+        .values({ user_id: user[0].id, product_id: product.id, variant_id: team.id, quantity: 1 })
+        .execute();
+
+      expect(await deleteProductVariant(team.id)).toBe(true);
+
+      expect(await getProductVariants(product.id, true)).toHaveLength(1);
+      expect(await db.select().from(cartItemsTable).execute()).toHaveLength(0);
+      expect((await findProduct(product.id)).stock_quantity).toEqual(100);
+    });
+
+    it('should deactivate a variant with order history', async () => {
+      const { product, team } = await seedProduct();
+      const user = await db.insert(usersTable)
+        .values({ email: 'buyer@example.com', password_hash: 'x', first_name: 'Buyer', last_name: 'One' })
+        .returning()
+        .execute();
+      const order = await db.insert(ordersTable)
+        .values({ user_id: user[0].id, order_number: 'ORD-1', status: 'completed', subtotal: '199.00', total_amount: '199.00' })
+        .returning()
+        .execute();
+      await db.insert(orderItemsTable)
+        .values({ order_id: order[0].id, product_id: product.id, variant_id: team.id, quantity: 1, unit_price: '199.00', total_price: '199.00' })
+        .execute();
+
+      expect(await deleteProductVariant(team.id)).toBe(true);
+
+      const rows = await db.select().from(productVariantsTable).where(eq(productVariantsTable.id, team.id)).execute();
+      expect(rows[0].is_active).toBe(false);
+      expect(await getProductVariants(product.id)).toHaveLength(1);
+    });
+
+    it('should not delete the only variant of an active product', async () => {
+      const { product, team } = await seedProduct();
+      await deleteProductVariant(team.id);
+      const [single] = await getProductVariants(product.id);
+
+      await expect(deleteProductVariant(single.id)).rejects.toThrow(/at least one active variant/i);
+    });
+
+    it('should return false for a non-existent variant', async () => {
+      expect(await deleteProductVariant(99999)).toBe(false);
+    });
+  });
+});
@@ -1,9 +1,26 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { productsTable, categoriesTable } from '../db/schema';
+import { productsTable, categoriesTable, usersTable, ordersTable, orderItemsTable, cartItemsTable } from '../db/schema';
 import { type CreateProductInput } from '../schema';
-import { createProduct } from '../handlers/products';
+import {
+  createProduct,
+  getProducts,
+  getActiveProducts,
+  getProductById,
+  getProductsByCategory,
+  updateProduct,
+  deleteProduct,
+  searchProducts,
+  suggestProducts,
+  getRelatedProducts,
+  getFrequentlyBoughtTogether,
+  refreshCoPurchaseCounts,
+  getUpcomingLaunches
+} from '../handlers/products';
+import { getProductVariants, createProductVariant } from '../handlers/product_variants';
+import { createTag, setProductTags } from '../handlers/tags';
+import { setCategoryFeaturedProducts } from '../handlers/categories';
 import { eq } from 'drizzle-orm';
 
 // Test category data
@@ -251,4 +268,518 @@ describe('createProduct', () => {
       expect(result.name).toEqual(`Product stock ${stock_quantity}`);
     }
   });
-});
\ No newline at end of file
+});
+// Creates two categories and a spread of products to query against
+const seedCatalog = async () => {
+  const software = await db.insert(categoriesTable)
+    .values(testCategory)
+    .returning()
+    .execute();
+
+  const ebooks = await db.insert(categoriesTable)
+    .values({ name: 'E-books', description: 'Digital books', slug: 'ebooks' })
+    .returning()
+    .execute();
+
+  const photoEditor = await createProduct({ ...testInput, name: 'Photo Editor', description: 'Edit raw photos', price: 49.99, category_id: software[0].id });
+  const codeEditor = await createProduct({ ...testInput, name: 'Code Editor', description: 'A fast text editor for programmers', price: 19.99, category_id: software[0].id });
+  const cookbook = await createProduct({ ...testInput, name: 'Cookbook', description: 'Recipes for every day', price: 9.99, category_id: ebooks[0].id });
+  const archived = await createProduct({ ...testInput, name: 'Archived Tool', description: 'No longer sold', price: 5, category_id: software[0].id });
+  await updateProduct({ id: archived.id, is_active: false });
+
+  return { software: software[0], ebooks: ebooks[0], photoEditor, codeEditor, cookbook, archived };
+};
+
+describe('getProducts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return all products with totals and category data', async () => {
+    await seedCatalog();
+
+    const result = await getProducts();
+
+    expect(result.total).toEqual(4);
+    expect(result.products).toHaveLength(4);
+    expect(result.page).toEqual(1);
+    expect(result.limit).toEqual(10);
+    expect(typeof result.products[0].price).toBe('number');
+    expect(result.products[0].category.name).toBeDefined();
+    expect(result.products[0].download_url).toEqual('https://example.com/download.zip');
+  });
+
+  it('should filter by category and price range', async () => {
+    const { software } = await seedCatalog();
+
+    const byCategory = await getProducts({ category_id: software.id, page: 1, limit: 10 });
+    expect(byCategory.total).toEqual(3);
+
+    const byPrice = await getProducts({ min_price: 9.99, max_price: 20, page: 1, limit: 10 });
+    expect(byPrice.products.map(p => p.name).sort()).toEqual(['Code Editor', 'Cookbook']);
+  });
+
+  it('should search name and description case-insensitively', async () => {
+    await seedCatalog();
+
+    const result = await getProducts({ search: 'EDITOR', page: 1, limit: 10 });
+
+    expect(result.total).toEqual(2);
+  });
+
+  it('should sort by the requested column and direction', async () => {
+    await seedCatalog();
+
+    const byPriceAsc = await getProducts({ sort_by: 'price', sort_order: 'asc', page: 1, limit: 10 });
+    expect(byPriceAsc.products.map(p => p.price)).toEqual([5, 9.99, 19.99, 49.99]);
+
+    const byNameDesc = await getProducts({ sort_by: 'name', sort_order: 'desc', page: 1, limit: 10 });
+    expect(byNameDesc.products[0].name).toEqual('Photo Editor');
+  });
+
+  it('should paginate while reporting the full total', async () => {
+    await seedCatalog();
+
+    const firstPage = await getProducts({ sort_by: 'price', sort_order: 'asc', page: 1, limit: 3 });
+    const secondPage = await getProducts({ sort_by: 'price', sort_order: 'asc', page: 2, limit: 3 });
+
+    expect(firstPage.products).toHaveLength(3);
+    expect(secondPage.products).toHaveLength(1);
+    expect(secondPage.products[0].name).toEqual('Photo Editor');
+    expect(firstPage.total).toEqual(4);
+    expect(secondPage.total).toEqual(4);
+  });
+});
+
+describe('getActiveProducts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should exclude inactive products', async () => {
+    await seedCatalog();
+
+    const result = await getActiveProducts();
+
+    expect(result.total).toEqual(3);
+    expect(result.products.map(p => p.name)).not.toContain('Archived Tool');
+  });
+
+  it('should leave out the download location', async () => {
+    await seedCatalog();
+
+    const result = await getActiveProducts();
+
+    expect(result.products[0]).not.toHaveProperty('download_url');
+  });
+});
+
+describe('getProductById', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the product with its category', async () => {
+    const { software, photoEditor } = await seedCatalog();
+
+    const result = await getProductById(photoEditor.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.name).toEqual('Photo Editor');
+    expect(result!.price).toEqual(49.99);
+    expect(result!.category).toEqual({ id: software.id, name: 'Software', slug: 'software' });
+    expect(result).not.toHaveProperty('download_url');
+  });
+
+  it('should return null for non-existent product', async () => {
+    expect(await getProductById(99999)).toBeNull();
+  });
+});
+
+describe('getProductsByCategory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return active products in the category', async () => {
+    const { software } = await seedCatalog();
+
+    const result = await getProductsByCategory(software.id);
+
+    expect(result.total).toEqual(2);
+    expect(result.products.every(p => p.category_id === software.id)).toBe(true);
+  });
+
+  it('should include products of descendant categories when asked', async () => {
+    const { software } = await seedCatalog();
+    const design = await db.insert(categoriesTable)
+      .values({ name: 'Design', slug: 'design', parent_id: software.id })
+      .returning()
+      .execute();
+    const plugins = await db.insert(categoriesTable)
+      .values({ name: 'Plugins', slug: 'plugins', parent_id: design[0].id })
+      .returning()
+      .execute();
+    await createProduct({ ...testInput, name: 'Brush Pack', price: 5, category_id: plugins[0].id });
+
+    expect((await getProductsByCategory(software.id)).total).toEqual(2);
+
+    const nested = await getProductsByCategory(software.id, { page: 1, limit: 10, include_subcategories: true });
+    expect(nested.products.map(p => p.name).sort()).toEqual(['Brush Pack', 'Code Editor', 'Photo Editor']);
+
+    const designOnly = await getProductsByCategory(design[0].id, { page: 1, limit: 10, include_subcategories: true });
+    expect(designOnly.products.map(p => p.name)).toEqual(['Brush Pack']);
+  });
+
+  it('should list featured products first, in pinned order', async () => {
+    const { software, photoEditor, codeEditor } = await seedCatalog();
+    const recorder = await createProduct({ ...testInput, name: 'Screen Recorder', price: 15, category_id: software.id });
+
+    expect((await getProductsByCategory(software.id)).products.map(p => p.id)).toEqual([recorder.id, codeEditor.id, photoEditor.id]);
+
+    await setCategoryFeaturedProducts({ category_id: software.id, product_ids: [photoEditor.id, codeEditor.id] });
+
+    const result = await getProductsByCategory(software.id);
+    expect(result.products.map(p => p.id)).toEqual([photoEditor.id, codeEditor.id, recorder.id]);
+
+    const byPrice = await getProductsByCategory(software.id, { page: 1, limit: 10, sort_by: 'price', sort_order: 'asc' });
+    expect(byPrice.products.map(p => p.id)).toEqual([photoEditor.id, codeEditor.id, recorder.id]);
+  });
+});
+
+describe('searchProducts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should match active products only', async () => {
+    await seedCatalog();
+
+    expect((await searchProducts('recipes')).products.map(p => p.name)).toEqual(['Cookbook']);
+    expect((await searchProducts('sold')).total).toEqual(0);
+  });
+
+  it('should rank name matches above description matches', async () => {
+    const { software } = await seedCatalog();
+    await createProduct({ ...testInput, name: 'Screen Recorder', description: 'Works great alongside any photo tool', price: 15, category_id: software.id });
+
+    const result = await searchProducts('photo');
+
+    expect(result.products.map(p => p.name)).toEqual(['Photo Editor', 'Screen Recorder']);
+    expect(result.products[0].rank).toBeGreaterThan(result.products[1].rank);
+  });
+
+  it('should match word stems and category names', async () => {
+    await seedCatalog();
+
+    expect((await searchProducts('editors')).total).toEqual(2);
+    expect((await searchProducts('e-books')).products.map(p => p.name)).toEqual(['Cookbook']);
+  });
+
+  it('should highlight matched terms', async () => {
+    await seedCatalog();
+
+    const result = await searchProducts('programmers');
+
+    expect(result.products).toHaveLength(1);
+    expect(result.products[0].snippet).toContain('<mark>programmers</mark>');
+    expect(result.products[0].highlighted_name).toEqual('Code Editor');
+  });
+
+  it('should return facet counts for category, license type and price', async () => {
+    const { software, ebooks } = await seedCatalog();
+    await createProduct({ ...testInput, name: 'Team Editor', description: 'Collaborative editor', price: 120, license_type: 'multi', category_id: ebooks.id });
+
+    const result = await searchProducts('editor');
+
+    expect(result.total).toEqual(3);
+    expect(result.facets.categories).toEqual([
+      { id: software.id, name: 'Software', slug: 'software', count: 2 },
+      { id: ebooks.id, name: 'E-books', slug: 'ebooks', count: 1 }
+    ]);
+    expect(result.facets.license_types).toEqual([
+      { license_type: 'single', count: 2 },
+      { license_type: 'multi', count: 1 }
+    ]);
+    expect(result.facets.price_buckets.find(b => b.min === 10)!.count).toEqual(1);
+    expect(result.facets.price_buckets.find(b => b.min === 25)!.count).toEqual(1);
+    expect(result.facets.price_buckets.find(b => b.min === 100)!.count).toEqual(1);
+  });
+
+  it('should filter and count license types by the variants on offer', async () => {
+    const { photoEditor } = await seedCatalog();
+    await createProductVariant({
+      product_id: photoEditor.id,
+      name: 'Site license',
+      sku: 'PE-SITE',
+      price: 299,
+      license_type: 'unlimited',
+      seats: 100,
+      stock_quantity: 5,
+      is_active: true
+    });
+
+    const result = await searchProducts('editor', { license_type: 'unlimited', page: 1, limit: 10 });
+
+    expect(result.products.map(p => p.name)).toEqual(['Photo Editor']);
+    expect(result.facets.license_types).toEqual([
+      { license_type: 'single', count: 2 },
+      { license_type: 'unlimited', count: 1 }
+    ]);
+  });
+
+  it('should keep the alternatives in a facet when filtering on it', async () => {
+    const { software } = await seedCatalog();
+
+    const result = await searchProducts('editor', { category_id: software.id, max_price: 20, page: 1, limit: 10 });
+
+    expect(result.products.map(p => p.name)).toEqual(['Code Editor']);
+    // Category counts ignore the category filter but honor the price filter
+    expect(result.facets.categories.find(c => c.id === software.id)!.count).toEqual(1);
+    // Price counts ignore the price filter but honor the category filter
+    expect(result.facets.price_buckets.filter(b => b.count > 0).map(b => b.min)).toEqual([10, 25]);
+  });
+
+  it('should list all active products for an empty query', async () => {
+    await seedCatalog();
+
+    const result = await searchProducts('  ');
+
+    expect(result.total).toEqual(3);
+    expect(result.products[0].snippet).toBeDefined();
+  });
+});
+
+describe('updateProduct', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const { codeEditor } = await seedCatalog();
+
+    const result = await updateProduct({ id: codeEditor.id, price: 24.5, stock_quantity: 3 });
+
+    expect(result).not.toBeNull();
+    expect(result!.price).toEqual(24.5);
+    expect(result!.stock_quantity).toEqual(3);
+    expect(result!.name).toEqual('Code Editor');
+  });
+
+  it('should reject a non-existent category', async () => {
+    const { codeEditor } = await seedCatalog();
+
+    await expect(updateProduct({ id: codeEditor.id, category_id: 99999 })).rejects.toThrow(/category/i);
+  });
+
+  it('should return null for non-existent product', async () => {
+    expect(await updateProduct({ id: 99999, name: 'Missing' })).toBeNull();
+  });
+});
+
+describe('suggestProducts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should complete product and category names, whole-name prefixes first', async () => {
+    const { software } = await seedCatalog();
+    await createProduct({ ...testInput, name: 'Editor Pro', description: 'An editor', price: 30, category_id: software.id });
+
+    const result = await suggestProducts('edi');
+
+    expect(result.completions.map(s => s.name)).toEqual(['Editor Pro', 'Code Editor', 'Photo Editor']);
+    expect(result.completions[0].type).toEqual('product');
+    expect(result.did_you_mean).toEqual([]);
+
+    expect((await suggestProducts('soft')).completions).toEqual([{ type: 'category', id: software.id, name: 'Software' }]);
+  });
+
+  it('should not suggest inactive products or treat wildcards as patterns', async () => {
+    await seedCatalog();
+
+    expect((await suggestProducts('archived')).completions).toEqual([]);
+    expect((await suggestProducts('%')).completions).toEqual([]);
+  });
+
+  it('should offer corrections when nothing completes the query', async () => {
+    const { ebooks } = await seedCatalog();
+
+    const result = await suggestProducts('cokbook');
+
+    expect(result.completions).toEqual([]);
+    expect(result.did_you_mean[0]).toMatchObject({ type: 'product', name: 'Cookbook' });
+    expect(result.did_you_mean[0].similarity).toBeGreaterThan(0.4);
+
+    expect((await suggestProducts('softwre')).did_you_mean.map(s => s.name)).toEqual(['Software']);
+    expect((await suggestProducts('e-bok')).did_you_mean.map(s => s.id)).toContain(ebooks.id);
+    expect((await suggestProducts('xyzzy')).did_you_mean).toEqual([]);
+  });
+
+  it('should limit the number of suggestions', async () => {
+    await seedCatalog();
+
+    expect((await suggestProducts('e', 1)).completions).toHaveLength(1);
+    expect(await suggestProducts('   ')).toEqual({ completions: [], did_you_mean: [] });
+  });
+});
+
+describe('deleteProduct', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should remove a product without history', async () => {
+    const { cookbook } = await seedCatalog();
+
+    expect(await deleteProduct(cookbook.id)).toBe(true);
+
+    const rows = await db.select().from(productsTable).where(eq(productsTable.id, cookbook.id)).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should soft delete a product with order history', async () => {
+    const { photoEditor } = await seedCatalog();
+    const [variant] = await getProductVariants(photoEditor.id);
+
+    const user = await db.insert(usersTable)
+      .values({ email: 'buyer@example.com', password_hash: 'x', first_name: 'Buyer', last_name: 'One' })
+      .returning()
+      .execute();
+    const order = await db.insert(ordersTable)
+      .values({ user_id: user[0].id, order_number: 'ORD-1', status: 'completed', subtotal: '49.99', total_amount: '49.99' })
+      .returning()
+      .execute();
+    await db.insert(orderItemsTable)
+      .values({ order_id: order[0].id, product_id: photoEditor.id, variant_id: variant.id, quantity: 1, unit_price: '49.99', total_price: '49.99' })
+      .execute();
+    await db.insert(cartItemsTable)
+      .values({ user_id: user[0].id, product_id: photoEditor.id, variant_id: variant.id, quantity: 1 })
+      .execute();
+
+    expect(await deleteProduct(photoEditor.id)).toBe(true);
+
+    const rows = await db.select().from(productsTable).where(eq(productsTable.id, photoEditor.id)).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].is_active).toBe(false);
+    expect(rows[0].deleted_at).not.toBeNull();
+
+    // Gone from every listing and from carts
+    expect(await getProductById(photoEditor.id)).toBeNull();
+    expect((await getProducts()).total).toEqual(3);
+    expect(await db.select().from(cartItemsTable).execute()).toHaveLength(0);
+
+    // Deleting again is a no-op
+    expect(await deleteProduct(photoEditor.id)).toBe(false);
+  });
+
+  it('should return false for non-existent product', async () => {
+    expect(await deleteProduct(99999)).toBe(false);
+  });
+});
+
+describe('getRelatedProducts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should rank active products by shared category and tags', async () => {
+    const { photoEditor, codeEditor, cookbook } = await seedCatalog();
+    const bestseller = await createTag({ name: 'Bestseller', slug: 'bestseller' });
+    const raw = await createTag({ name: 'RAW', slug: 'raw' });
+    await setProductTags({ product_id: photoEditor.id, tag_ids: [bestseller.id, raw.id] });
+    await setProductTags({ product_id: cookbook.id, tag_ids: [bestseller.id, raw.id] });
+    await setProductTags({ product_id: codeEditor.id, tag_ids: [bestseller.id] });
+
+    const result = await getRelatedProducts(photoEditor.id);
+
+    // The archived tool shares the category but is inactive
+    expect(result.map(p => [p.name, p.score])).toEqual([['Code Editor', 3], ['Cookbook', 2]]);
+    expect(result[0].category.slug).toEqual('software');
+  });
+
+  it('should leave out products sharing nothing', async () => {
+    const { cookbook } = await seedCatalog();
+
+    expect(await getRelatedProducts(cookbook.id)).toHaveLength(0);
+    expect(await getRelatedProducts(99999)).toHaveLength(0);
+  });
+});
+
+describe('getFrequentlyBoughtTogether', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const placeOrder = async (userId: number, orderNumber: string, status: 'paid' | 'completed' | 'cancelled', productIds: number[]) => {
+    const order = await db.insert(ordersTable)
+      .values({ user_id: userId, order_number: orderNumber, status, subtotal: '10.00', total_amount: '10.00' })
+      .returning()
+      .execute();
+    await db.insert(orderItemsTable)
+      .values(productIds.map(productId => ({ order_id: order[0].id, product_id: productId, quantity: 1, unit_price: '5.00', total_price: '5.00' })))
+      .execute();
+  };
+
+  it('should return products from the precomputed co-purchase counts', async () => {
+    const { photoEditor, codeEditor, cookbook } = await seedCatalog();
+    const user = await db.insert(usersTable)
+      .values({ email: 'buyer@example.com', password_hash: 'x', first_name: 'Buyer', last_name: 'One' })
+      .returning()
+      .execute();
+    await placeOrder(user[0].id, 'ORD-1', 'completed', [photoEditor.id, codeEditor.id]);
+    await placeOrder(user[0].id, 'ORD-2', 'paid', [photoEditor.id, codeEditor.id, cookbook.id]);
+    await placeOrder(user[0].id, 'ORD-3', 'cancelled', [photoEditor.id, cookbook.id]);
+    await placeOrder(user[0].id, 'ORD-4', 'cancelled', [photoEditor.id, cookbook.id]);
+
+    // Nothing until the job has run
+    expect(await getFrequentlyBoughtTogether(photoEditor.id)).toHaveLength(0);
+
+    expect(await refreshCoPurchaseCounts()).toEqual(6);
+
+    const result = await getFrequentlyBoughtTogether(photoEditor.id);
+    expect(result.map(p => [p.name, p.order_count])).toEqual([['Code Editor', 2], ['Cookbook', 1]]);
+
+    // Inactive products are not recommended
+    await updateProduct({ id: codeEditor.id, is_active: false });
+    expect((await getFrequentlyBoughtTogether(photoEditor.id)).map(p => p.name)).toEqual(['Cookbook']);
+  });
+});
+
+describe('availability windows', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  it('should only list and search products inside their window', async () => {
+    const { software, photoEditor, codeEditor, cookbook } = await seedCatalog();
+    await updateProduct({ id: photoEditor.id, available_from: hoursFromNow(24) });
+    await updateProduct({ id: codeEditor.id, available_from: hoursFromNow(-24), available_until: hoursFromNow(-1) });
+    await updateProduct({ id: cookbook.id, available_until: hoursFromNow(24) });
+
+    expect((await getActiveProducts()).products.map(p => p.name)).toEqual(['Cookbook']);
+    expect((await getProductsByCategory(software.id)).total).toEqual(0);
+    expect((await searchProducts('editor')).total).toEqual(0);
+    expect((await suggestProducts('edit')).completions).toHaveLength(0);
+
+    // Admin listings still show everything
+    expect((await getProducts()).total).toEqual(4);
+  });
+
+  it('should list upcoming launches soonest first', async () => {
+    const { photoEditor, codeEditor, cookbook } = await seedCatalog();
+    await updateProduct({ id: photoEditor.id, available_from: hoursFromNow(48) });
+    await updateProduct({ id: codeEditor.id, available_from: hoursFromNow(2) });
+    await updateProduct({ id: cookbook.id, available_from: hoursFromNow(-2) });
+
+    const result = await getUpcomingLaunches();
+
+    expect(result.map(p => p.name)).toEqual(['Code Editor', 'Photo Editor']);
+    expect(result[0].available_from).toBeInstanceOf(Date);
+  });
+
+  it('should reject a window that ends before it starts', async () => {
+    const { software, photoEditor } = await seedCatalog();
+
+    await expect(createProduct({
+      ...testInput,
+      category_id: software.id,
+      available_from: hoursFromNow(2),
+      available_until: hoursFromNow(1)
+    })).rejects.toThrow(/later than available_from/i);
+
+    await updateProduct({ id: photoEditor.id, available_from: hoursFromNow(2) });
+    await expect(updateProduct({ id: photoEditor.id, available_until: hoursFromNow(1) })).rejects.toThrow(/later than available_from/i);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { appRouter } from '../index';
+import { type CreateUserInput } from '../schema';
+import { registerUser } from '../handlers/auth';
+import { updateSetting } from '../handlers/settings';
+import { createCategory, deleteCategory } from '../handlers/categories';
+
+const customerInput: CreateUserInput = {
+  email: 'customer@example.com',
+  password: 'password123',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  role: 'customer'
+};
+
+// Builds a caller as the HTTP context would for the given user
+const callerFor = (user: Awaited<ReturnType<typeof registerUser>> | null) => appRouter.createCaller({
+  user,
+  sessionId: null,
+  metadata: { ip_address: null, user_agent: null }
+});
+
+const enableMaintenance = () => updateSetting({ key: 'maintenance_mode', value: 'true' });
+
+describe('App router', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('maintenance mode', () => {
+    it('should block customers and guests with SERVICE_UNAVAILABLE', async () => {
+      const customer = await registerUser(customerInput);
+      await enableMaintenance();
+
+      await expect(callerFor(customer).categories.getActive()).rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE' });
+      await expect(callerFor(null).products.getActive()).rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE' });
+    });
+
+    it('should let admins through', async () => {
+      const admin = await registerUser({ ...customerInput, email: 'admin@example.com', role: 'admin' });
+      await enableMaintenance();
+
+      expect(await callerFor(admin).categories.getAll()).toEqual([]);
+      expect(await callerFor(admin).categories.getActive()).toEqual([]);
+    });
+
+    it('should keep the allow-listed procedures reachable', async () => {
+      await registerUser(customerInput);
+      await enableMaintenance();
+      const guest = callerFor(null);
+
+      expect((await guest.healthcheck()).status).toEqual('ok');
+      const login = await guest.auth.login({ email: customerInput.email, password: customerInput.password });
+      expect(login).toMatchObject({ user: { email: customerInput.email } });
+      expect(await guest.auth.getCurrentUser()).toBeNull();
+    });
+
+    it('should not block anyone while maintenance mode is off', async () => {
+      await updateSetting({ key: 'maintenance_mode', value: 'false' });
+
+      expect(await callerFor(null).categories.getActive()).toEqual([]);
+    });
+  });
+
+  describe('category lookups', () => {
+    it('should show archived categories to admins only', async () => {
+      const admin = await registerUser({ ...customerInput, email: 'admin@example.com', role: 'admin' });
+      const category = await createCategory({ name: 'Legacy Tools', description: null, slug: 'legacy-tools' });
+      await deleteCategory({ id: category.id, mode: 'archive' });
+
+      expect(await callerFor(null).categories.getById(category.id)).toBeNull();
+      expect(await callerFor(null).categories.getBySlug('legacy-tools')).toBeNull();
+      expect((await callerFor(admin).categories.getById(category.id))!.is_active).toBe(false);
+      expect((await callerFor(admin).categories.getBySlug('legacy-tools'))!.id).toEqual(category.id);
+    });
+  });
+
+  describe('analytics', () => {
+    it('should accept client events but not search events', async () => {
+      const guest = callerFor(null);
+
+      expect((await guest.analytics.trackEvent({ event_type: 'page_view', event_data: { page: '/' } })).event_type).toEqual('page_view');
+      await expect(guest.analytics.trackEvent({
+        event_type: 'search' as 'page_view',
+        event_data: { query: 'forged', result_count: 0 }
+      })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+
+  describe('registration gate', () => {
+    it('should register customers while registration is enabled', async () => {
+      const user = await callerFor(null).auth.register({ ...customerInput });
+
+      expect(user.role).toEqual('customer');
+    });
+
+    it('should refuse sign-ups when registration is disabled', async () => {
+      await updateSetting({ key: 'enable_user_registration', value: 'false' });
+
+      await expect(callerFor(null).auth.register({ ...customerInput })).rejects.toThrow(/registration is currently disabled/i);
+    });
+  });
+});
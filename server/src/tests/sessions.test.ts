@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type CreateUserInput } from '../schema';
+import { registerUser, loginUser, getCurrentUser } from '../handlers/auth';
+import {
+  createSession,
+  refreshSession,
+  isSessionActive,
+  listSessions,
+  revokeSession,
+  revokeAllSessions
+} from '../handlers/sessions';
+import { eq, sql } from 'drizzle-orm';
+
+// Logs in with a password only, failing if a two-factor challenge comes back instead
+const passwordLogin = async (...args: Parameters<typeof loginUser>) => {
+  const result = await loginUser(...args);
+  if (result && 'two_factor_required' in result) {
+    throw new Error('Unexpected two-factor challenge');
+  }
+  return result;
+};
+
+const testUserInput: CreateUserInput = {
+  email: 'test@example.com',
+  password: 'password123',
+  first_name: 'John',
+  last_name: 'Doe',
+  role: 'customer'
+};
+
+const laptop = { ip_address: '203.0.113.10', user_agent: 'Mozilla/5.0 (Macintosh)' };
+const phone = { ip_address: '198.51.100.7', user_agent: 'Mozilla/5.0 (iPhone)' };
+
+describe('Session handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createSession', () => {
+    it('should store session metadata and a hashed refresh token', async () => {
+      const user = await registerUser(testUserInput);
+
+      const result = await createSession(user, laptop);
+
+      expect(result.token.split('.')).toHaveLength(3);
+      expect(result.refresh_token).toBeDefined();
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, result.session_id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].user_id).toEqual(user.id);
+      expect(sessions[0].ip_address).toEqual('203.0.113.10');
+      expect(sessions[0].user_agent).toEqual('Mozilla/5.0 (Macintosh)');
+      expect(sessions[0].refresh_token_hash).not.toEqual(result.refresh_token);
+      expect(sessions[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(sessions[0].revoked_at).toBeNull();
+    });
+
+    it('should be created on login', async () => {
+      await registerUser(testUserInput);
+
+      const result = await passwordLogin({ email: 'test@example.com', password: 'password123' }, phone);
+
+      expect(result).not.toBeNull();
+      expect(result!.refresh_token).toBeDefined();
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].user_agent).toEqual('Mozilla/5.0 (iPhone)');
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should issue new tokens and rotate the refresh token', async () => {
+      const user = await registerUser(testUserInput);
+      const session = await createSession(user, laptop);
+
+      const result = await refreshSession(session.refresh_token, phone);
+
+      expect(result).not.toBeNull();
+      expect(result!.refresh_token).not.toEqual(session.refresh_token);
+      expect(await getCurrentUser(result!.token)).not.toBeNull();
+
+      // The old refresh token can no longer be used
+      expect(await refreshSession(session.refresh_token)).toBeNull();
+
+      // Metadata reflects the most recent use
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].ip_address).toEqual('198.51.100.7');
+    });
+
+    it('should let only one of several concurrent refreshes with the same token succeed', async () => {
+      const user = await registerUser(testUserInput);
+      const session = await createSession(user);
+      // Open enough pooled connections first, so the refreshes really run side by side
+      await Promise.all(Array.from({ length: 5 }, () => db.execute(sql`select pg_sleep(0.05)`)));
+
+      const results = await Promise.all(Array.from({ length: 5 }, () => refreshSession(session.refresh_token)));
+
+      const issued = results.filter(result => result !== null);
+      expect(issued).toHaveLength(1);
+      expect(await refreshSession(issued[0]!.refresh_token)).not.toBeNull();
+    });
+
+    it('should return null for unknown refresh token', async () => {
+      const result = await refreshSession('not-a-real-token');
+      expect(result).toBeNull();
+    });
+
+    it('should return null for revoked session', async () => {
+      const user = await registerUser(testUserInput);
+      const session = await createSession(user);
+
+      await revokeSession(session.session_id, user.id);
+
+      expect(await refreshSession(session.refresh_token)).toBeNull();
+    });
+
+    it('should return null for expired session', async () => {
+      const user = await registerUser(testUserInput);
+      const session = await createSession(user);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.id, session.session_id))
+        .execute();
+
+      expect(await refreshSession(session.refresh_token)).toBeNull();
+    });
+
+    it('should return null for inactive user', async () => {
+      const user = await registerUser(testUserInput);
+      const session = await createSession(user);
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      expect(await refreshSession(session.refresh_token)).toBeNull();
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const user = await registerUser(testUserInput);
+      const first = await createSession(user, laptop);
+      const second = await createSession(user, phone);
+      const revoked = await createSession(user);
+      await revokeSession(revoked.session_id, user.id);
+
+      const result = await listSessions(user.id, second.session_id);
+
+      expect(result).toHaveLength(2);
+      expect(result.find(s => s.id === first.session_id)!.is_current).toBe(false);
+      expect(result.find(s => s.id === second.session_id)!.is_current).toBe(true);
+      expect((result[0] as any).refresh_token_hash).toBeUndefined();
+    });
+
+    it('should not include other users sessions', async () => {
+      const user = await registerUser(testUserInput);
+      const other = await registerUser({ ...testUserInput, email: 'other@example.com' });
+      await createSession(other);
+
+      const result = await listSessions(user.id);
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should invalidate the access token immediately', async () => {
+      const user = await registerUser(testUserInput);
+      const session = await createSession(user);
+      expect(await getCurrentUser(session.token)).not.toBeNull();
+
+      const result = await revokeSession(session.session_id, user.id);
+
+      expect(result).toBe(true);
+      expect(await isSessionActive(session.session_id, user.id)).toBe(false);
+      expect(await getCurrentUser(session.token)).toBeNull();
+    });
+
+    it('should not revoke another users session', async () => {
+      const user = await registerUser(testUserInput);
+      const other = await registerUser({ ...testUserInput, email: 'other@example.com' });
+      const session = await createSession(other);
+
+      const result = await revokeSession(session.session_id, user.id);
+
+      expect(result).toBe(false);
+      expect(await isSessionActive(session.session_id, other.id)).toBe(true);
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should revoke every session for the user', async () => {
+      const user = await registerUser(testUserInput);
+      const first = await createSession(user, laptop);
+      const second = await createSession(user, phone);
+
+      const revokedCount = await revokeAllSessions(user.id);
+
+      expect(revokedCount).toEqual(2);
+      expect(await getCurrentUser(first.token)).toBeNull();
+      expect(await getCurrentUser(second.token)).toBeNull();
+    });
+
+    it('should keep the excepted session', async () => {
+      const user = await registerUser(testUserInput);
+      const first = await createSession(user, laptop);
+      const second = await createSession(user, phone);
+
+      const revokedCount = await revokeAllSessions(user.id, second.session_id);
+
+      expect(revokedCount).toEqual(1);
+      expect(await getCurrentUser(first.token)).toBeNull();
+      expect(await getCurrentUser(second.token)).not.toBeNull();
+    });
+  });
+});
@@ -14,7 +14,10 @@ import {
   validateSettingValue,
   getSettingsByCategory,
   backupSettings,
-  restoreSettings
+  restoreSettings,
+  getSettingValue,
+  getMaintenanceStatus,
+  invalidateSettingsCache
 } from '../handlers/settings';
 import { eq } from 'drizzle-orm';
 
@@ -128,6 +131,16 @@ describe('Settings handlers', () => {
       expect(settings).toHaveLength(1);
       expect(settings[0].value).toBe('updated_value');
     });
+
+    it('should reject values that fail validation', async () => {
+      await updateSetting({ key: 'login_max_failed_attempts', value: '5' });
+
+      await expect(updateSetting({ key: 'login_max_failed_attempts', value: 'abc' })).rejects.toThrow('Invalid value for login_max_failed_attempts');
+      await expect(updateSetting({ key: 'login_lockout_minutes', value: '-5' })).rejects.toThrow(/invalid value/i);
+
+      expect((await getSettingByKey('login_max_failed_attempts'))?.value).toBe('5');
+      expect(await getSettingByKey('login_lockout_minutes')).toBeNull();
+    });
   });
 
   describe('updateMultipleSettings', () => {
@@ -158,6 +171,18 @@ describe('Settings handlers', () => {
       const allSettings = await getSettings();
       expect(allSettings).toHaveLength(3);
     });
+
+    it('should leave every setting unchanged when one value is invalid', async () => {
+      await updateSetting({ key: 'tax_rate', value: '10' });
+
+      await expect(updateMultipleSettings([
+        { key: 'tax_rate', value: '20' },
+        { key: 'guest_cart_ttl_days', value: 'never' }
+      ])).rejects.toThrow('Invalid value for guest_cart_ttl_days');
+
+      expect((await getSettingByKey('tax_rate'))?.value).toBe('10');
+      expect(await getSettingByKey('guest_cart_ttl_days')).toBeNull();
+    });
   });
 
   describe('deleteSetting', () => {
@@ -194,6 +219,85 @@ describe('Settings handlers', () => {
     });
   });
 
+  describe('getSettingValue', () => {
+    it('should return the stored value', async () => {
+      await updateSetting({ key: 'site_name', value: 'My Store' });
+
+      expect(await getSettingValue('site_name')).toBe('My Store');
+    });
+
+    it('should fall back to the default value', async () => {
+      expect(await getSettingValue('currency')).toBe('USD');
+    });
+
+    it('should return null for unknown settings', async () => {
+      expect(await getSettingValue('unknown_setting')).toBeNull();
+    });
+
+    it('should serve cached values until invalidated', async () => {
+      await updateSetting({ key: 'site_name', value: 'Cached Store' });
+      expect(await getSettingValue('site_name')).toBe('Cached Store');
+
+      // Writes that bypass the handlers are not visible until the cache is invalidated
+      await db.update(settingsTable)
+        .set({ value: 'Direct Write' })
+        .where(eq(settingsTable.key, 'site_name'))
+        .execute();
+      expect(await getSettingValue('site_name')).toBe('Cached Store');
+
+      invalidateSettingsCache();
+      expect(await getSettingValue('site_name')).toBe('Direct Write');
+    });
+
+    it('should reflect updates and deletes immediately', async () => {
+      await updateSetting({ key: 'tax_rate', value: '15' });
+      expect(await getSettingValue('tax_rate')).toBe('15');
+
+      await updateSetting({ key: 'tax_rate', value: '20' });
+      expect(await getSettingValue('tax_rate')).toBe('20');
+
+      await deleteSetting('tax_rate');
+      expect(await getSettingValue('tax_rate')).toBe('10');
+    });
+  });
+
+  describe('getMaintenanceStatus', () => {
+    it('should be disabled by default', async () => {
+      const status = await getMaintenanceStatus();
+
+      expect(status).toEqual({ enabled: false, message: null, eta: null });
+    });
+
+    it('should return message and ETA when enabled', async () => {
+      await updateMultipleSettings([
+        { key: 'maintenance_mode', value: 'true' },
+        { key: 'maintenance_message', value: 'Upgrading the store' },
+        { key: 'maintenance_eta', value: '2030-01-01T12:00:00.000Z' }
+      ]);
+
+      const status = await getMaintenanceStatus();
+
+      expect(status.enabled).toBe(true);
+      expect(status.message).toBe('Upgrading the store');
+      expect(status.eta).toEqual(new Date('2030-01-01T12:00:00.000Z'));
+    });
+
+    it('should ignore an unparseable ETA', async () => {
+      // Validation refuses such a value now, but an older release could have stored it
+      await db.insert(settingsTable)
+        .values([
+          { key: 'maintenance_mode', value: 'true' },
+          { key: 'maintenance_eta', value: 'soon' }
+        ])
+        .execute();
+
+      const status = await getMaintenanceStatus();
+
+      expect(status.enabled).toBe(true);
+      expect(status.eta).toBeNull();
+    });
+  });
+
   describe('getDefaultSettings', () => {
     it('should return array of default settings', async () => {
       const defaults = await getDefaultSettings();
@@ -273,6 +377,27 @@ describe('Settings handlers', () => {
       expect(invalid.isValid).toBe(false);
     });
 
+    it('should validate maintenance ETA', async () => {
+      expect((await validateSettingValue('maintenance_eta', '')).isValid).toBe(true);
+      expect((await validateSettingValue('maintenance_eta', '2030-01-01T12:00:00Z')).isValid).toBe(true);
+      expect((await validateSettingValue('maintenance_eta', 'tomorrow-ish')).isValid).toBe(false);
+    });
+
+    it('should validate login throttling thresholds', async () => {
+      expect((await validateSettingValue('login_max_failed_attempts', '5')).isValid).toBe(true);
+      expect((await validateSettingValue('login_max_failed_attempts', '0')).isValid).toBe(false);
+      expect((await validateSettingValue('login_ip_max_failed_attempts', '2.5')).isValid).toBe(false);
+      expect((await validateSettingValue('login_lockout_minutes', '30')).isValid).toBe(true);
+      expect((await validateSettingValue('login_lockout_minutes', '10000')).isValid).toBe(false);
+      expect((await validateSettingValue('login_backoff_base_seconds', '0')).isValid).toBe(true);
+      expect((await validateSettingValue('login_backoff_base_seconds', '')).isValid).toBe(false);
+    });
+
+    it('should validate the admin two-factor requirement', async () => {
+      expect((await validateSettingValue('require_admin_two_factor', 'true')).isValid).toBe(true);
+      expect((await validateSettingValue('require_admin_two_factor', 'yes')).isValid).toBe(false);
+    });
+
     it('should accept any value for unknown settings', async () => {
       const result = await validateSettingValue('unknown_setting', 'any_value');
       expect(result.isValid).toBe(true);
@@ -364,6 +489,19 @@ describe('Settings handlers', () => {
       expect(setting2?.value).toBe('restored_value2');
     });
 
+    it('should refuse a backup with an invalid value without restoring anything', async () => {
+      const backupData = JSON.stringify([
+        { key: 'site_name', value: 'Restored Store' },
+        { key: 'download_link_expiry_hours', value: 'soon' }
+      ]);
+
+      const result = await restoreSettings(backupData);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid value for download_link_expiry_hours');
+      expect(await getSettingByKey('site_name')).toBeNull();
+    });
+
     it('should handle invalid JSON', async () => {
       const result = await restoreSettings('invalid json');
 
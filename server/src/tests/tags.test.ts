@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, productsTable, productTagsTable } from '../db/schema';
+import { createProduct, updateProduct, getActiveProducts, getProductById, searchProducts } from '../handlers/products';
+import { eq } from 'drizzle-orm';
+import { createTag, getTags, updateTag, deleteTag, mergeTags, setProductTags } from '../handlers/tags';
+
+const seedProducts = async () => {
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  const product = (name: string) => createProduct({
+    name,
+    description: `${name} for creative work`,
+    short_description: null,
+    price: 49.99,
+    category_id: category[0].id,
+    image_url: null,
+    download_url: null,
+    file_size: null,
+    version: null,
+    license_type: 'single',
+    stock_quantity: 100
+  });
+
+  return { editor: await product('Photo Editor'), mixer: await product('Audio Mixer') };
+};
+
+describe('Tag handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createTag', () => {
+    it('should create a tag', async () => {
+      const tag = await createTag({ name: 'Open source', slug: 'open-source' });
+
+      expect(tag.id).toBeDefined();
+      expect(tag.slug).toEqual('open-source');
+    });
+
+    it('should reject a duplicate slug', async () => {
+      await createTag({ name: 'Open source', slug: 'open-source' });
+
+      await expect(createTag({ name: 'OSS', slug: 'open-source' })).rejects.toThrow(/already exists/i);
+    });
+  });
+
+  describe('updateTag', () => {
+    it('should rename a tag', async () => {
+      const tag = await createTag({ name: 'Open source', slug: 'open-source' });
+
+      const result = await updateTag({ id: tag.id, name: 'Open Source', slug: 'oss' });
+
+      expect(result!.name).toEqual('Open Source');
+      expect(result!.slug).toEqual('oss');
+    });
+
+    it('should reject a slug used by another tag', async () => {
+      await createTag({ name: 'Open source', slug: 'open-source' });
+      const other = await createTag({ name: 'Free', slug: 'free' });
+
+      await expect(updateTag({ id: other.id, slug: 'open-source' })).rejects.toThrow(/already exists/i);
+    });
+
+    it('should return null for a non-existent tag', async () => {
+      expect(await updateTag({ id: 99999, name: 'Missing' })).toBeNull();
+    });
+  });
+
+  describe('setProductTags', () => {
+    it('should replace the product tags', async () => {
+      const { editor } = await seedProducts();
+      const raw = await createTag({ name: 'RAW', slug: 'raw' });
+      const free = await createTag({ name: 'Free', slug: 'free' });
+      await setProductTags({ product_id: editor.id, tag_ids: [raw.id] });
+
+      const tags = await setProductTags({ product_id: editor.id, tag_ids: [free.id, raw.id, free.id] });
+
+      expect(tags.map(tag => tag.slug)).toEqual(['free', 'raw']);
+      expect((await getProductById(editor.id))!.tags.map(tag => tag.slug)).toEqual(['free', 'raw']);
+    });
+
+    it('should throw for a non-existent tag or product', async () => {
+      const { editor } = await seedProducts();
+
+      await expect(setProductTags({ product_id: editor.id, tag_ids: [99999] })).rejects.toThrow(/not found/i);
+      await expect(setProductTags({ product_id: 99999, tag_ids: [] })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('getTags', () => {
+    it('should list tags with product counts', async () => {
+      const { editor, mixer } = await seedProducts();
+      const free = await createTag({ name: 'Free', slug: 'free' });
+      await createTag({ name: 'Beta', slug: 'beta' });
+      await setProductTags({ product_id: editor.id, tag_ids: [free.id] });
+      await setProductTags({ product_id: mixer.id, tag_ids: [free.id] });
+
+      const tags = await getTags();
+
+      expect(tags.map(tag => [tag.slug, tag.product_count])).toEqual([['beta', 0], ['free', 2]]);
+    });
+
+    it('should count only active products that have not been deleted', async () => {
+      const { editor, mixer } = await seedProducts();
+      const free = await createTag({ name: 'Free', slug: 'free' });
+      const beta = await createTag({ name: 'Beta', slug: 'beta' });
+      await setProductTags({ product_id: editor.id, tag_ids: [free.id] });
+      await setProductTags({ product_id: mixer.id, tag_ids: [free.id, beta.id] });
+
+      await updateProduct({ id: editor.id, is_active: false });
+      await db.update(productsTable)
+        .set({ deleted_at: new Date() })
+        .where(eq(productsTable.id, mixer.id))
+        .execute();
+
+      const tags = await getTags();
+
+      expect(tags.map(tag => [tag.slug, tag.product_count])).toEqual([['beta', 0], ['free', 0]]);
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('should move products to the target tag and delete the source', async () => {
+      const { editor, mixer } = await seedProducts();
+      const oss = await createTag({ name: 'OSS', slug: 'oss' });
+      const openSource = await createTag({ name: 'Open source', slug: 'open-source' });
+      await setProductTags({ product_id: editor.id, tag_ids: [oss.id, openSource.id] });
+      await setProductTags({ product_id: mixer.id, tag_ids: [oss.id] });
+
+      const result = await mergeTags({ source_id: oss.id, target_id: openSource.id });
+
+      expect(result!.id).toEqual(openSource.id);
+      const tags = await getTags();
+      expect(tags.map(tag => [tag.slug, tag.product_count])).toEqual([['open-source', 2]]);
+      expect(await db.select().from(productTagsTable).execute()).toHaveLength(2);
+    });
+
+    it('should refuse to merge a tag into itself', async () => {
+      const tag = await createTag({ name: 'Free', slug: 'free' });
+
+      await expect(mergeTags({ source_id: tag.id, target_id: tag.id })).rejects.toThrow(/into itself/i);
+    });
+
+    it('should return null when either tag does not exist', async () => {
+      const tag = await createTag({ name: 'Free', slug: 'free' });
+
+      expect(await mergeTags({ source_id: 99999, target_id: tag.id })).toBeNull();
+      expect(await mergeTags({ source_id: tag.id, target_id: 99999 })).toBeNull();
+      expect(await getTags()).toHaveLength(1);
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should remove the tag from products', async () => {
+      const { editor } = await seedProducts();
+      const tag = await createTag({ name: 'Free', slug: 'free' });
+      await setProductTags({ product_id: editor.id, tag_ids: [tag.id] });
+
+      expect(await deleteTag(tag.id)).toBe(true);
+      expect((await getProductById(editor.id))!.tags).toHaveLength(0);
+      expect(await deleteTag(tag.id)).toBe(false);
+    });
+  });
+
+  describe('tag filters', () => {
+    it('should only list products carrying every requested tag', async () => {
+      const { editor, mixer } = await seedProducts();
+      const free = await createTag({ name: 'Free', slug: 'free' });
+      const beta = await createTag({ name: 'Beta', slug: 'beta' });
+      await setProductTags({ product_id: editor.id, tag_ids: [free.id, beta.id] });
+      await setProductTags({ product_id: mixer.id, tag_ids: [free.id] });
+
+      const tagged = await getActiveProducts({ page: 1, limit: 10, tags: ['free'] });
+      expect(tagged.total).toEqual(2);
+
+      const both = await getActiveProducts({ page: 1, limit: 10, tags: ['free', 'beta'] });
+      expect(both.products.map(product => product.id)).toEqual([editor.id]);
+
+      const search = await searchProducts('creative', { page: 1, limit: 10, tags: ['beta'] });
+      expect(search.products.map(product => product.id)).toEqual([editor.id]);
+    });
+  });
+});
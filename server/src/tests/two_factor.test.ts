@@ -0,0 +1,262 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, recoveryCodesTable } from '../db/schema';
+import { type CreateUserInput } from '../schema';
+import { registerUser, loginUser, completeTwoFactorLogin, getCurrentUser } from '../handlers/auth';
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTotp,
+  getTwoFactorStatus,
+  isTwoFactorPolicySatisfied,
+  regenerateRecoveryCodes
+} from '../handlers/two_factor';
+import { updateSetting } from '../handlers/settings';
+import { generateTotpCode, getTotpStep, verifyTotpCode, buildTotpProvisioningUri } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+const adminInput: CreateUserInput = {
+  email: 'admin@example.com',
+  password: 'adminpass123',
+  first_name: 'Admin',
+  last_name: 'User',
+  role: 'admin'
+};
+
+const adminLogin = { email: 'admin@example.com', password: 'adminpass123' };
+
+// Codes for upcoming steps, so each one is accepted only once
+const codeForStep = (secret: string, offset: number) => generateTotpCode(secret, getTotpStep() + offset);
+
+// Enrolls the user and returns the secret and recovery codes
+const enroll = async (userId: number) => {
+  const { secret } = await beginTotpEnrollment(userId);
+  const result = await confirmTotpEnrollment(userId, codeForStep(secret, 0));
+  return { secret, recoveryCodes: result.recovery_codes! };
+};
+
+const startLogin = async () => {
+  const result = await loginUser(adminLogin);
+  if (!result || !('two_factor_required' in result)) {
+    throw new Error('Expected a two-factor challenge');
+  }
+  return result.challenge_token;
+};
+
+describe('TOTP', () => {
+  // RFC 6238 appendix B test secret ("12345678901234567890" in base32)
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotpCode(rfcSecret, Math.floor(59 / 30))).toEqual('287082');
+    expect(generateTotpCode(rfcSecret, Math.floor(1111111109 / 30))).toEqual('081804');
+    expect(generateTotpCode(rfcSecret, Math.floor(1234567890 / 30))).toEqual('005924');
+  });
+
+  it('should allow one step of clock drift', () => {
+    const now = 1234567890 * 1000;
+    const step = getTotpStep(now);
+
+    expect(verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, step - 1), 1, now)).toEqual(step - 1);
+    expect(verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, step + 1), 1, now)).toEqual(step + 1);
+    expect(verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, step + 2), 1, now)).toBeNull();
+    expect(verifyTotpCode(rfcSecret, 'abcdef', 1, now)).toBeNull();
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const uri = buildTotpProvisioningUri(rfcSecret, 'admin@example.com', 'Digital Store');
+
+    expect(uri).toStartWith('otpauth://totp/Digital%20Store%3Aadmin%40example.com?');
+    expect(uri).toContain(`secret=${rfcSecret}`);
+    expect(uri).toContain('issuer=Digital+Store');
+    expect(uri).toContain('digits=6');
+  });
+});
+
+describe('Two-factor handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('enrollment', () => {
+    it('should return a secret and provisioning URI', async () => {
+      const admin = await registerUser(adminInput);
+
+      const result = await beginTotpEnrollment(admin.id);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.provisioning_uri).toContain(result.secret);
+
+      // Not enabled until confirmed
+      expect((await getTwoFactorStatus(admin.id)).enabled).toBe(false);
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      const admin = await registerUser(adminInput);
+      await beginTotpEnrollment(admin.id);
+
+      const result = await confirmTotpEnrollment(admin.id, '000000');
+
+      expect(result.success).toBe(false);
+      expect((await getTwoFactorStatus(admin.id)).enabled).toBe(false);
+    });
+
+    it('should enable 2FA and hand out recovery codes', async () => {
+      const admin = await registerUser(adminInput);
+
+      const { recoveryCodes } = await enroll(admin.id);
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(new Set(recoveryCodes).size).toEqual(10);
+
+      const status = await getTwoFactorStatus(admin.id);
+      expect(status.enabled).toBe(true);
+      expect(status.recovery_codes_remaining).toEqual(10);
+
+      // Only hashes are stored
+      const stored = await db.select().from(recoveryCodesTable).execute();
+      expect(stored.map(c => c.code_hash)).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should refuse to start enrollment again once enabled', async () => {
+      const admin = await registerUser(adminInput);
+      await enroll(admin.id);
+
+      await expect(beginTotpEnrollment(admin.id)).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('login', () => {
+    it('should return a challenge instead of tokens for enrolled users', async () => {
+      const admin = await registerUser(adminInput);
+      await enroll(admin.id);
+
+      const result = await loginUser(adminLogin);
+
+      expect(result).not.toBeNull();
+      expect(result).toMatchObject({ two_factor_required: true });
+      expect((result as any).token).toBeUndefined();
+    });
+
+    it('should complete the login with a TOTP code', async () => {
+      const admin = await registerUser(adminInput);
+      const { secret } = await enroll(admin.id);
+      const challenge = await startLogin();
+
+      const result = await completeTwoFactorLogin({ challenge_token: challenge, code: codeForStep(secret, 1) });
+
+      expect(result).not.toBeNull();
+      expect(result!.user.id).toEqual(admin.id);
+      expect(await getCurrentUser(result!.token)).not.toBeNull();
+
+      // The challenge is single-use
+      expect(await completeTwoFactorLogin({ challenge_token: challenge, code: codeForStep(secret, 0) })).toBeNull();
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      const admin = await registerUser(adminInput);
+      const { secret } = await enroll(admin.id);
+      const code = codeForStep(secret, 1);
+
+      expect(await completeTwoFactorLogin({ challenge_token: await startLogin(), code })).not.toBeNull();
+
+      await updateSetting({ key: 'login_backoff_base_seconds', value: '0' });
+      expect(await completeTwoFactorLogin({ challenge_token: await startLogin(), code })).toBeNull();
+    });
+
+    it('should accept each recovery code once', async () => {
+      const admin = await registerUser(adminInput);
+      const { recoveryCodes } = await enroll(admin.id);
+      await updateSetting({ key: 'login_backoff_base_seconds', value: '0' });
+
+      const first = await completeTwoFactorLogin({ challenge_token: await startLogin(), code: recoveryCodes[0].toUpperCase() });
+      expect(first).not.toBeNull();
+
+      const second = await completeTwoFactorLogin({ challenge_token: await startLogin(), code: recoveryCodes[0] });
+      expect(second).toBeNull();
+
+      expect((await getTwoFactorStatus(admin.id)).recovery_codes_remaining).toEqual(9);
+    });
+
+    it('should count wrong codes as failed logins', async () => {
+      const admin = await registerUser(adminInput);
+      await enroll(admin.id);
+      const challenge = await startLogin();
+
+      expect(await completeTwoFactorLogin({ challenge_token: challenge, code: '000000' })).toBeNull();
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, admin.id)).execute();
+      expect(users[0].failed_login_attempts).toEqual(1);
+    });
+
+    it('should return null for an unknown challenge', async () => {
+      const result = await completeTwoFactorLogin({ challenge_token: 'not-a-real-token', code: '123456' });
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('mandatory admin 2FA', () => {
+    it('should only fail the policy for admins without 2FA when required', async () => {
+      const admin = await registerUser(adminInput);
+      const customer = await registerUser({ ...adminInput, email: 'customer@example.com', role: 'customer' });
+
+      expect(await isTwoFactorPolicySatisfied(admin)).toBe(true);
+
+      await updateSetting({ key: 'require_admin_two_factor', value: 'true' });
+
+      expect(await isTwoFactorPolicySatisfied(admin)).toBe(false);
+      expect(await isTwoFactorPolicySatisfied(customer)).toBe(true);
+      expect((await getTwoFactorStatus(admin.id)).required).toBe(true);
+
+      await enroll(admin.id);
+      expect(await isTwoFactorPolicySatisfied(admin)).toBe(true);
+    });
+
+    it('should not let admins disable 2FA while it is required', async () => {
+      const admin = await registerUser(adminInput);
+      const { secret } = await enroll(admin.id);
+      await updateSetting({ key: 'require_admin_two_factor', value: 'true' });
+
+      const result = await disableTotp(admin.id, { password: 'adminpass123', code: codeForStep(secret, 1) });
+
+      expect(result.success).toBe(false);
+      expect((await getTwoFactorStatus(admin.id)).enabled).toBe(true);
+    });
+  });
+
+  describe('disableTotp', () => {
+    it('should require the password and a valid code', async () => {
+      const admin = await registerUser(adminInput);
+      const { secret } = await enroll(admin.id);
+
+      expect((await disableTotp(admin.id, { password: 'wrong', code: codeForStep(secret, 1) })).success).toBe(false);
+      expect((await disableTotp(admin.id, { password: 'adminpass123', code: '000000' })).success).toBe(false);
+
+      const result = await disableTotp(admin.id, { password: 'adminpass123', code: codeForStep(secret, 1) });
+
+      expect(result.success).toBe(true);
+      expect((await getTwoFactorStatus(admin.id)).enabled).toBe(false);
+      expect(await db.select().from(recoveryCodesTable).execute()).toHaveLength(0);
+
+      // Password-only login works again
+      const login = await loginUser(adminLogin);
+      expect(login && 'token' in login).toBe(true);
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace the previous codes', async () => {
+      const admin = await registerUser(adminInput);
+      const { secret, recoveryCodes } = await enroll(admin.id);
+
+      const result = await regenerateRecoveryCodes(admin.id, codeForStep(secret, 1));
+
+      expect(result.success).toBe(true);
+      expect(result.recovery_codes).toHaveLength(10);
+      expect(result.recovery_codes).not.toContain(recoveryCodes[0]);
+
+      const challenge = await startLogin();
+      expect(await completeTwoFactorLogin({ challenge_token: challenge, code: recoveryCodes[0] })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, productsTable, productVariantsTable, ordersTable, cartItemsTable, reviewsTable } from '../db/schema';
+import { type CreateUserInput } from '../schema';
+import { registerUser, getCurrentUser } from '../handlers/auth';
+import { createSession } from '../handlers/sessions';
+import { getUsers, getUserDetails, updateUserRole, setUserActive } from '../handlers/users';
+
+const customerInput: CreateUserInput = {
+  email: 'jane.smith@example.com',
+  password: 'password123',
+  first_name: 'Jane',
+  last_name: 'Smith',
+  role: 'customer'
+};
+
+const adminInput: CreateUserInput = {
+  email: 'admin@example.com',
+  password: 'adminpass123',
+  first_name: 'Admin',
+  last_name: 'User',
+  role: 'admin'
+};
+
+describe('User management handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('getUsers', () => {
+    const seedUsers = async () => {
+      await registerUser(adminInput);
+      await registerUser(customerInput);
+      await registerUser({ ...customerInput, email: 'bob@example.com', first_name: 'Bob', last_name: 'Jones' });
+    };
+
+    it('should return a page of users without password hashes', async () => {
+      await seedUsers();
+
+      const result = await getUsers({ page: 1, limit: 2 });
+
+      expect(result.users).toHaveLength(2);
+      expect(result.total).toEqual(3);
+      expect(result.page).toEqual(1);
+      expect(result.limit).toEqual(2);
+      expect((result.users[0] as any).password_hash).toBeUndefined();
+
+      const secondPage = await getUsers({ page: 2, limit: 2 });
+      expect(secondPage.users).toHaveLength(1);
+    });
+
+    it('should search by email or name', async () => {
+      await seedUsers();
+
+      expect((await getUsers({ search: 'bob@', page: 1, limit: 10 })).users.map(u => u.first_name)).toEqual(['Bob']);
+      expect((await getUsers({ search: 'smith', page: 1, limit: 10 })).users.map(u => u.first_name)).toEqual(['Jane']);
+      expect((await getUsers({ search: 'Jane Smith', page: 1, limit: 10 })).total).toEqual(1);
+      expect((await getUsers({ search: 'nobody', page: 1, limit: 10 })).total).toEqual(0);
+    });
+
+    it('should filter by role and status', async () => {
+      await seedUsers();
+      const bob = (await getUsers({ search: 'bob', page: 1, limit: 10 })).users[0];
+      const admin = (await getUsers({ role: 'admin', page: 1, limit: 10 })).users[0];
+      await setUserActive({ user_id: bob.id, is_active: false }, admin.id);
+
+      expect((await getUsers({ role: 'admin', page: 1, limit: 10 })).total).toEqual(1);
+      expect((await getUsers({ role: 'customer', is_active: true, page: 1, limit: 10 })).users.map(u => u.first_name)).toEqual(['Jane']);
+      expect((await getUsers({ is_active: false, page: 1, limit: 10 })).users.map(u => u.id)).toEqual([bob.id]);
+    });
+  });
+
+  describe('getUserDetails', () => {
+    it('should aggregate orders, reviews, cart and lifetime spend', async () => {
+      const customer = await registerUser(customerInput);
+
+      const category = await db.insert(categoriesTable)
+        .values({ name: 'Software', slug: 'software' })
+        .returning()
+        .execute();
+
+      const product = await db.insert(productsTable)
+        .values({ name: 'Test Software', description: 'A test software product', price: '25.00', category_id: category[0].id, stock_quantity: 10 })
+        .returning()
+        .execute();
+
+      const variant = await db.insert(productVariantsTable)
+        .values({ product_id: product[0].id, name: 'Single license', sku: 'TS-SINGLE', price: '25.00', license_type: 'single', stock_quantity: 10 })
+        .returning()
+        .execute();
+
+      await db.insert(ordersTable)
+        .values([
+          { user_id: customer.id, order_number: 'ORD-1', status: 'completed', subtotal: '100.00', total_amount: '110.00' },
+          { user_id: customer.id, order_number: 'ORD-2', status: 'paid', subtotal: '20.00', total_amount: '22.50' },
+          { user_id: customer.id, order_number: 'ORD-3', status: 'refunded', subtotal: '50.00', total_amount: '55.00' },
+          { user_id: customer.id, order_number: 'ORD-4', status: 'pending', subtotal: '10.00', total_amount: '11.00' }
+        ])
+        .execute();
+
+      await db.insert(cartItemsTable)
+        .values({ user_id: customer.id, product_id: product[0].id, variant_id: variant[0].id, quantity: 2 })
+        .execute();
+
+      await db.insert(reviewsTable)
+        .values({ user_id: customer.id, product_id: product[0].id, rating: 5, comment: 'Great' })
+        .execute();
+
+      await createSession(customer);
+
+      const result = await getUserDetails(customer.id);
+
+      expect(result).not.toBeNull();
+      expect(result!.user.email).toEqual('jane.smith@example.com');
+      expect(result!.orders).toHaveLength(4);
+      expect(result!.reviews).toHaveLength(1);
+      expect(result!.cart.items).toHaveLength(1);
+      expect(result!.cart.item_count).toEqual(2);
+      expect(result!.cart.subtotal).toEqual(50);
+      expect(result!.stats.order_count).toEqual(4);
+      expect(result!.stats.review_count).toEqual(1);
+      expect(result!.stats.lifetime_spend).toEqual(132.5);
+      expect(result!.security.active_sessions).toEqual(1);
+      expect(result!.security.two_factor_enabled).toBe(false);
+    });
+
+    it('should report zero spend for a new user', async () => {
+      const customer = await registerUser(customerInput);
+
+      const result = await getUserDetails(customer.id);
+
+      expect(result!.orders).toHaveLength(0);
+      expect(result!.stats.lifetime_spend).toEqual(0);
+    });
+
+    it('should return null for non-existent user', async () => {
+      expect(await getUserDetails(99999)).toBeNull();
+    });
+  });
+
+  describe('updateUserRole', () => {
+    it('should change the role and revoke existing sessions', async () => {
+      const admin = await registerUser(adminInput);
+      const customer = await registerUser(customerInput);
+      const session = await createSession(customer);
+
+      const result = await updateUserRole({ user_id: customer.id, role: 'admin' }, admin.id);
+
+      expect(result.role).toEqual('admin');
+      expect(await getCurrentUser(session.token)).toBeNull();
+    });
+
+    it('should leave sessions alone when the role is unchanged', async () => {
+      const admin = await registerUser(adminInput);
+      const customer = await registerUser(customerInput);
+      const session = await createSession(customer);
+
+      await updateUserRole({ user_id: customer.id, role: 'customer' }, admin.id);
+
+      expect(await getCurrentUser(session.token)).not.toBeNull();
+    });
+
+    it('should not let admins change their own role', async () => {
+      const admin = await registerUser(adminInput);
+
+      await expect(updateUserRole({ user_id: admin.id, role: 'customer' }, admin.id)).rejects.toThrow(/own role/i);
+    });
+
+    it('should throw for non-existent user', async () => {
+      const admin = await registerUser(adminInput);
+
+      await expect(updateUserRole({ user_id: 99999, role: 'admin' }, admin.id)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('setUserActive', () => {
+    it('should deactivate the user and revoke their sessions', async () => {
+      const admin = await registerUser(adminInput);
+      const customer = await registerUser(customerInput);
+      const session = await createSession(customer);
+
+      const result = await setUserActive({ user_id: customer.id, is_active: false }, admin.id);
+
+      expect(result.is_active).toBe(false);
+      expect(await getCurrentUser(session.token)).toBeNull();
+    });
+
+    it('should reactivate the user', async () => {
+      const admin = await registerUser(adminInput);
+      const customer = await registerUser(customerInput);
+      await setUserActive({ user_id: customer.id, is_active: false }, admin.id);
+
+      const result = await setUserActive({ user_id: customer.id, is_active: true }, admin.id);
+
+      expect(result.is_active).toBe(true);
+    });
+
+    it('should not let admins deactivate themselves', async () => {
+      const admin = await registerUser(adminInput);
+
+      await expect(setUserActive({ user_id: admin.id, is_active: false }, admin.id)).rejects.toThrow(/own account/i);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, productsTable, productVariantsTable, wishlistItemsTable } from '../db/schema';
+import { addToCart, getCartItems } from '../handlers/cart';
+import { deleteProduct } from '../handlers/products';
+import {
+  createWishlist,
+  getWishlists,
+  getWishlistById,
+  getSharedWishlist,
+  updateWishlist,
+  setWishlistSharing,
+  deleteWishlist,
+  addToWishlist,
+  removeFromWishlist,
+  moveWishlistItemToCart,
+  moveCartItemToWishlist,
+  sendWishlistAlerts
+} from '../handlers/wishlists';
+import { createMemoryTransport, setMailTransport } from '../lib/mail';
+import { eq, sql } from 'drizzle-orm';
+
+const mailTransport = createMemoryTransport();
+setMailTransport(mailTransport);
+
+const setupTestData = async () => {
+  const users = await db.insert(usersTable)
+    .values([
+      { email: 'fan@example.com', password_hash: 'hashedpassword', first_name: 'Robin', last_name: 'Fan', role: 'customer' as const },
+      { email: 'other@example.com', password_hash: 'hashedpassword', first_name: 'Other', last_name: 'User', role: 'customer' as const }
+    ])
+    .returning()
+    .execute();
+
+  const category = await db.insert(categoriesTable)
+    .values({ name: 'Software', slug: 'software' })
+    .returning()
+    .execute();
+
+  const product = (name: string, price: string, stock: number) => db.insert(productsTable)
+    .values({
+      name,
+      description: `${name} for testing`,
+      price,
+      category_id: category[0].id,
+      stock_quantity: stock
+    })
+    .returning()
+    .execute()
+    .then(rows => rows[0]);
+
+  const editor = await product('Photo Editor', '49.99', 5);
+  const mixer = await product('Audio Mixer', '29.99', 0);
+
+  const variants = await db.insert(productVariantsTable)
+    .values([editor, mixer].map(row => ({
+      product_id: row.id,
+      name: 'Single license',
+      sku: `SKU-${row.id}`,
+      price: row.price,
+      license_type: 'single' as const,
+      stock_quantity: row.stock_quantity
+    })))
+    .returning()
+    .execute();
+
+  return { user: users[0], other: users[1], editor, mixer, editorVariant: variants[0], mixerVariant: variants[1] };
+};
+
+describe('Wishlist handlers', () => {
+  beforeEach(async () => {
+    await createDB();
+    mailTransport.messages.length = 0;
+  });
+  afterEach(resetDB);
+
+  describe('wishlist management', () => {
+    it('should create, list, rename and delete named lists per user', async () => {
+      const { user, other, editor } = await setupTestData();
+      const gifts = await createWishlist({ name: 'Gift ideas' }, user.id);
+      await createWishlist({ name: 'Someday' }, user.id);
+      await addToWishlist({ wishlist_id: gifts.id, product_id: editor.id }, user.id);
+
+      expect((await getWishlists(user.id)).map(list => [list.name, list.item_count])).toEqual([['Gift ideas', 1], ['Someday', 0]]);
+      expect(await getWishlists(other.id)).toEqual([]);
+
+      expect((await updateWishlist({ id: gifts.id, name: 'Birthday' }, user.id))!.name).toEqual('Birthday');
+      expect(await updateWishlist({ id: gifts.id, name: 'Stolen' }, other.id)).toBeNull();
+      expect(await getWishlistById(gifts.id, other.id)).toBeNull();
+
+      expect(await deleteWishlist(gifts.id, other.id)).toBe(false);
+      expect(await deleteWishlist(gifts.id, user.id)).toBe(true);
+      expect(await db.select().from(wishlistItemsTable).execute()).toHaveLength(0);
+    });
+
+    it('should add a product once per variant and show its current state', async () => {
+      const { user, editor, mixer } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+
+      const first = await addToWishlist({ wishlist_id: list.id, product_id: editor.id }, user.id);
+      const again = await addToWishlist({ wishlist_id: list.id, product_id: editor.id }, user.id);
+      await addToWishlist({ wishlist_id: list.id, product_id: mixer.id }, user.id);
+
+      expect(again.id).toEqual(first.id);
+      expect(first.last_seen_price).toEqual(49.99);
+      const items = (await getWishlistById(list.id, user.id))!.items;
+      expect(items.map(item => [item.product.name, item.product.in_stock, item.product.is_available])).toEqual([
+        ['Photo Editor', true, true],
+        ['Audio Mixer', false, true]
+      ]);
+
+      await expect(addToWishlist({ wishlist_id: list.id, product_id: 99999 }, user.id)).rejects.toThrow(/not found/i);
+      expect(await removeFromWishlist(first.id, user.id)).toBe(true);
+      expect(await removeFromWishlist(first.id, user.id)).toBe(false);
+    });
+
+    it('should keep a single row when the same item is added concurrently', async () => {
+      const { user, editor } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+      // Open enough pooled connections first, so the adds really run side by side
+      await Promise.all(Array.from({ length: 5 }, () => db.execute(sql`select pg_sleep(0.05)`)));
+
+      const items = await Promise.all(Array.from({ length: 5 }, () => addToWishlist({ wishlist_id: list.id, product_id: editor.id }, user.id)));
+
+      expect(new Set(items.map(item => item.id)).size).toEqual(1);
+      expect(await db.select().from(wishlistItemsTable).execute()).toHaveLength(1);
+    });
+
+    it('should refuse to add to somebody else\'s list', async () => {
+      const { user, other, editor } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+
+      await expect(addToWishlist({ wishlist_id: list.id, product_id: editor.id }, other.id)).rejects.toThrow(/wishlist not found/i);
+    });
+
+    it('should drop items when their product is deleted', async () => {
+      const { user, editor } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+      await addToWishlist({ wishlist_id: list.id, product_id: editor.id }, user.id);
+
+      await deleteProduct(editor.id);
+
+      expect((await getWishlistById(list.id, user.id))!.items).toHaveLength(0);
+    });
+  });
+
+  describe('setWishlistSharing', () => {
+    it('should expose a list through its token until sharing is turned off', async () => {
+      const { user, editor } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+      await addToWishlist({ wishlist_id: list.id, product_id: editor.id }, user.id);
+
+      const shared = await setWishlistSharing({ id: list.id, shared: true }, user.id);
+      const token = shared!.share_token!;
+      expect((await setWishlistSharing({ id: list.id, shared: true }, user.id))!.share_token).toEqual(token);
+
+      const view = await getSharedWishlist(token);
+      expect(view!.name).toEqual('Gift ideas');
+      expect(view!.items.map(item => item.product.name)).toEqual(['Photo Editor']);
+      expect(view).not.toHaveProperty('user_id');
+
+      await setWishlistSharing({ id: list.id, shared: false }, user.id);
+      expect(await getSharedWishlist(token)).toBeNull();
+    });
+  });
+
+  describe('moving between cart and wishlist', () => {
+    it('should move a wishlist item into the cart', async () => {
+      const { user, editor } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+      const item = await addToWishlist({ wishlist_id: list.id, product_id: editor.id }, user.id);
+
+      const cartItem = await moveWishlistItemToCart({ item_id: item.id, quantity: 2 }, user.id);
+
+      expect(cartItem!.quantity).toEqual(2);
+      expect((await getWishlistById(list.id, user.id))!.items).toHaveLength(0);
+    });
+
+    it('should keep the wishlist item when it cannot be bought', async () => {
+      const { user, mixer } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+      const item = await addToWishlist({ wishlist_id: list.id, product_id: mixer.id }, user.id);
+
+      await expect(moveWishlistItemToCart({ item_id: item.id, quantity: 1 }, user.id)).rejects.toThrow(/insufficient stock/i);
+      expect((await getWishlistById(list.id, user.id))!.items).toHaveLength(1);
+    });
+
+    it('should save a cart item for later', async () => {
+      const { user, editor, editorVariant } = await setupTestData();
+      const cartItem = await addToCart({ user_id: user.id, product_id: editor.id, quantity: 1 });
+
+      const item = await moveCartItemToWishlist({ cart_item_id: cartItem.id }, user.id);
+
+      expect(item!.variant_id).toEqual(editorVariant.id);
+      expect(await getCartItems(user.id)).toHaveLength(0);
+      const lists = await getWishlists(user.id);
+      expect(lists.map(list => [list.name, list.item_count])).toEqual([['Saved for later', 1]]);
+
+      // The same list is reused next time
+      const again = await addToCart({ user_id: user.id, product_id: editor.id, quantity: 1 });
+      await moveCartItemToWishlist({ cart_item_id: again.id }, user.id);
+      expect(await getWishlists(user.id)).toHaveLength(1);
+      expect(await moveCartItemToWishlist({ cart_item_id: again.id }, user.id)).toBeNull();
+    });
+  });
+
+  describe('sendWishlistAlerts', () => {
+    it('should mail price drops and restocks once', async () => {
+      const { user, editor, mixer, editorVariant, mixerVariant } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+      await addToWishlist({ wishlist_id: list.id, product_id: editor.id, variant_id: editorVariant.id }, user.id);
+      await addToWishlist({ wishlist_id: list.id, product_id: mixer.id, variant_id: mixerVariant.id }, user.id);
+
+      expect(await sendWishlistAlerts()).toEqual(0);
+
+      await db.update(productVariantsTable).set({ price: '39.99' }).where(eq(productVariantsTable.id, editorVariant.id)).execute();
+      await db.update(productVariantsTable).set({ stock_quantity: 3 }).where(eq(productVariantsTable.id, mixerVariant.id)).execute();
+
+      expect(await sendWishlistAlerts()).toEqual(1);
+      expect(mailTransport.messages).toHaveLength(1);
+      expect(mailTransport.messages[0].to).toEqual('fan@example.com');
+      expect(mailTransport.messages[0].text).toContain('Photo Editor (Single license) dropped from 49.99 to 39.99');
+      expect(mailTransport.messages[0].text).toContain('Audio Mixer (Single license) is back in stock at 29.99');
+
+      expect(await sendWishlistAlerts()).toEqual(0);
+    });
+
+    it('should not announce price rises but track them', async () => {
+      const { user, editor, editorVariant } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+      await addToWishlist({ wishlist_id: list.id, product_id: editor.id, variant_id: editorVariant.id }, user.id);
+
+      await db.update(productVariantsTable).set({ price: '59.99' }).where(eq(productVariantsTable.id, editorVariant.id)).execute();
+      expect(await sendWishlistAlerts()).toEqual(0);
+
+      await db.update(productVariantsTable).set({ price: '54.99' }).where(eq(productVariantsTable.id, editorVariant.id)).execute();
+      expect(await sendWishlistAlerts()).toEqual(1);
+      expect(mailTransport.messages[0].text).toContain('dropped from 59.99 to 54.99');
+    });
+
+    it('should wait while the product is not on sale', async () => {
+      const { user, editor, editorVariant } = await setupTestData();
+      const list = await createWishlist({ name: 'Gift ideas' }, user.id);
+      await addToWishlist({ wishlist_id: list.id, product_id: editor.id, variant_id: editorVariant.id }, user.id);
+      await db.update(productsTable).set({ is_active: false }).where(eq(productsTable.id, editor.id)).execute();
+      await db.update(productVariantsTable).set({ price: '19.99' }).where(eq(productVariantsTable.id, editorVariant.id)).execute();
+
+      expect(await sendWishlistAlerts()).toEqual(0);
+
+      await db.update(productsTable).set({ is_active: true }).where(eq(productsTable.id, editor.id)).execute();
+      expect(await sendWishlistAlerts()).toEqual(1);
+    });
+
+    it('should keep alerts whose mail failed for the next run without holding back other users', async () => {
+      const { user, other, editor, editorVariant } = await setupTestData();
+      for (const owner of [user, other]) {
+        const list = await createWishlist({ name: 'Gift ideas' }, owner.id);
+        await addToWishlist({ wishlist_id: list.id, product_id: editor.id, variant_id: editorVariant.id }, owner.id);
+      }
+      await db.update(productVariantsTable).set({ price: '39.99' }).where(eq(productVariantsTable.id, editorVariant.id)).execute();
+
+      setMailTransport({
+        async send(message) {
+          if (message.to === 'fan@example.com') {
+            throw new Error('Mailbox unavailable');
+          }
+          await mailTransport.send(message);
+        }
+      });
+      try {
+        expect(await sendWishlistAlerts()).toEqual(1);
+      } finally {
+        setMailTransport(mailTransport);
+      }
+      expect(mailTransport.messages.map(message => message.to)).toEqual(['other@example.com']);
+
+      expect(await sendWishlistAlerts()).toEqual(1);
+      expect(mailTransport.messages.map(message => message.to)).toEqual(['other@example.com', 'fan@example.com']);
+      expect(mailTransport.messages[1].text).toContain('dropped from 49.99 to 39.99');
+    });
+  });
+});